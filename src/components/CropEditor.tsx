@@ -0,0 +1,253 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import { Crop } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { CropRect } from '@/lib/types';
+import { cropRegion } from '@/lib/scaling';
+
+// Smallest crop the handles can make, in source pixels
+const MIN_CROP = 8;
+
+const cropPresets: { label: string; aspect: number | null }[] = [
+  { label: 'Free', aspect: null },
+  { label: 'Source', aspect: 0 },   // resolved against the source size
+  { label: '1:1', aspect: 1 },
+  { label: '4:3', aspect: 4 / 3 },
+  { label: '3:4', aspect: 3 / 4 },
+  { label: '16:9', aspect: 16 / 9 },
+  { label: '9:16', aspect: 9 / 16 },
+];
+
+type Handle = 'move' | 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+const HANDLES: { handle: Handle; className: string }[] = [
+  { handle: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { handle: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { handle: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { handle: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { handle: 'n', className: 'left-1/2 -top-1.5 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 's', className: 'left-1/2 -bottom-1.5 -translate-x-1/2 cursor-ns-resize' },
+  { handle: 'w', className: '-left-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+  { handle: 'e', className: '-right-1.5 top-1/2 -translate-y-1/2 cursor-ew-resize' },
+];
+
+// Largest rect of this aspect centred on (cx, cy) that fits inside the frame
+function centredCrop(srcW: number, srcH: number, aspect: number | null, cx = srcW / 2, cy = srcH / 2): CropRect {
+  let width = srcW * 0.8;
+  let height = srcH * 0.8;
+  if (aspect) {
+    width = Math.min(srcW, srcH * aspect);
+    height = width / aspect;
+  }
+  const x = Math.max(0, Math.min(srcW - width, cx - width / 2));
+  const y = Math.max(0, Math.min(srcH - height, cy - height / 2));
+  return cropRegion({ x, y, width, height }, srcW, srcH);
+}
+
+// Apply a pointer drag of (dx, dy) source pixels to the rect it started from
+function dragCrop(start: CropRect, handle: Handle, dx: number, dy: number, srcW: number, srcH: number, aspect: number | null): CropRect {
+  if (handle === 'move') {
+    return {
+      ...start,
+      x: Math.max(0, Math.min(srcW - start.width, start.x + dx)),
+      y: Math.max(0, Math.min(srcH - start.height, start.y + dy))
+    };
+  }
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.width;
+  let bottom = start.y + start.height;
+  if (handle.includes('w')) left = Math.max(0, Math.min(right - MIN_CROP, left + dx));
+  if (handle.includes('e')) right = Math.min(srcW, Math.max(left + MIN_CROP, right + dx));
+  if (handle.includes('n')) top = Math.max(0, Math.min(bottom - MIN_CROP, top + dy));
+  if (handle.includes('s')) bottom = Math.min(srcH, Math.max(top + MIN_CROP, bottom + dy));
+
+  if (aspect) {
+    // The dragged side leads; the other follows, shrinking both if that runs off the frame
+    let width = right - left;
+    let height = bottom - top;
+    if (handle === 'n' || handle === 's') width = height * aspect;
+    else height = width / aspect;
+    const maxW = handle.includes('w') ? right : srcW - left;
+    const maxH = handle.includes('n') ? bottom : srcH - top;
+    const fit = Math.min(1, maxW / width, maxH / height);
+    width *= fit;
+    height *= fit;
+    if (handle.includes('w')) left = right - width;
+    else right = left + width;
+    if (handle.includes('n')) top = bottom - height;
+    else bottom = top + height;
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+interface CropOverlayProps {
+  crop: CropRect;
+  srcW: number;
+  srcH: number;
+  aspect: number | null;
+  onChange: (crop: CropRect) => void;
+}
+
+/** Crop rectangle drawn over an object-contain preview, dragged and resized in source pixels. */
+export function CropOverlay({ crop, srcW, srcH, aspect, onChange }: CropOverlayProps) {
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  const drag = useRef<{ handle: Handle; startX: number; startY: number; start: CropRect } | null>(null);
+
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setBox({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Where object-contain puts the media inside the preview box
+  const scale = srcW && srcH ? Math.min(box.width / srcW, box.height / srcH) : 0;
+  const offsetX = (box.width - srcW * scale) / 2;
+  const offsetY = (box.height - srcH * scale) / 2;
+  const rect = cropRegion(crop, srcW, srcH);
+
+  const startDrag = (handle: Handle) => (e: ReactPointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    drag.current = { handle, startX: e.clientX, startY: e.clientY, start: rect };
+  };
+
+  const onPointerMove = (e: ReactPointerEvent) => {
+    const d = drag.current;
+    if (!d || !scale) return;
+    const next = dragCrop(d.start, d.handle, (e.clientX - d.startX) / scale, (e.clientY - d.startY) / scale, srcW, srcH, aspect);
+    onChange(cropRegion(next, srcW, srcH));
+  };
+
+  const endDrag = () => { drag.current = null; };
+
+  return (
+    <div ref={boxRef} className="absolute inset-0 touch-none" onPointerMove={onPointerMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+      {scale > 0 && (
+        <div
+          className="absolute border-2 border-white cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"
+          style={{
+            left: offsetX + rect.x * scale,
+            top: offsetY + rect.y * scale,
+            width: rect.width * scale,
+            height: rect.height * scale
+          }}
+          onPointerDown={startDrag('move')}
+        >
+          {/* Rule-of-thirds guides */}
+          <div className="absolute inset-0 pointer-events-none grid grid-cols-3 grid-rows-3">
+            {Array.from({ length: 9 }, (_, i) => (
+              <div key={i} className="border border-white/20" />
+            ))}
+          </div>
+          {HANDLES.map(({ handle, className }) => (
+            <div
+              key={handle}
+              className={`absolute w-3 h-3 bg-white border border-black/40 rounded-sm ${className}`}
+              onPointerDown={startDrag(handle)}
+            />
+          ))}
+          <span className="absolute left-1 top-1 px-1 rounded bg-black/60 text-[10px] font-mono text-white pointer-events-none">
+            {rect.width}×{rect.height}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CropControlsProps {
+  crop?: CropRect;
+  srcW: number;
+  srcH: number;
+  aspect: number | null;
+  onAspectChange: (aspect: number | null) => void;
+  onChange: (crop: CropRect | undefined) => void;
+}
+
+/** Crop toggle, aspect presets and exact x / y / width / height fields. */
+export function CropControls({ crop, srcW, srcH, aspect, onAspectChange, onChange }: CropControlsProps) {
+  const rect = crop ? cropRegion(crop, srcW, srcH) : null;
+  const sourceAspect = srcW && srcH ? srcW / srcH : null;
+
+  const handlePreset = (preset: number | null) => {
+    const next = preset === 0 ? sourceAspect : preset;
+    onAspectChange(next);
+    if (next && rect) onChange(centredCrop(srcW, srcH, next, rect.x + rect.width / 2, rect.y + rect.height / 2));
+  };
+
+  const handleField = (field: keyof CropRect, value: string) => {
+    if (!rect) return;
+    const n = parseInt(value);
+    if (!Number.isFinite(n)) return;
+    const next = { ...rect, [field]: n };
+    // Typed sizes keep the chosen aspect like dragging does
+    if (aspect && field === 'width') next.height = Math.round(n / aspect);
+    if (aspect && field === 'height') next.width = Math.round(n * aspect);
+    onChange(cropRegion(next, srcW, srcH));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="cropEnabled" className="flex items-center gap-2">
+          <Crop size={16} />
+          Crop
+        </Label>
+        <Switch
+          id="cropEnabled"
+          checked={!!crop}
+          disabled={!srcW || !srcH}
+          onCheckedChange={(on) => onChange(on ? centredCrop(srcW, srcH, aspect) : undefined)}
+        />
+      </div>
+
+      {rect && (
+        <>
+          <div className="flex flex-wrap gap-1">
+            {cropPresets.map(p => {
+              const value = p.aspect === 0 ? sourceAspect : p.aspect;
+              return (
+                <Button
+                  key={p.label}
+                  size="sm"
+                  variant={value === aspect ? 'default' : 'outline'}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => handlePreset(p.aspect)}
+                >
+                  {p.label}
+                </Button>
+              );
+            })}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {(['x', 'y', 'width', 'height'] as const).map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`crop-${field}`} className="text-xs">
+                  {field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()}
+                </Label>
+                <Input
+                  id={`crop-${field}`}
+                  type="number"
+                  min={field === 'x' || field === 'y' ? 0 : 1}
+                  className="h-8 px-2 text-xs"
+                  value={rect[field]}
+                  onChange={(e) => handleField(field, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          <Button size="sm" variant="outline" onClick={() => onChange({ x: 0, y: 0, width: srcW, height: srcH })}>
+            Reset to full frame
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
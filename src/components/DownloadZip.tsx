@@ -1,10 +1,12 @@
-import { useState } from 'react';
-import JSZip from 'jszip';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Download, Package } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { ExtractedFrame, FileMetadata } from '@/lib/types';
+import { clearZipScratch } from '@/lib/zipWriter';
+import { saveZip } from '@/lib/saveZip';
+import { sanitizeFilename } from '@/lib/naming';
 
 interface DownloadZipProps {
   frames: ExtractedFrame[];
@@ -24,45 +26,11 @@ export function DownloadZip({ frames, metadata, basename }: DownloadZipProps) {
     setProgress(0);
 
     try {
-      const zip = new JSZip();
-      
-      // Add frames to zip
-      for (let i = 0; i < framesToZip.length; i++) {
-        const frame = framesToZip[i];
-        
-        // Convert blob to array buffer
-        const arrayBuffer = await frame.blob.arrayBuffer();
-        
-        // Add to zip with the generated filename
-        zip.file(frame.filename, arrayBuffer);
-        
-        // Update progress
-        setProgress(((i + 1) / framesToZip.length) * 80); // 80% for adding files
-      }
-      
-      // Generate zip file
-      setProgress(85);
-      const zipBlob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 6 }
-      });
-      
-      setProgress(95);
-      
-      // Generate filename
       const dimensions = metadata ? `${metadata.width}x${metadata.height}` : '';
-      const zipFilename = `${basename}_frames${dimensions ? '_' + dimensions : ''}_${framesToZip.length}.zip`;
-      
-      // Download zip
-      const url = URL.createObjectURL(zipBlob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = zipFilename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const zipFilename = sanitizeFilename(`${basename}_frames${dimensions ? '_' + dimensions : ''}_${framesToZip.length}`) + '.zip';
+
+      const saved = await saveZip(framesToZip, zipFilename, setProgress);
+      if (!saved) return;
       
       setProgress(100);
       
@@ -117,6 +85,11 @@ export function useDownloadZip() {
   const [progress, setProgress] = useState(0);
   const { toast } = useToast();
 
+  // Scratch archives left by an earlier visit can no longer be downloaded; recent ones may be another tab's
+  useEffect(() => {
+    clearZipScratch();
+  }, []);
+
   const createZip = async (frames: ExtractedFrame[], basename: string, metadata?: FileMetadata) => {
     if (frames.length === 0) return;
 
@@ -124,35 +97,11 @@ export function useDownloadZip() {
     setProgress(0);
 
     try {
-      const zip = new JSZip();
-      
-      for (let i = 0; i < frames.length; i++) {
-        const frame = frames[i];
-        const arrayBuffer = await frame.blob.arrayBuffer();
-        zip.file(frame.filename, arrayBuffer);
-        setProgress(((i + 1) / frames.length) * 80);
-      }
-      
-      setProgress(85);
-      const zipBlob = await zip.generateAsync({
-        type: 'blob',
-        compression: 'DEFLATE',
-        compressionOptions: { level: 6 }
-      });
-      
-      setProgress(95);
-      
       const dimensions = metadata ? `${metadata.width}x${metadata.height}` : '';
-      const zipFilename = `${basename}_frames${dimensions ? '_' + dimensions : ''}_${frames.length}.zip`;
-      
-      const url = URL.createObjectURL(zipBlob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = zipFilename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const zipFilename = sanitizeFilename(`${basename}_frames${dimensions ? '_' + dimensions : ''}_${frames.length}`) + '.zip';
+
+      const saved = await saveZip(frames, zipFilename, setProgress);
+      if (!saved) return;
       
       setProgress(100);
       
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Card } from '@/components/ui/card';
-import { Download, Play, Square, AlertCircle } from 'lucide-react';
+import { Download, Play, Pause, Square, AlertCircle, RotateCcw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import type { 
   ExtractionSettings, 
@@ -14,6 +14,11 @@ import type {
 import { estimateFramesAndZip } from '@/lib/estimate';
 import Diagnostics from '@/components/Diagnostics';
 import { ProcessingController } from '@/components/ProcessingController';
+import { useDownloadZip } from '@/components/DownloadZip';
+import { fileBasename } from '@/lib/naming';
+import { outputSize } from '@/lib/frameOutput';
+import { settingsFormat } from '@/lib/outputFormats';
+import { orientedSize } from '@/lib/orientation';
 
 interface ExtractionEngineProps {
   file: File | null;
@@ -46,6 +51,7 @@ export function ExtractionEngine({
   }>>([]);
 
   const { toast } = useToast();
+  const { createZip, isCreating } = useDownloadZip();
   
   const controller = ProcessingController({
     file,
@@ -96,6 +102,13 @@ export function ExtractionEngine({
     );
   }
 
+  // Rotating by a quarter turn is not a resize, so compare against the oriented source
+  const source = orientedSize(settings, metadata.width, metadata.height);
+  const size = outputSize(settings, metadata.width, metadata.height);
+  const frameSizeNote = size.width === source.width && size.height === source.height
+    ? `Original resolution preserved (${size.width}×${size.height})`
+    : `Frames scaled to ${size.width}×${size.height}`;
+
   return (
     <Card className="p-6">
       <div className="space-y-4">
@@ -111,26 +124,63 @@ export function ExtractionEngine({
           </div>
         </div>
 
+        {/* Saved job for this file */}
+        {controller.resumableJob && !isExtracting && (
+          <div className="flex items-center justify-between gap-3 text-sm bg-primary/5 border border-primary/20 p-3 rounded-md">
+            <span>
+              Saved job: {controller.resumableJob.savedFrames.toLocaleString()} frames up to {(controller.resumableJob.lastTimestamp / 1000).toFixed(2)}s
+              {controller.resumableJob.status === 'running' && ' (interrupted)'}
+            </span>
+            <div className="flex gap-2 shrink-0">
+              <Button size="sm" onClick={controller.resumeJob} disabled={controller.engineStatus === 'detecting'}>
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Resume job
+              </Button>
+              <Button variant="outline" size="sm" onClick={controller.discardJob}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Extraction Button */}
         <div className="space-y-3">
-          <Button
-            onClick={isExtracting ? controller.cancelExtraction : controller.startExtraction}
-            disabled={!file || !metadata || controller.engineStatus === 'detecting'}
-            size="lg"
-            className="w-full"
-          >
-            {isExtracting ? (
-              <>
-                <Square className="w-4 h-4 mr-2" />
-                Cancel Extraction
-              </>
-            ) : (
-              <>
-                <Play className="w-4 h-4 mr-2" />
-                Extract {estimatedFrames > 0 ? `${estimatedFrames.toLocaleString()} Frames` : 'Frames'}
-              </>
+          <div className="flex gap-2">
+            {isExtracting && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={controller.pauseExtraction}
+                disabled={controller.isCancelling}
+              >
+                <Pause className="w-4 h-4 mr-2" />
+                Pause
+              </Button>
             )}
-          </Button>
+            <Button
+              onClick={isExtracting ? controller.cancelExtraction : controller.startExtraction}
+              disabled={!file || !metadata || controller.engineStatus === 'detecting' || controller.isCancelling}
+              size="lg"
+              className="flex-1"
+            >
+              {controller.isCancelling ? (
+                <>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stopping...
+                </>
+              ) : isExtracting ? (
+                <>
+                  <Square className="w-4 h-4 mr-2" />
+                  Cancel Extraction
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4 mr-2" />
+                  Extract {estimatedFrames > 0 ? `${estimatedFrames.toLocaleString()} Frames` : 'Frames'}
+                </>
+              )}
+            </Button>
+          </div>
 
           <div className="flex flex-col gap-2">
             {controller.getStatusBadge()}
@@ -150,6 +200,15 @@ export function ExtractionEngine({
               <span>{progress.percent.toFixed(1)}% complete</span>
               <span>{progress.frames} frames extracted</span>
             </div>
+            {progress.workers && progress.workers.length > 1 && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {progress.workers.map(w => (
+                  <span key={w.worker}>
+                    Worker {w.worker}: {w.frames.toLocaleString()} frames • {w.fps.toFixed(1)} fps
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -167,6 +226,26 @@ export function ExtractionEngine({
           </div>
         )}
 
+        {(progress.status === 'cancelled' || progress.status === 'paused') && (
+          <div className="flex items-center justify-between gap-3 text-sm text-amber-600 bg-amber-50 dark:bg-amber-950/20 p-3 rounded-md">
+            <span>
+              {progress.status === 'paused' ? 'Paused' : 'Cancelled'} after {progress.frames.toLocaleString()} frames
+              {generatedParts.length > 0 && ` • ${generatedParts.length} ZIP parts below`}
+            </span>
+            {controller.frames.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isCreating}
+                onClick={() => createZip(controller.frames, fileBasename(file.name), metadata)}
+              >
+                <Download className="w-3 h-3 mr-1" />
+                Download {controller.frames.length} frames
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Generated Parts */}
         {generatedParts.length > 0 && (
           <div className="space-y-2">
@@ -196,8 +275,8 @@ export function ExtractionEngine({
         {/* Processing Info */}
         <div className="text-xs text-muted-foreground space-y-1">
           <p>• Files are processed entirely in your browser</p>
-          <p>• Original resolution preserved</p>
-          <p>• {settings.split?.enabled ? 'Split export reduces memory usage' : 'PNG format with lossless quality'}</p>
+          <p>• {frameSizeNote}</p>
+          <p>• {settingsFormat(settings).label} frames{settings.split?.enabled ? '; split export reduces memory usage' : ''}</p>
         </div>
       </div>
     </Card>
@@ -1,20 +1,43 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Download, FileImage } from 'lucide-react';
 import type { ExtractedFrame } from '@/lib/types';
+import { SpriteSheetExport } from '@/components/SpriteSheetExport';
 
 interface FramesGridProps {
   frames: ExtractedFrame[];
   onDownloadSelected: (frames: ExtractedFrame[]) => void;
   onDownloadAll: () => void;
+  basename: string;
+  fps?: number;
 }
 
-export function FramesGrid({ frames, onDownloadAll }: FramesGridProps) {
+// Positions in the frame list, 1-based and inclusive
+interface FrameRange {
+  first: number;
+  last: number;
+}
+
+export function FramesGrid({ frames, onDownloadSelected, onDownloadAll, basename, fps }: FramesGridProps) {
+  // Null keeps every frame selected, including frames that arrive while extraction runs
+  const [range, setRange] = useState<FrameRange | null>(null);
+
   if (frames.length === 0) {
     return null;
   }
 
+  const first = Math.min(range?.first ?? 1, frames.length);
+  const last = Math.max(first, Math.min(range?.last ?? frames.length, frames.length));
+  const selected = frames.slice(first - 1, last);
+  const setBound = (bound: keyof FrameRange, value: string) => {
+    const n = Math.max(1, Math.min(frames.length, parseInt(value) || 1));
+    setRange(bound === 'first' ? { first: n, last: Math.max(n, last) } : { first: Math.min(first, n), last: n });
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -23,8 +46,11 @@ export function FramesGrid({ frames, onDownloadAll }: FramesGridProps) {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
   };
 
-  // Calculate total estimated size (rough estimate)
-  const estimatedTotalSize = frames.length * 1024 * 512; // ~512KB per frame estimate
+  const totalSize = frames.reduce((n, f) => n + f.blob.size, 0);
+  // Compressed PNG frames carry the size they would have had as plain PNG
+  const compressed = frames.filter(f => f.originalSize);
+  const originalSize = compressed.reduce((n, f) => n + (f.originalSize ?? 0), 0);
+  const savedSize = originalSize - compressed.reduce((n, f) => n + f.blob.size, 0);
   const firstFrame = frames[0];
   const lastFrame = frames[frames.length - 1];
 
@@ -55,8 +81,8 @@ export function FramesGrid({ frames, onDownloadAll }: FramesGridProps) {
               <div className="font-semibold">{frames.length} frames</div>
             </div>
             <div>
-              <span className="text-muted-foreground">Estimated size:</span>
-              <div className="font-semibold">{formatFileSize(estimatedTotalSize)}</div>
+              <span className="text-muted-foreground">Total size:</span>
+              <div className="font-semibold">{formatFileSize(totalSize)}</div>
             </div>
             <div>
               <span className="text-muted-foreground">Frame range:</span>
@@ -66,6 +92,14 @@ export function FramesGrid({ frames, onDownloadAll }: FramesGridProps) {
               <span className="text-muted-foreground">Format:</span>
               <div className="font-semibold">{firstFrame.filename.split('.').pop()?.toUpperCase()}</div>
             </div>
+            {originalSize > 0 && (
+              <div className="col-span-2">
+                <span className="text-muted-foreground">PNG compression saved:</span>
+                <div className="font-semibold">
+                  {formatFileSize(savedSize)} ({Math.round((savedSize / originalSize) * 100)}% smaller than plain PNG, same dimensions)
+                </div>
+              </div>
+            )}
           </div>
         </div>
 
@@ -81,6 +115,58 @@ export function FramesGrid({ frames, onDownloadAll }: FramesGridProps) {
           </Button>
         </div>
 
+        {/* Selection */}
+        <div className="border rounded-lg p-4 space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="firstFrame">First frame</Label>
+              <Input
+                id="firstFrame"
+                type="number"
+                value={first}
+                onChange={(e) => setBound('first', e.target.value)}
+                min={1}
+                max={frames.length}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lastFrame">Last frame</Label>
+              <Input
+                id="lastFrame"
+                type="number"
+                value={last}
+                onChange={(e) => setBound('last', e.target.value)}
+                min={1}
+                max={frames.length}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              {selected.length} of {frames.length} frames selected (#{selected[0].index} - #{selected[selected.length - 1].index})
+            </p>
+            <div className="flex gap-2">
+              {range && (
+                <Button variant="ghost" size="sm" onClick={() => setRange(null)}>
+                  Select All
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDownloadSelected(selected)}
+                className="flex items-center gap-2"
+              >
+                <Download size={14} />
+                Download Selected
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {/* Sprite Sheet */}
+        <SpriteSheetExport frames={selected} basename={basename} fps={fps} />
+
         {/* Additional Info */}
         <div className="text-xs text-muted-foreground bg-muted/20 rounded p-3">
           <p className="flex items-center gap-2">
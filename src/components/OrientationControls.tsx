@@ -0,0 +1,63 @@
+import { FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { OrientationSettings, QuarterTurn } from '@/lib/types';
+import { quarterTurn } from '@/lib/orientation';
+
+interface OrientationControlsProps {
+  orientation?: OrientationSettings;
+  containerRotation?: QuarterTurn;
+  onChange: (orientation: OrientationSettings | undefined) => void;
+}
+
+const NONE: OrientationSettings = { rotate: 0, flipH: false, flipV: false };
+
+/** Rotate and flip buttons, applied on top of whatever rotation the container records. */
+export function OrientationControls({ orientation = NONE, containerRotation, onChange }: OrientationControlsProps) {
+  const update = (patch: Partial<OrientationSettings>) => {
+    const next = { ...orientation, ...patch };
+    onChange(next.rotate || next.flipH || next.flipV ? next : undefined);
+  };
+  const changed = orientation.rotate !== 0 || orientation.flipH || orientation.flipV;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Orientation</Label>
+        <span className="text-xs text-muted-foreground">
+          {containerRotation ? `File rotated ${containerRotation}°` : 'No rotation in file'}
+          {orientation.rotate ? ` · +${orientation.rotate}°` : ''}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" title="Rotate 90° counter-clockwise" onClick={() => update({ rotate: quarterTurn(orientation.rotate - 90) })}>
+          <RotateCcw size={16} />
+        </Button>
+        <Button size="sm" variant="outline" title="Rotate 90° clockwise" onClick={() => update({ rotate: quarterTurn(orientation.rotate + 90) })}>
+          <RotateCw size={16} />
+        </Button>
+        <Button
+          size="sm"
+          variant={orientation.flipH ? 'default' : 'outline'}
+          title="Flip horizontally"
+          onClick={() => update({ flipH: !orientation.flipH })}
+        >
+          <FlipHorizontal2 size={16} />
+        </Button>
+        <Button
+          size="sm"
+          variant={orientation.flipV ? 'default' : 'outline'}
+          title="Flip vertically"
+          onClick={() => update({ flipV: !orientation.flipV })}
+        >
+          <FlipVertical2 size={16} />
+        </Button>
+        {changed && (
+          <Button size="sm" variant="ghost" onClick={() => onChange(undefined)}>
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
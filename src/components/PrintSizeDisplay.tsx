@@ -1,23 +1,47 @@
 import { Badge } from '@/components/ui/badge';
-import { calculatePrintSizes, formatDimensions, PrintSize } from '@/lib/printSizeCalculator';
+import { Button } from '@/components/ui/button';
+import { calculatePrintSizes, formatDimensions } from '@/lib/printSizeCalculator';
 interface PrintSizeDisplayProps {
   width: number;
   height: number;
+  dpi?: number;                                   // resolution written into the frames
+  dpiSupported?: boolean;                         // whether the output format can carry it
+  onDpiChange?: (dpi: number | undefined) => void;
 }
 export function PrintSizeDisplay({
   width,
-  height
+  height,
+  dpi,
+  dpiSupported = true,
+  onDpiChange
 }: PrintSizeDisplayProps) {
   if (width <= 0 || height <= 0) return null;
   const printSizes = calculatePrintSizes(width, height);
   const recommendedSizes = printSizes.filter(size => size.recommended);
+  const chosen = (d: number) => d === dpi ? 'rounded bg-primary/10 px-1 -mx-1' : '';
   return <div className="space-y-3">
       <h4 className="text-caption font-medium">Print Size Reference</h4>
+
+      {/* Resolution recorded in the exported files; print software otherwise assumes 72 DPI */}
+      {onDpiChange && <div className="space-y-1">
+          <div className="text-xs text-muted-foreground">Write into exported frames:</div>
+          <div className="flex flex-wrap gap-1">
+            <Button size="sm" variant={dpi ? 'outline' : 'default'} className="h-7 px-2 text-xs" onClick={() => onDpiChange(undefined)}>
+              None
+            </Button>
+            {printSizes.map(size => <Button key={size.dpi} size="sm" variant={size.dpi === dpi ? 'default' : 'outline'} className="h-7 px-2 text-xs" onClick={() => onDpiChange(size.dpi)}>
+                {size.dpi} DPI
+              </Button>)}
+          </div>
+          {dpi && !dpiSupported && <div className="text-xs text-muted-foreground">
+              This output format has no resolution field; {dpi} DPI is written to PNG, JPEG, TIFF and BMP frames only.
+            </div>}
+        </div>}
       
       {/* Recommended sizes first */}
       {recommendedSizes.length > 0 && <div className="space-y-2">
           <div className="text-xs text-muted-foreground">Recommended for printing:</div>
-          {recommendedSizes.map(size => <div key={size.dpi} className="flex items-center justify-between">
+          {recommendedSizes.map(size => <div key={size.dpi} className={`flex items-center justify-between ${chosen(size.dpi)}`}>
               <span className="text-xs font-mono">
                 {formatDimensions(size)}
               </span>
@@ -38,7 +62,7 @@ export function PrintSizeDisplay({
           View all print sizes
         </summary>
         <div className="mt-2 space-y-1">
-          {printSizes.map(size => <div key={size.dpi} className="flex items-center justify-between py-1">
+          {printSizes.map(size => <div key={size.dpi} className={`flex items-center justify-between py-1 ${chosen(size.dpi)}`}>
               <span className="font-mono">
                 {formatDimensions(size)}
               </span>
@@ -6,8 +6,6 @@ import type {
   FileMetadata, 
   ExtractedFrame, 
   ExtractionProgress,
-  WorkerInMessage,
-  WorkerOutMessage,
   PartReady
 } from '@/lib/types';
 import { 
@@ -15,13 +13,45 @@ import {
   detectProcessingCapabilities, 
   getEngineDisplayName, 
   getEngineDescription,
+  autoEngine,
   type ProcessingEngine 
 } from '@/lib/processingMode';
 import { useToast } from '@/hooks/use-toast';
-import { extractAnimatedImageOnMain } from '@/lib/extractImage';
-import FfmpegWorker from '@/workers/ffmpeg.worker?worker';
-import ImageDecoderWorker from '@/workers/imageDecoder.worker?worker';
-import WebCodecsWorker from '@/workers/webcodecs.worker?worker';
+import { EngineError, type EngineId, type FrameSource } from '@/lib/frameSource';
+import { getEngineFormats, getEngineLabel, getFallbackEngine } from '@/lib/engineRegistry';
+import { settingsFormat } from '@/lib/outputFormats';
+import { createExtractionSource } from '@/lib/workerPool';
+import { framesPerPart } from '@/lib/splitExport';
+import { sha256Hex } from '@/lib/sha256';
+import {
+  createJob,
+  deleteJob,
+  fileIdentity,
+  findJob,
+  loadJobOutput,
+  resumeSettings,
+  rewindJob,
+  saveFrame,
+  savePart,
+  setJobStatus,
+  type JobRecord
+} from '@/lib/jobStore';
+
+type OutputPart = {
+  partIndex: number;
+  totalParts: number;
+  startFrame: number;
+  endFrame: number;
+  filename: string;
+  blob: Blob;
+  url: string;
+};
+
+// Output saved by a paused job, shown again before extraction continues
+interface RestoredOutput {
+  frames: ExtractedFrame[];
+  parts: OutputPart[];
+}
 
 interface ProcessingControllerProps {
   file: File | null;
@@ -51,7 +81,6 @@ export function ProcessingController({
   const [selectedEngine, setSelectedEngine] = useState<ProcessingEngine>('ffmpeg');
   const [engineStatus, setEngineStatus] = useState<'detecting' | 'ready' | 'processing' | 'error'>('detecting');
   const [capabilities, setCapabilities] = useState<any[]>([]);
-  const [worker, setWorker] = useState<Worker | null>(null);
   const [frames, setFrames] = useState<ExtractedFrame[]>([]);
   const [parts, setParts] = useState<Array<{
     partIndex: number;
@@ -62,12 +91,18 @@ export function ProcessingController({
     blob: Blob;
     url: string;
   }>>([]);
-  const [usingEngine, setUsingEngine] = useState<'imgdec'|'ffmpeg'|null>(null);
-  const abortRef = useRef<AbortController | null>(null);
-  const ffmpegRef = useRef<Worker | null>(null);
+  const [activeEngine, setActiveEngine] = useState<EngineId | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [resumableJob, setResumableJob] = useState<JobRecord | null>(null);
+  const sourceRef = useRef<FrameSource | null>(null);
+  const cancelRequestedRef = useRef(false);
+  const pauseRequestedRef = useRef(false);
+  const jobRef = useRef<JobRecord | null>(null);
+  const checkpointQueue = useRef<Promise<void>>(Promise.resolve());
+  // Source hash for provenance, kept so fallbacks and resumes do not read the file again
+  const sourceHashRef = useRef<{ file: File; sha256?: string } | null>(null);
   
   const { toast } = useToast();
-  const basePath = `${window.location.origin}${(import.meta as any).env?.BASE_URL ?? '/'}`.replace(/\/$/, '') + '/ffmpeg';
 
   // Detect capabilities and select engine when file changes
   useEffect(() => {
@@ -87,16 +122,7 @@ export function ProcessingController({
         let engine: ProcessingEngine;
         
         if (settings.processingMode === 'auto') {
-          const tt = metadata?.trueType || file.type;
-          if (tt === 'image/webp' || tt === 'image/gif' || tt === 'image/apng' || tt === 'image/png') {
-            engine = 'image-decoder';
-          } else if (tt === 'video/mp4' || tt === 'video/webm') {
-            engine = 'ffmpeg';
-          } else if (file.type.startsWith('image/')) {
-            engine = 'image-decoder';
-          } else {
-            engine = 'ffmpeg';
-          }
+          engine = autoEngine(file, metadata, caps);
         } else {
           engine = await selectOptimalEngine(file, settings, metadata);
         }
@@ -114,456 +140,213 @@ export function ProcessingController({
     detectAndSelect();
   }, [file, metadata, settings.processingMode]);
 
-  // Create worker based on selected engine
+  // Offer to resume when a file with a saved checkpoint is opened again
   useEffect(() => {
-    if (!file || engineStatus !== 'ready') return;
-
-    let newWorker: Worker;
-
-    switch (selectedEngine) {
-      case 'image-decoder':
-        newWorker = new ImageDecoderWorker();
-        break;
-      case 'webcodecs':
-        newWorker = new WebCodecsWorker();
-        break;
-      case 'ffmpeg':
-      default:
-        newWorker = new FfmpegWorker();
-        break;
-    }
-
-    newWorker.onmessage = (event: MessageEvent<WorkerOutMessage | any>) => {
-      const { type } = event.data;
-      
-      switch (type) {
-        case 'ALIVE':
-          if (selectedEngine === 'ffmpeg') {
-            // Initialize FFmpeg worker
-            newWorker.postMessage({ type: 'INIT', basePath } as WorkerInMessage);
-          }
-          break;
-
-        case 'ID_READY':
-          // ImageDecoder worker is ready
-          break;
-
-        case 'FFMPEG_READY':
-        case 'READY':
-          // Worker is ready
-          break;
-
-        case 'PROGRESS':
-          if (selectedEngine === 'image-decoder') {
-            // ImageDecoder worker sends progress differently
-            onProgressUpdate?.({
-              frames: event.data.frames,
-              percent: event.data.percent,
-              status: 'processing'
-            });
-          } else {
-            onProgressUpdate?.((event.data as any).progress);
-          }
-          break;
-
-        case 'FRAME':
-          if (selectedEngine === 'image-decoder') {
-            const f = event.data.frame as { index: number; filename: string; timestamp: number; blob?: Blob; ab?: ArrayBuffer; mime: string };
-            const blob = f.blob ?? new Blob([new Uint8Array(f.ab!)], { type: f.mime || 'image/png' });
-            const url = URL.createObjectURL(blob);
-            setFrames(prev => [...prev, { ...f, blob, url }]);
-          } else {
-            const frame = (event.data as any).frame;
-            setFrames(prev => [...prev, frame]);
-          }
-          break;
-
-        case 'PART_READY':
-          const partData = event.data as PartReady;
-          const partUrl = URL.createObjectURL(partData.zip);
-          
-          const newPart = {
-            partIndex: partData.partIndex,
-            totalParts: partData.totalParts,
-            startFrame: partData.startFrame,
-            endFrame: partData.endFrame,
-            filename: partData.filename,
-            blob: partData.zip,
-            url: partUrl
-          };
-          
-          setParts(prev => {
-            const updated = [...prev, newPart];
-            onPartsReady?.(updated);
-            return updated;
-          });
-
-          if (settings.split?.autoDownload !== false) {
-            const link = document.createElement('a');
-            link.href = partUrl;
-            link.download = partData.filename;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
-          }
-
-          toast({
-            title: "Part Ready",
-            description: `Part ${partData.partIndex}/${partData.totalParts} processed with ${getEngineDisplayName(selectedEngine)}`,
-          });
-          break;
-
-        case 'COMPLETE':
-          setEngineStatus('ready');
-          onFramesExtracted?.(frames);
-          
-          toast({
-            title: "Extraction Complete!",
-            description: `Successfully extracted ${(event.data as any).totalFrames} frames using ${getEngineDisplayName(selectedEngine)}`,
-          });
-          break;
-
-        case 'ERROR':
-          // Auto-fallback for ImageDecoder errors (only for certain file types)
-          if (selectedEngine === 'image-decoder' && file) {
-            const tt = metadata?.trueType || file?.type || '';
-            const allowFallback = tt !== 'image/webp' && tt !== 'image/gif' && tt !== 'image/apng';
-            
-            if (allowFallback) {
-              toast({
-                title: 'ImageDecoder Error',
-                description: `${event.data.error}. Falling back to FFmpeg...`
-              });
-              
-              // Terminate current worker
-              newWorker.terminate();
-              
-              // Create FFmpeg worker as fallback
-              const fallbackWorker = new FfmpegWorker();
-              setSelectedEngine('ffmpeg');
-            
-            fallbackWorker.onmessage = (fallbackEvent: MessageEvent<WorkerOutMessage>) => {
-              // Handle FFmpeg worker messages with same logic as above
-              const { type: fallbackType } = fallbackEvent.data;
-              
-              switch (fallbackType) {
-                case 'ALIVE':
-                  fallbackWorker.postMessage({ type: 'INIT', basePath } as WorkerInMessage);
-                  break;
-                case 'FFMPEG_READY':
-                  fallbackWorker.postMessage({
-                    type: 'EXTRACT',
-                    file,
-                    settings,
-                    metadata
-                  } as WorkerInMessage);
-                  break;
-                case 'PROGRESS':
-                  onProgressUpdate?.((fallbackEvent.data as any).progress);
-                  break;
-                case 'FRAME':
-                  const fallbackFrame = (fallbackEvent.data as any).frame;
-                  setFrames(prev => [...prev, fallbackFrame]);
-                  break;
-                case 'COMPLETE':
-                  setEngineStatus('ready');
-                  onFramesExtracted?.(frames);
-                  toast({
-                    title: "Extraction Complete!",
-                    description: `Successfully extracted ${(fallbackEvent.data as any).totalFrames} frames using FFmpeg fallback`,
-                  });
-                  break;
-                case 'ERROR':
-                  setEngineStatus('error');
-                  toast({
-                    title: "Processing Failed",
-                    description: `FFmpeg fallback error: ${(fallbackEvent.data as any).error}`,
-                    variant: "destructive",
-                  });
-                  break;
-              }
-            };
-            
-              setWorker(fallbackWorker);
-              return;
-            } else {
-              toast({
-                title: 'ImageDecoder Error',
-                description: event.data.error,
-                variant: 'destructive'
-              });
-              setEngineStatus('error');
-            }
-          }
-          
-          setEngineStatus('error');
-          toast({
-            title: "Processing Failed",
-            description: `${getEngineDisplayName(selectedEngine)} error: ${(event.data as any).error}`,
-            variant: "destructive",
-          });
-          break;
-      }
-    };
-
-    newWorker.onerror = (evt) => {
-      // Never just log Event; fallback immediately with a clear reason
-      if (selectedEngine === 'image-decoder') {
-        toast({ 
-          title: 'ImageDecoder crashed', 
-          description: 'Falling back to FFmpeg…', 
-          variant: 'destructive' 
-        });
-        newWorker.terminate();
-        
-        // Create FFmpeg worker as fallback
-        const fallbackWorker = new FfmpegWorker();
-        setSelectedEngine('ffmpeg');
-        
-        fallbackWorker.onmessage = (fallbackEvent: MessageEvent<WorkerOutMessage>) => {
-          const { type: fallbackType } = fallbackEvent.data;
-          
-          switch (fallbackType) {
-            case 'ALIVE':
-              fallbackWorker.postMessage({ type: 'INIT', basePath } as WorkerInMessage);
-              break;
-            case 'FFMPEG_READY':
-              fallbackWorker.postMessage({
-                type: 'EXTRACT',
-                file,
-                settings,
-                metadata
-              } as WorkerInMessage);
-              break;
-            case 'PROGRESS':
-              onProgressUpdate?.((fallbackEvent.data as any).progress);
-              break;
-            case 'PART_READY':
-              const partData = fallbackEvent.data as PartReady;
-              const partUrl = URL.createObjectURL(partData.zip);
-              
-              const newPart = {
-                partIndex: partData.partIndex,
-                totalParts: partData.totalParts,
-                startFrame: partData.startFrame,
-                endFrame: partData.endFrame,
-                filename: partData.filename,
-                blob: partData.zip,
-                url: partUrl
-              };
-              
-              setParts(prev => {
-                const updated = [...prev, newPart];
-                onPartsReady?.(updated);
-                return updated;
-              });
-              break;
-            case 'COMPLETE':
-              setEngineStatus('ready');
-              onFramesExtracted?.(frames);
-              toast({
-                title: "Extraction Complete!",
-                description: `Successfully extracted ${(fallbackEvent.data as any).totalFrames} frames using FFmpeg fallback`,
-              });
-              break;
-            case 'ERROR':
-              setEngineStatus('error');
-              toast({
-                title: "Processing Failed",
-                description: `FFmpeg fallback error: ${(fallbackEvent.data as any).error}`,
-                variant: "destructive",
-              });
-              break;
-          }
-        };
-        
-        setWorker(fallbackWorker);
-      } else {
-        console.error('Worker error:', evt);
-        setEngineStatus('error');
-        toast({
-          title: "Worker Error",
-          description: `${getEngineDisplayName(selectedEngine)} worker failed to initialize`,
-          variant: "destructive",
-        });
-      }
-    };
-
-    setWorker(newWorker);
-
-    return () => {
-      newWorker.terminate();
-      
-      // Clean up object URLs
-      frames.forEach(frame => {
-        if (frame.url) {
-          URL.revokeObjectURL(frame.url);
-        }
-      });
-      
-      parts.forEach(part => {
-        if (part.url) {
-          URL.revokeObjectURL(part.url);
-        }
+    setResumableJob(null);
+    if (!file) return;
+    let stale = false;
+    fileIdentity(file)
+      .then(findJob)
+      .then(job => {
+        if (!stale && job && job.savedFrames > 0) setResumableJob(job);
+      })
+      .catch(() => {}); // no IndexedDB: nothing to resume
+    return () => { stale = true; };
+  }, [file]);
+
+  // Serialise checkpoint writes so the job record always matches the frames saved before it
+  const checkpoint = (write: (job: JobRecord) => Promise<void>) => {
+    const job = jobRef.current;
+    if (!job) return;
+    checkpointQueue.current = checkpointQueue.current
+      .then(() => write(job))
+      .catch(error => {
+        // Storage full or unavailable: keep extracting, just without the ability to resume
+        console.warn('Checkpoint failed; this job cannot be resumed:', error);
+        if (jobRef.current === job) jobRef.current = null;
       });
+  };
+
+  const handlePart = (partData: PartReady, engine: EngineId) => {
+    const partUrl = URL.createObjectURL(partData.zip);
+
+    const newPart = {
+      partIndex: partData.partIndex,
+      totalParts: partData.totalParts,
+      startFrame: partData.startFrame,
+      endFrame: partData.endFrame,
+      filename: partData.filename,
+      blob: partData.zip,
+      url: partUrl
     };
-  }, [selectedEngine, engineStatus, file]);
 
-  const startImageOnMain = async (file: File, settings: ExtractionSettings, metadata: FileMetadata) => {
-    setUsingEngine('imgdec');
-    setEngineStatus('processing');
-    setFrames([]);
-    setParts([]);
-    onProgressUpdate?.({ frames: 0, percent: 0, status: 'processing' });
-    abortRef.current?.abort();
-    abortRef.current = new AbortController();
+    setParts(prev => {
+      const updated = [...prev, newPart];
+      onPartsReady?.(updated);
+      return updated;
+    });
 
-    const out = settings.outputFormat?.type === 'jpeg' ? 'jpg' : 'png';
-    const isCompressed = settings.outputFormat?.type === 'png-compressed';
-    
-    try {
-      const total = await extractAnimatedImageOnMain({
-        file,
-        typeHint: metadata.trueType || file.type,
-        nameBase: (metadata.name || file.name).replace(/\.[^.]+$/, ''),
-        out,
-        compressed: isCompressed,
-        jpgQuality: (settings.outputFormat?.quality ?? 92) / 100,
-        fpsHint: metadata.fps ?? 10,
-        signal: abortRef.current.signal,
-        onFrame: (i, blob, filename, ms) => {
-          const url = URL.createObjectURL(blob);
-          const frame = { index: i, filename, timestamp: ms, blob, url };
-          setFrames(prev => [...prev, frame]);
-        },
-        onProgress: (done, total) => {
-          onProgressUpdate?.({ frames: done, percent: Math.round((done/total)*100), status: 'processing' });
-        },
-      });
-      
-      setEngineStatus('ready');
-      onProgressUpdate?.({ frames: total, percent: 100, status: 'complete' });
-      onFramesExtracted?.(frames);
-      
-      toast({
-        title: "Extraction Complete!",
-        description: `Successfully extracted ${total} frames using ImageDecoder`,
-      });
-    } catch (e: any) {
-      if (e?.message === 'Cancelled') return;
-      setEngineStatus('error');
-      toast({ 
-        title: 'Image decode error', 
-        description: e?.message || String(e), 
-        variant: 'destructive' 
-      });
+    if (settings.split?.autoDownload !== false) {
+      const link = document.createElement('a');
+      link.href = partUrl;
+      link.download = partData.filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
     }
+
+    toast({
+      title: "Part Ready",
+      description: `Part ${partData.partIndex}/${partData.totalParts} processed with ${getEngineLabel(engine)}`,
+    });
   };
 
-  const startFfmpeg = (file: File, settings: ExtractionSettings, metadata: FileMetadata) => {
-    setUsingEngine('ffmpeg');
+  const runEngine = async (
+    engine: EngineId,
+    file: File,
+    settings: ExtractionSettings,
+    metadata: FileMetadata,
+    restored: RestoredOutput = { frames: [], parts: [] }
+  ) => {
+    sourceRef.current?.dispose();
+    // Long video jobs are spread over several workers when the machine has cores and memory to spare
+    const source = createExtractionSource(engine, metadata, settings);
+    sourceRef.current = source;
+    setActiveEngine(engine);
     setEngineStatus('processing');
-    setFrames([]);
-    setParts([]);
-    onProgressUpdate?.({ frames: 0, percent: 0, status: 'processing' });
-    ffmpegRef.current?.terminate();
-    const w = new FfmpegWorker();
-    ffmpegRef.current = w;
-
-    w.onmessage = (e: MessageEvent<any>) => {
-      const { type } = e.data || {};
-      if (type === 'ALIVE') {
-        w.postMessage({ type: 'INIT', basePath });
-      } else if (type === 'FFMPEG_READY') {
-        w.postMessage({ type: 'EXTRACT', file, settings, metadata });
-      } else if (type === 'PROGRESS') {
-        onProgressUpdate?.({ 
-          frames: e.data.progress?.frames ?? 0, 
-          percent: e.data.progress?.percent ?? 0, 
-          status: 'processing' 
-        });
-      } else if (type === 'FRAME') {
-        const url = URL.createObjectURL(e.data.frame.blob);
-        setFrames(prev => [...prev, { ...e.data.frame, url }]);
-      } else if (type === 'PART_READY') {
-        const partData = e.data as PartReady;
-        const partUrl = URL.createObjectURL(partData.zip);
-        
-        const newPart = {
-          partIndex: partData.partIndex,
-          totalParts: partData.totalParts,
-          startFrame: partData.startFrame,
-          endFrame: partData.endFrame,
-          filename: partData.filename,
-          blob: partData.zip,
-          url: partUrl
-        };
-        
-        setParts(prev => {
-          const updated = [...prev, newPart];
-          onPartsReady?.(updated);
-          return updated;
-        });
+    setFrames(restored.frames);
+    setParts(restored.parts);
+    onPartsReady?.(restored.parts);
+    onProgressUpdate?.({ frames: restored.frames.length, percent: 0, status: 'processing' });
+    if (jobRef.current) jobRef.current.engine = engine;
+    // Split jobs resume from their last finished part; other jobs from their last frame
+    const checkpointByParts = framesPerPart(settings) > 0;
+
+    // Collected locally so completion never reads a stale `frames` state
+    const collected: ExtractedFrame[] = [...restored.frames];
+    let totalFrames = 0;
+    let lastPercent = 0;
+    let completed = false;
 
-        if (settings.split?.autoDownload !== false) {
-          const link = document.createElement('a');
-          link.href = partUrl;
-          link.download = partData.filename;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
+    try {
+      // An engine that cannot write the chosen format would only fail on its first frame
+      if (!(await getEngineFormats(engine)).includes(settings.outputFormat.type)) {
+        throw new Error(`It cannot write ${settingsFormat(settings).label} frames in this browser`);
+      }
+      if (settings.provenance && !metadata.sha256) {
+        if (sourceHashRef.current?.file !== file) {
+          // Provenance without the hash still names the source; a failed read should not stop the job
+          sourceHashRef.current = { file, sha256: await sha256Hex(file).catch(() => undefined) };
         }
-
+        metadata = { ...metadata, sha256: sourceHashRef.current.sha256 };
+      }
+      for await (const event of source.extract(file, settings, metadata)) {
+        if (sourceRef.current !== source) return; // cancelled or superseded
+        switch (event.type) {
+          case 'progress':
+            lastPercent = event.progress.percent;
+            onProgressUpdate?.(event.progress);
+            break;
+          case 'frame':
+            collected.push(event.frame);
+            setFrames(prev => [...prev, event.frame]);
+            if (!checkpointByParts) checkpoint(job => saveFrame(job, event.frame));
+            break;
+          case 'part':
+            handlePart(event.part, engine);
+            if (checkpointByParts) checkpoint(job => savePart(job, event.part));
+            break;
+          case 'complete':
+            totalFrames = event.totalFrames;
+            completed = true;
+            break;
+          case 'cancelled':
+            totalFrames = event.totalFrames;
+            break;
+        }
+      }
+    } catch (error) {
+      if (sourceRef.current !== source) return;
+      source.dispose();
+      // An engine failing while it winds down still leaves usable partial output
+      if (cancelRequestedRef.current) {
+        finishCancelled(source, collected, collected.length, lastPercent);
+        return;
+      }
+      const reason = error instanceof Error ? error.message : String(error);
+      const fallback = getFallbackEngine(engine, metadata.trueType || file.type);
+      if (fallback) {
         toast({
-          title: "Part Ready",
-          description: `Part ${partData.partIndex}/${partData.totalParts} processed with FFmpeg`,
+          title: `${getEngineLabel(engine)} Error`,
+          description: `${reason}. Falling back to ${getEngineLabel(fallback)}...`
         });
-      } else if (type === 'COMPLETE') {
-        setEngineStatus('ready');
-        onFramesExtracted?.(frames);
-        onProgressUpdate?.({ frames: e.data.totalFrames, percent: 100, status: 'complete' });
+        // The fallback starts over from the same point, so what the failed engine saved is dropped
+        checkpoint(job => rewindJob(job, settings.resume));
+        return runEngine(fallback, file, settings, metadata, restored);
+      }
+      sourceRef.current = null;
+      setEngineStatus('error');
+      // Whatever was saved before the failure can still be resumed later
+      keepJobForResume();
+      if (error instanceof EngineError && error.code === 'size-limit') {
         toast({
-          title: "Extraction Complete!",
-          description: `Successfully extracted ${(e.data as any).totalFrames} frames using FFmpeg`,
-        });
-      } else if (type === 'ERROR') {
-        setEngineStatus('error');
-        toast({ 
-          title: 'FFmpeg error', 
-          description: e.data.error, 
-          variant: 'destructive' 
+          title: "File Too Large for This Engine",
+          description: reason,
+          variant: "destructive",
         });
+        return;
       }
-    };
-
-    w.onerror = (evt) => {
-      setEngineStatus('error');
-      toast({ 
-        title: 'FFmpeg worker crashed', 
-        description: 'See console for details', 
-        variant: 'destructive' 
+      toast({
+        title: "Processing Failed",
+        description: `${getEngineLabel(engine)} error: ${reason}`,
+        variant: "destructive",
       });
-    };
+      return;
+    }
 
-    setWorker(w);
+    if (sourceRef.current !== source) return;
+    // A cancelled stream ends with 'cancelled', or with nothing if the worker had to be terminated
+    if (!completed) {
+      finishCancelled(source, collected, totalFrames || collected.length, lastPercent);
+      return;
+    }
+    source.dispose();
+    sourceRef.current = null;
+    dropJob();
+    setEngineStatus('ready');
+    onFramesExtracted?.(collected);
+    onProgressUpdate?.({ frames: totalFrames, percent: 100, status: 'complete' });
+    toast({
+      title: "Extraction Complete!",
+      description: `Successfully extracted ${totalFrames} frames using ${getEngineLabel(engine)}`,
+    });
+  };
+
+  // Reset the per-run flags shared by fresh starts and resumes
+  const beginRun = () => {
+    cancelRequestedRef.current = false;
+    pauseRequestedRef.current = false;
+    setIsCancelling(false);
+    setResumableJob(null);
   };
 
   const startExtraction = async () => {
     if (!file || !metadata) return;
 
     // Reset frames at the start of any extraction
+    beginRun();
     setFrames([]);
     setParts([]);
     onFramesExtracted?.([]);
     onProgressUpdate?.({ frames: 0, percent: 0, status: 'processing' });
 
     try {
-      const tt = metadata.trueType || file.type;
-      if (tt.startsWith('image/')) {
-        await startImageOnMain(file, settings, metadata);
-      } else {
-        startFfmpeg(file, settings, metadata);
-      }
+      // Checkpointing is best effort; without IndexedDB the job simply cannot be resumed
+      jobRef.current = null;
+      jobRef.current = await fileIdentity(file)
+        .then(id => createJob({ id, fileName: file.name, fileSize: file.size, settings, engine: selectedEngine }))
+        .catch(() => null);
+      await runEngine(selectedEngine, file, settings, metadata);
     } catch (error) {
       console.error('Failed to start extraction:', error);
       setEngineStatus('error');
@@ -575,27 +358,103 @@ export function ProcessingController({
     }
   };
 
-  const cancelExtraction = () => {
-    abortRef.current?.abort();
-    ffmpegRef.current?.postMessage({ type: 'CANCEL' });
-    ffmpegRef.current?.terminate();
-    
-    if (worker) {
-      worker.postMessage({ type: 'CANCEL' } as WorkerInMessage);
-      worker.terminate();
-      setWorker(null);
+  // Continue a saved job from its checkpoint with the settings it was started with
+  const resumeJob = async () => {
+    const job = resumableJob;
+    if (!file || !metadata || !job) return;
+    beginRun();
+    try {
+      const saved = await loadJobOutput(job);
+      const restored: RestoredOutput = {
+        frames: saved.frames,
+        parts: saved.parts.map(({ endTimestamp: _endTimestamp, ...part }) => ({ ...part, url: URL.createObjectURL(part.blob) }))
+      };
+      jobRef.current = job;
+      await setJobStatus(job, 'running');
+      onFramesExtracted?.(restored.frames);
+      await runEngine(job.engine, file, resumeSettings(job), metadata, restored);
+    } catch (error) {
+      console.error('Failed to resume job:', error);
+      setEngineStatus('error');
+      toast({
+        title: "Error",
+        description: "The saved job could not be resumed",
+        variant: "destructive",
+      });
     }
-    
-    setFrames([]);
+  };
+
+  const discardJob = () => {
+    const job = resumableJob;
+    setResumableJob(null);
+    if (job) deleteJob(job.id).catch(() => {});
+  };
+
+  // Finished or cancelled for good: nothing left to resume
+  const dropJob = () => {
+    const job = jobRef.current;
+    jobRef.current = null;
+    if (job) checkpointQueue.current = checkpointQueue.current.then(() => deleteJob(job.id)).catch(() => {});
+  };
+
+  // Mark the job paused once its last checkpoint is written, and offer it straight away
+  const keepJobForResume = () => {
+    const job = jobRef.current;
+    jobRef.current = null;
+    if (!job) return;
+    checkpointQueue.current = checkpointQueue.current
+      .then(() => setJobStatus(job, 'paused'))
+      .then(() => setResumableJob(job.savedFrames > 0 ? job : null))
+      .catch(() => {});
+  };
+
+  // Keep whatever was produced before the stop so it can still be downloaded
+  const finishCancelled = (source: FrameSource, collected: ExtractedFrame[], totalFrames: number, percent: number) => {
+    const paused = pauseRequestedRef.current;
+    source.dispose();
+    sourceRef.current = null;
+    cancelRequestedRef.current = false;
+    pauseRequestedRef.current = false;
+    setIsCancelling(false);
     setEngineStatus('ready');
-    onProgressUpdate?.({ frames: 0, percent: 0, status: 'idle' });
-    
+    if (paused) keepJobForResume();
+    else dropJob();
+    onFramesExtracted?.(collected);
+    onProgressUpdate?.({ frames: totalFrames, percent, status: paused ? 'paused' : 'cancelled' });
+    if (paused) {
+      toast({
+        title: "Extraction Paused",
+        description: `Saved ${totalFrames} frames. Open the same file again to resume.`,
+      });
+      return;
+    }
     toast({
       title: "Extraction Cancelled",
-      description: "Frame extraction has been stopped",
+      description: totalFrames > 0
+        ? `Stopped after ${totalFrames} frames; they are still available to download`
+        : "Frame extraction was stopped before any frames were produced",
     });
   };
 
+  // The engine stops after its current frame and reports what it has; runEngine finishes up
+  const cancelExtraction = () => {
+    const source = sourceRef.current;
+    if (!source || cancelRequestedRef.current) return;
+    cancelRequestedRef.current = true;
+    setIsCancelling(true);
+    source.cancel();
+  };
+
+  // Same as cancel, but the checkpoint is kept so the job can be resumed later
+  const pauseExtraction = () => {
+    if (!sourceRef.current || cancelRequestedRef.current) return;
+    pauseRequestedRef.current = true;
+    cancelExtraction();
+  };
+
+  // Release the running engine on unmount
+  useEffect(() => () => sourceRef.current?.dispose(), []);
+
   const getEngineIcon = (engine: ProcessingEngine) => {
     switch (engine) {
       case 'image-decoder':
@@ -628,7 +487,7 @@ export function ProcessingController({
         return (
           <Badge variant="default" className="text-xs bg-blue-500/20 text-blue-300 border-blue-500/30">
             {getEngineIcon(selectedEngine)}
-            <span className="ml-1">Processing with {getEngineDisplayName(selectedEngine)}</span>
+            <span className="ml-1">Processing with {getEngineLabel(activeEngine ?? selectedEngine)}</span>
           </Badge>
         );
       case 'error':
@@ -647,6 +506,11 @@ export function ProcessingController({
     capabilities,
     startExtraction,
     cancelExtraction,
+    pauseExtraction,
+    isCancelling,
+    resumableJob,
+    resumeJob,
+    discardJob,
     getStatusBadge,
     getEngineDescription: () => getEngineDescription(selectedEngine),
     frames,
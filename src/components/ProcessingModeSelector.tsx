@@ -31,6 +31,13 @@ const processingModes = [
     icon: <Zap className="w-3 h-3" />,
     badge: 'Fast'
   },
+  {
+    value: 'animation',
+    label: 'Animation Decoder',
+    description: 'Built-in decoder for animated GIF, APNG and WebP that works in every browser',
+    icon: <Wrench className="w-3 h-3" />,
+    badge: 'Portable'
+  },
   {
     value: 'ffmpeg',
     label: 'FFmpeg (WASM)',
@@ -0,0 +1,196 @@
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Lock, Unlock } from 'lucide-react';
+import type { ExtractionSettings, FileMetadata, ResampleFilter, ScaleMode, ScaleSettings } from '@/lib/types';
+import { cropRegion, matteColor, scaleGeometry } from '@/lib/scaling';
+import { orientedSize } from '@/lib/orientation';
+
+interface ScaleSelectorProps {
+  settings: ExtractionSettings;
+  metadata?: FileMetadata;
+  onChange: (settings: ExtractionSettings) => void;
+}
+
+const scaleModes: { value: ScaleMode; label: string; description: string }[] = [
+  { value: 'original', label: 'Original size', description: 'Frames keep the source resolution' },
+  { value: 'custom', label: 'Exact size', description: 'Stretch to exactly width × height' },
+  { value: 'fit', label: 'Fit within', description: 'Largest size that fits inside width × height, aspect kept' },
+  { value: 'cover', label: 'Cover (crop to fill)', description: 'Fill width × height and crop the overflow from the centre' },
+  { value: 'pad', label: 'Pad to size', description: 'Fit inside width × height and fill the rest with a matte colour' },
+  { value: 'percent', label: 'Percentage', description: 'Scale both sides by a percentage' },
+  { value: 'max-edge', label: 'Longest edge', description: 'Shrink so the longest side is at most this many pixels' },
+];
+
+const filters: { value: ResampleFilter; label: string }[] = [
+  { value: 'nearest', label: 'Nearest (pixel art)' },
+  { value: 'bilinear', label: 'Bilinear (fast)' },
+  { value: 'bicubic', label: 'Bicubic (sharper)' },
+  { value: 'lanczos', label: 'Lanczos (sharpest)' },
+];
+
+// Modes that take a width × height box
+const BOX_MODES: ScaleMode[] = ['custom', 'fit', 'cover', 'pad'];
+
+export function ScaleSelector({ settings, metadata, onChange }: ScaleSelectorProps) {
+  const scale = settings.scale;
+  // Scale modes start from the oriented, cropped frame
+  const oriented = metadata ? orientedSize(settings, metadata.width, metadata.height) : null;
+  const region = oriented?.width && oriented?.height ? cropRegion(settings.crop, oriented.width, oriented.height) : null;
+  const srcW = region?.width || 0;
+  const srcH = region?.height || 0;
+  const aspect = srcW && srcH ? srcW / srcH : 16 / 9;
+  const lockAspect = scale.lockAspect ?? true;
+  const currentMode = scaleModes.find(m => m.value === scale.mode) || scaleModes[0];
+  const output = oriented && srcW && srcH ? scaleGeometry(scale, oriented.width, oriented.height, settings.crop) : null;
+
+  const update = (patch: Partial<ScaleSettings>) => {
+    onChange({ ...settings, scale: { ...scale, ...patch } });
+  };
+
+  const handleModeChange = (mode: ScaleMode) => {
+    // Start a box mode from the source size so the first edit is relative to something sensible
+    if (BOX_MODES.includes(mode) && !scale.width && !scale.height && srcW && srcH) {
+      update({ mode, width: srcW, height: srcH });
+      return;
+    }
+    update({ mode });
+  };
+
+  const handleSizeChange = (field: 'width' | 'height', value: string) => {
+    const n = parseInt(value);
+    const size = Number.isFinite(n) && n > 0 ? n : undefined;
+    if (!lockAspect || !size) {
+      update({ [field]: size });
+      return;
+    }
+    update(field === 'width'
+      ? { width: size, height: Math.max(1, Math.round(size / aspect)) }
+      : { height: size, width: Math.max(1, Math.round(size * aspect)) });
+  };
+
+  const handleLockChange = (locked: boolean) => {
+    // Locking snaps the height back to the source aspect
+    if (locked && scale.width) {
+      update({ lockAspect: true, height: Math.max(1, Math.round(scale.width / aspect)) });
+      return;
+    }
+    update({ lockAspect: locked });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Output Size</Label>
+      <Select value={scale.mode} onValueChange={handleModeChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {scaleModes.map(m => (
+            <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{currentMode.description}</p>
+
+      {BOX_MODES.includes(scale.mode) && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="scaleWidth" className="text-xs">Width</Label>
+              <Input
+                id="scaleWidth"
+                type="number"
+                min={1}
+                value={scale.width ?? ''}
+                onChange={(e) => handleSizeChange('width', e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-1 pb-2" title="Keep the source aspect ratio">
+              {lockAspect ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+              <Switch checked={lockAspect} onCheckedChange={handleLockChange} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="scaleHeight" className="text-xs">Height</Label>
+              <Input
+                id="scaleHeight"
+                type="number"
+                min={1}
+                value={scale.height ?? ''}
+                onChange={(e) => handleSizeChange('height', e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {scale.mode === 'pad' && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="matte" className="text-xs">Matte colour</Label>
+          <Input
+            id="matte"
+            type="color"
+            className="h-8 w-16 p-1"
+            value={matteColor(scale)}
+            onChange={(e) => update({ matte: e.target.value })}
+          />
+          <span className="font-mono text-xs text-muted-foreground">{matteColor(scale)}</span>
+        </div>
+      )}
+
+      {scale.mode === 'percent' && (
+        <div className="space-y-2">
+          <Label className="text-xs">Scale: {scale.percent ?? 100}%</Label>
+          <Slider
+            value={[scale.percent ?? 100]}
+            onValueChange={(v) => update({ percent: v[0] })}
+            min={5}
+            max={200}
+            step={5}
+          />
+        </div>
+      )}
+
+      {scale.mode === 'max-edge' && (
+        <div className="space-y-1">
+          <Label htmlFor="maxEdge" className="text-xs">Longest edge (px)</Label>
+          <Input
+            id="maxEdge"
+            type="number"
+            min={1}
+            value={scale.maxEdge ?? ''}
+            placeholder="1920"
+            onChange={(e) => {
+              const n = parseInt(e.target.value);
+              update({ maxEdge: Number.isFinite(n) && n > 0 ? n : undefined });
+            }}
+          />
+        </div>
+      )}
+
+      {scale.mode !== 'original' && (
+        <div className="space-y-1">
+          <Label className="text-xs">Resampling filter</Label>
+          <Select value={scale.filter ?? 'bilinear'} onValueChange={(filter: ResampleFilter) => update({ filter })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {filters.map(f => (
+                <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {output && scale.mode !== 'original' && (
+        <div className="text-xs text-muted-foreground bg-muted/30 p-2 rounded font-mono">
+          {srcW}×{srcH} → {output.width}×{output.height}
+        </div>
+      )}
+    </div>
+  );
+}
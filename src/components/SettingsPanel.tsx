@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,13 +8,20 @@ import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { AlertTriangle, Settings } from 'lucide-react';
-import { ExtractionSettings, FileMetadata, DEFAULT_SETTINGS } from '@/lib/types';
+import { ExtractionSettings, FileMetadata, DEFAULT_SETTINGS, OutputFormatType } from '@/lib/types';
 import { ProcessingModeSelector } from '@/components/ProcessingModeSelector';
+import { ScaleSelector } from '@/components/ScaleSelector';
+import { NAMING_TOKENS, fileBasename, frameFilename, validateNamingPattern } from '@/lib/naming';
+import { outputExtension, outputSize } from '@/lib/frameOutput';
+import { getEngineFormats } from '@/lib/engineRegistry';
+import { OUTPUT_FORMATS, canvasFormats, settingsFormat } from '@/lib/outputFormats';
+import { autoEngine, detectProcessingCapabilities } from '@/lib/processingMode';
 
 interface SettingsPanelProps {
   settings: ExtractionSettings;
   onSettingsChange: (settings: ExtractionSettings) => void;
   metadata?: FileMetadata;
+  file?: File | null;     // routes auto mode to the engine it will really use
   estimatedFrames?: number;
   estimatedSize?: number;
 }
@@ -23,10 +30,47 @@ export function SettingsPanel({
   settings, 
   onSettingsChange, 
   metadata, 
+  file,
   estimatedFrames = 0,
   estimatedSize = 0 
 }: SettingsPanelProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [engineFormats, setEngineFormats] = useState<OutputFormatType[] | null>(null);
+  const format = settingsFormat(settings);
+  const formatUnsupported = !!engineFormats && !engineFormats.includes(format.type);
+
+  // Formats the chosen engine can write here. Auto lists the engine it picks for the file (FFmpeg
+  // writes fewer formats than the canvas engines), or the canvas formats before a file is chosen.
+  useEffect(() => {
+    let stale = false;
+    const mode = settings.processingMode;
+    const pending = mode !== 'auto'
+      ? getEngineFormats(mode)
+      : file
+        ? detectProcessingCapabilities(file, metadata).then(caps => getEngineFormats(autoEngine(file, metadata, caps)))
+        : canvasFormats();
+    pending
+      .then(formats => { if (!stale) setEngineFormats(formats); })
+      .catch(() => { if (!stale) setEngineFormats(null); });
+    return () => { stale = true; };
+  }, [settings.processingMode, file, metadata]);
+  const namingProblems = validateNamingPattern(settings.naming.pattern);
+  // Second frame of the range, so {frame} and the time tokens show non-trivial values
+  const previewSize = outputSize(settings, metadata?.width || 1920, metadata?.height || 1080);
+  const namingPreview = frameFilename(
+    settings,
+    {
+      basename: fileBasename(metadata?.name || 'video.mp4'),
+      engine: settings.processingMode === 'auto' ? 'webcodecs' : settings.processingMode,
+      ext: outputExtension(settings),
+      fps: metadata?.fps
+    },
+    {
+      index: 1,
+      timestampMs: (settings.startTime || 0) * 1000 + 1000 / (metadata?.fps || 30),
+      ...previewSize
+    }
+  );
 
   const handleModeChange = (mode: ExtractionSettings['mode']) => {
     onSettingsChange({ ...settings, mode });
@@ -65,7 +109,7 @@ export function SettingsPanel({
     });
   };
 
-  const handleOutputFormatChange = (type: ExtractionSettings['outputFormat']['type']) => {
+  const handleOutputFormatChange = (type: OutputFormatType) => {
     onSettingsChange({
       ...settings,
       outputFormat: { ...settings.outputFormat, type }
@@ -79,6 +123,20 @@ export function SettingsPanel({
     });
   };
 
+  const handleLosslessChange = (lossless: boolean) => {
+    onSettingsChange({
+      ...settings,
+      outputFormat: { ...settings.outputFormat, lossless }
+    });
+  };
+
+  const handlePaletteChange = (patch: Pick<ExtractionSettings['outputFormat'], 'colors' | 'dither'>) => {
+    onSettingsChange({
+      ...settings,
+      outputFormat: { ...settings.outputFormat, ...patch }
+    });
+  };
+
   const parseTimeString = (timeStr: string): number => {
     const parts = timeStr.split(':');
     if (parts.length === 3) {
@@ -275,6 +333,9 @@ export function SettingsPanel({
               )}
             </div>
 
+            {/* Output Size */}
+            <ScaleSelector settings={settings} metadata={metadata} onChange={onSettingsChange} />
+
             {/* Output Format */}
             <div className="space-y-3">
               <Label>Output Format</Label>
@@ -286,16 +347,61 @@ export function SettingsPanel({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="png">PNG (Lossless)</SelectItem>
-                  <SelectItem value="jpeg">JPEG (Compressed)</SelectItem>
-                  <SelectItem value="png-compressed">PNG (Compressed)</SelectItem>
+                  {OUTPUT_FORMATS.map(f => (
+                    <SelectItem key={f.type} value={f.type} disabled={!!engineFormats && !engineFormats.includes(f.type)}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
+
+              {formatUnsupported && (
+                <div className="flex items-start gap-2 text-xs text-destructive">
+                  <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+                  <span>The selected engine cannot write {format.label} frames in this browser. Pick another format or engine.</span>
+                </div>
+              )}
+
+              {format.lossless && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="losslessOutput">Lossless</Label>
+                  <Switch
+                    id="losslessOutput"
+                    checked={!!settings.outputFormat.lossless}
+                    onCheckedChange={handleLosslessChange}
+                  />
+                </div>
+              )}
               
-              {/* Quality slider for JPEG */}
-              {settings.outputFormat.type === 'jpeg' && (
+              {/* Palette options for compressed PNG */}
+              {format.type === 'png-compressed' && (
+                <div className="space-y-3">
+                  <div className="space-y-2">
+                    <Label>Palette Colours: {settings.outputFormat.colors || 256}</Label>
+                    <Slider
+                      value={[settings.outputFormat.colors || 256]}
+                      onValueChange={(value) => handlePaletteChange({ colors: value[0] })}
+                      min={2}
+                      max={256}
+                      step={1}
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="ditherOutput">Dithering</Label>
+                    <Switch
+                      id="ditherOutput"
+                      checked={!!settings.outputFormat.dither}
+                      onCheckedChange={(dither) => handlePaletteChange({ dither })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Quality slider for lossy formats */}
+              {format.quality && !(format.lossless && settings.outputFormat.lossless) && (
                 <div className="space-y-2">
-                  <Label>JPEG Quality: {settings.outputFormat.quality || 90}%</Label>
+                  <Label>{format.label.replace(/ \(.*\)$/, '')} Quality: {settings.outputFormat.quality || 90}%</Label>
                   <Slider
                     value={[settings.outputFormat.quality || 90]}
                     onValueChange={handleQualityChange}
@@ -307,11 +413,25 @@ export function SettingsPanel({
                 </div>
               )}
               
+              <div className="flex items-center justify-between">
+                <Label htmlFor="embedProvenance">Embed Provenance</Label>
+                <Switch
+                  id="embedProvenance"
+                  checked={!!settings.provenance}
+                  onCheckedChange={(provenance) => onSettingsChange({ ...settings, provenance })}
+                />
+              </div>
+              {settings.provenance && (
+                <div className="text-xs text-muted-foreground">
+                  {format.provenance
+                    ? 'Each frame records its source file and hash, frame index, timestamp, timecode, engine and these settings.'
+                    : `${format.label} frames cannot carry provenance; use PNG or JPEG to embed it.`}
+                </div>
+              )}
+
               {/* Format advice */}
               <div className="text-xs text-muted-foreground bg-muted/30 p-2 rounded">
-                {settings.outputFormat.type === 'png' && '💡 PNG: Best for graphics, text, transparency. Larger files.'}
-                {settings.outputFormat.type === 'jpeg' && '💡 JPEG: Best for photos. Smaller files, no transparency.'}
-                {settings.outputFormat.type === 'png-compressed' && '💡 PNG Compressed: Balanced size/quality for NFTs and web.'}
+                💡 {format.hint}
               </div>
             </div>
 
@@ -340,12 +460,26 @@ export function SettingsPanel({
               {/* Naming Preview */}
               <div className="text-xs text-muted-foreground bg-muted/50 p-2 rounded">
                 <span className="font-mono">Preview: </span>
-                <span className="font-mono">
-                  {settings.naming.pattern
-                    .replace('{basename}', metadata?.name?.split('.')[0] || 'video')
-                    .replace('{frame}', '1'.padStart(settings.naming.padLength, '0'))
-                    .replace('{timestamp_ms}', '0')}.{settings.outputFormat.type === 'jpeg' ? 'jpg' : 'png'}
-                </span>
+                <span className="font-mono">{namingPreview}</span>
+              </div>
+              {namingProblems.map(problem => (
+                <div key={problem} className="flex items-start gap-2 text-xs text-destructive">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  <span>{problem}</span>
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-1">
+                {NAMING_TOKENS.map(({ token, description }) => (
+                  <Badge
+                    key={token}
+                    variant="outline"
+                    title={description}
+                    className="font-mono text-[10px] cursor-pointer"
+                    onClick={() => handleNamingChange('pattern', settings.naming.pattern + token)}
+                  >
+                    {token}
+                  </Badge>
+                ))}
               </div>
             </div>
 
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LayoutGrid } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { ExtractedFrame } from '@/lib/types';
+import type { AtlasLayoutMode } from '@/lib/atlasPacker';
+import { ATLAS_FORMATS, atlasFormatInfo, type AtlasFormat } from '@/lib/atlasFormats';
+import { ATLAS_PAGE_SIZES, DEFAULT_SPRITE_SHEET_OPTIONS, buildSpriteSheet, type SpriteSheetOptions } from '@/lib/spriteSheet';
+import { sanitizeFilename } from '@/lib/naming';
+import { saveZip } from '@/lib/saveZip';
+
+interface SpriteSheetExportProps {
+  frames: ExtractedFrame[];
+  basename: string;
+  fps?: number;
+}
+
+const layouts: { value: AtlasLayoutMode; label: string; description: string }[] = [
+  { value: 'maxrects', label: 'MaxRects (packed)', description: 'Smallest pages; sprites go wherever they fit' },
+  { value: 'grid', label: 'Grid', description: 'Equal cells in frame order, easy to slice by hand' },
+];
+
+export function SpriteSheetExport({ frames, basename, fps }: SpriteSheetExportProps) {
+  const [options, setOptions] = useState<SpriteSheetOptions>(DEFAULT_SPRITE_SHEET_OPTIONS);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { toast } = useToast();
+
+  const update = (patch: Partial<SpriteSheetOptions>) => setOptions(o => ({ ...o, ...patch }));
+  const layout = layouts.find(l => l.value === options.layout) || layouts[0];
+
+  const exportSheet = async () => {
+    setIsBuilding(true);
+    setProgress(0);
+    try {
+      const name = sanitizeFilename(`${basename}_sprites`);
+      // Packing is most of the work; the ZIP only stores what it produced
+      const { files, pages } = await buildSpriteSheet(frames, name, options, fps, p => setProgress(p * 0.9));
+      const saved = await saveZip(files, `${name}_${frames.length}.zip`, p => setProgress(90 + p * 0.1));
+      if (!saved) return;
+      setProgress(100);
+      toast({
+        title: "Sprite Sheet Created",
+        description: `Packed ${frames.length} frames onto ${pages} ${pages === 1 ? 'page' : 'pages'} with ${atlasFormatInfo(options.format).label} metadata`
+      });
+    } catch (error) {
+      console.error('Error creating sprite sheet:', error);
+      toast({
+        title: "Sprite Sheet Failed",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsBuilding(false);
+      setTimeout(() => setProgress(0), 1000);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2">
+          <LayoutGrid size={16} />
+          Sprite Sheet
+        </h4>
+        <p className="text-xs text-muted-foreground mt-1">
+          Pack the frames into PNG atlas pages with metadata for your engine. Frame durations come from the extracted timestamps.
+        </p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Layout</Label>
+          <Select value={options.layout} onValueChange={(value) => update({ layout: value as AtlasLayoutMode })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {layouts.map(l => (
+                <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{layout.description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Metadata</Label>
+          <Select value={options.format} onValueChange={(value) => update({ format: value as AtlasFormat })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATLAS_FORMATS.map(f => (
+                <SelectItem key={f.type} value={f.type}>{f.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{atlasFormatInfo(options.format).hint}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Max Page Size</Label>
+          <Select value={String(options.maxSize)} onValueChange={(value) => update({ maxSize: Number(value) })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ATLAS_PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size} × {size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Padding: {options.padding}px</Label>
+          <Slider
+            value={[options.padding]}
+            onValueChange={(value) => update({ padding: value[0] })}
+            min={0}
+            max={16}
+            step={1}
+            className="w-full pt-2"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="trimSprites">Trim transparent edges</Label>
+        <Switch
+          id="trimSprites"
+          checked={options.trim}
+          onCheckedChange={(trim) => update({ trim })}
+        />
+      </div>
+
+      {isBuilding && (
+        <div className="space-y-2">
+          <Progress value={progress} className="w-full" />
+          <div className="text-xs text-muted-foreground text-center">
+            Packing sprite sheet... {progress.toFixed(0)}%
+          </div>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        onClick={exportSheet}
+        disabled={isBuilding || frames.length === 0}
+        className="w-full flex items-center gap-2"
+      >
+        <LayoutGrid size={16} />
+        Download Sprite Sheet ({frames.length} frames)
+      </Button>
+    </div>
+  );
+}
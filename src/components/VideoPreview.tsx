@@ -1,26 +1,38 @@
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useState, type CSSProperties } from 'react';
 import { Play, Pause, RotateCcw } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { FileMetadata } from '@/lib/types';
+import { CropRect, ExtractionSettings, FileMetadata, OrientationSettings } from '@/lib/types';
 import { PrintSizeDisplay } from './PrintSizeDisplay';
+import { CropControls, CropOverlay } from './CropEditor';
+import { OrientationControls } from './OrientationControls';
+import { cropRegion } from '@/lib/scaling';
+import { outputSize } from '@/lib/frameOutput';
+import { settingsFormat } from '@/lib/outputFormats';
+import { cssOrientation, isIdentity, manualOrientation, orientedDims, orientedSize } from '@/lib/orientation';
 import { sniffTrueType } from '@/lib/sniff';
+import { probeContainer } from '@/lib/probe';
 
 interface VideoPreviewProps {
   file: File;
   metadata?: FileMetadata;
   onMetadataLoad?: (metadata: FileMetadata) => void;
+  settings?: ExtractionSettings;
+  onSettingsChange?: (settings: ExtractionSettings) => void;
 }
 
-export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewProps) {
+export function VideoPreview({ file, metadata, onMetadataLoad, settings, onSettingsChange }: VideoPreviewProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [url, setUrl] = useState<string>('');
   const [isGif, setIsGif] = useState(false);
+  const [cropAspect, setCropAspect] = useState<number | null>(null);
 
   useEffect(() => {
     console.log('[VideoPreview] File loaded:', file.name, file.type);
@@ -41,23 +53,43 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
     };
   }, [file]);
 
+  useEffect(() => {
+    const el = boxRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setBox({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
   const handleLoadedMetadata = async () => {
     const video = videoRef.current;
     if (!video) return;
 
     const trueType = await sniffTrueType(file);
+    const probe = await probeContainer(file, trueType);
+    // MediaRecorder WebM reports Infinity until played through; prefer the container's value
+    const duration = probe.duration || (Number.isFinite(video.duration) ? video.duration : 0);
+    // Not every browser turns videoWidth/videoHeight for a rotated track; the coded size from the
+    // container turned by its rotation is the same everywhere
+    const display = probe.width && probe.height
+      ? orientedDims({ rotate: probe.rotation ?? 0, mirror: false }, probe.width, probe.height)
+      : { width: video.videoWidth, height: video.videoHeight };
     const extractedMetadata: FileMetadata = {
-      duration: video.duration,
-      width: video.videoWidth,
-      height: video.videoHeight,
-      fps: undefined, // Will be estimated later if needed
-      codec: undefined,
+      duration,
+      width: display.width,
+      height: display.height,
+      fps: probe.fps,
+      codec: probe.codec,
       size: file.size,
       name: file.name,
-      trueType
+      trueType,
+      frameCount: probe.frameCount,
+      timescale: probe.timescale,
+      rotation: probe.rotation,
+      mirrored: probe.mirrored
     };
 
-    setDuration(video.duration);
+    setDuration(duration);
     onMetadataLoad?.(extractedMetadata);
   };
 
@@ -68,15 +100,19 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
     console.log('[VideoPreview] Image loaded, extracting metadata');
     
     const trueType = await sniffTrueType(file);
+    // Frame delays come from the file itself; the <img> element exposes none of them
+    const probe = await probeContainer(file, trueType);
     const extractedMetadata: FileMetadata = {
-      duration: 0, // GIFs don't have a reliable duration in the browser
+      duration: probe.duration ?? 0,
       width: img.naturalWidth,
       height: img.naturalHeight,
-      fps: trueType === 'image/gif' ? 10 : 24,
+      fps: probe.fps ?? (trueType === 'image/gif' ? 10 : 24),
       codec: undefined,
       size: file.size,
       name: file.name,
-      trueType
+      trueType,
+      frameCount: probe.frameCount,
+      timescale: probe.timescale
     };
     
     console.log('[VideoPreview] Image metadata extracted:', extractedMetadata);
@@ -132,15 +168,51 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
 
   const progressPercentage = duration ? (currentTime / duration) * 100 : 0;
 
+  const crop = settings?.crop;
+  const canCrop = !!(settings && onSettingsChange && metadata?.width && metadata?.height);
+  const handleCropChange = (next: CropRect | undefined) => {
+    if (settings && onSettingsChange) onSettingsChange({ ...settings, crop: next });
+  };
+  // A crop is drawn on the oriented picture, so it no longer fits once that turns
+  const handleOrientationChange = (next: OrientationSettings | undefined) => {
+    if (settings && onSettingsChange) onSettingsChange({ ...settings, orientation: next, crop: undefined });
+  };
+
+  // The browser shows the file with its own rotation applied; the manual settings are shown by
+  // sizing the element to the picture before turning it and turning it with CSS
+  const oriented = metadata && settings ? orientedSize(settings, metadata.width, metadata.height) : null;
+  const turn = manualOrientation(settings?.orientation);
+  let mediaStyle: CSSProperties | undefined;
+  if (oriented && !isIdentity(turn) && box.width && box.height) {
+    const f = Math.min(box.width / oriented.width, box.height / oriented.height);
+    const unturned = orientedDims(turn, oriented.width * f, oriented.height * f);
+    mediaStyle = {
+      position: 'absolute',
+      left: '50%',
+      top: '50%',
+      width: unturned.width,
+      height: unturned.height,
+      transform: `translate(-50%, -50%) ${cssOrientation(settings?.orientation)}`
+    };
+  }
+
+  const cropped = oriented ? cropRegion(crop, oriented.width, oriented.height) : null;
+  // Print size follows the exported frames: cropped, then scaled
+  const printSize = metadata && settings ? outputSize(settings, metadata.width, metadata.height) : null;
+  const handleDpiChange = (dpi: number | undefined) => {
+    if (settings && onSettingsChange) onSettingsChange({ ...settings, dpi });
+  };
+
   return (
     <Card className="overflow-hidden bg-surface">
-      <div className="aspect-video bg-black rounded-t-lg overflow-hidden relative">
+      <div ref={boxRef} className="aspect-video bg-black rounded-t-lg overflow-hidden relative">
         {isGif ? (
           <img
             ref={imgRef}
             src={url}
             alt="Preview"
             className="w-full h-full object-contain"
+            style={mediaStyle}
             onLoad={handleImageLoad}
             onError={(e) => {
               console.error('[VideoPreview] Image error:', e);
@@ -155,6 +227,7 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
             ref={videoRef}
             src={url}
             className="w-full h-full object-contain"
+            style={mediaStyle}
             onLoadedMetadata={handleLoadedMetadata}
             onTimeUpdate={handleTimeUpdate}
             onPlay={() => setIsPlaying(true)}
@@ -165,8 +238,19 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
           />
         )}
         
+        {/* Crop rectangle replaces the play overlay while a crop is set */}
+        {canCrop && crop && oriented && (
+          <CropOverlay
+            crop={crop}
+            srcW={oriented.width}
+            srcH={oriented.height}
+            aspect={cropAspect}
+            onChange={handleCropChange}
+          />
+        )}
+
         {/* Overlay controls - only show for videos */}
-        {!isGif && (
+        {!isGif && !(canCrop && crop) && (
           <div className="absolute inset-0 bg-black/30 opacity-0 hover:opacity-100 transition-opacity duration-300 flex items-center justify-center">
             <Button
               size="lg"
@@ -224,6 +308,24 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
           </div>
         )}
 
+        {canCrop && oriented && (
+          <>
+            <OrientationControls
+              orientation={settings?.orientation}
+              containerRotation={metadata?.rotation}
+              onChange={handleOrientationChange}
+            />
+            <CropControls
+              crop={crop}
+              srcW={oriented.width}
+              srcH={oriented.height}
+              aspect={cropAspect}
+              onAspectChange={setCropAspect}
+              onChange={handleCropChange}
+            />
+          </>
+        )}
+
         {/* Metadata */}
         {metadata && (
           <div className="pt-4 border-t border-border space-y-4">
@@ -236,6 +338,12 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
                 <span className="text-muted-foreground">Dimensions:</span>
                 <span className="ml-2 font-medium">{metadata.width} × {metadata.height}</span>
               </div>
+              {crop && cropped && (
+                <div>
+                  <span className="text-muted-foreground">Cropped:</span>
+                  <span className="ml-2 font-medium">{cropped.width} × {cropped.height}</span>
+                </div>
+              )}
               {!isGif && (
                 <div>
                   <span className="text-muted-foreground">Duration:</span>
@@ -255,7 +363,15 @@ export function VideoPreview({ file, metadata, onMetadataLoad }: VideoPreviewPro
             </div>
             
             {/* Print Size Display */}
-            <PrintSizeDisplay width={metadata.width} height={metadata.height} />
+            {printSize && (
+              <PrintSizeDisplay
+                width={printSize.width}
+                height={printSize.height}
+                dpi={settings?.dpi}
+                dpiSupported={settings ? settingsFormat(settings).dpi : true}
+                onDpiChange={onSettingsChange ? handleDpiChange : undefined}
+              />
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,192 @@
+// APNG decoder
+// Splits the stream into standalone PNGs (one per fcTL), lets the browser decode each one,
+// then composites them with the fcTL offsets, dispose_op and blend_op.
+
+import { crc32 } from './crc32';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Ancillary chunks every frame PNG needs to decode with the right colours
+const SHARED_CHUNKS = new Set(['PLTE', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT', 'cICP']);
+
+// Browsers play delays of 10 ms or less at 100 ms, as they do for GIF; match them
+const MIN_DELAY_MS = 10;
+const DEFAULT_DELAY_MS = 100;
+
+export const APNG_DISPOSE_NONE = 0;
+export const APNG_DISPOSE_BACKGROUND = 1;
+export const APNG_DISPOSE_PREVIOUS = 2;
+export const APNG_BLEND_SOURCE = 0;
+export const APNG_BLEND_OVER = 1;
+
+export interface ApngFrameInfo {
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+  delay: number;          // ms, from delay_num / delay_den after browser-style clamping
+  disposeOp: number;
+  blendOp: number;
+  data: Uint8Array[];     // zlib stream pieces (IDAT payloads, fdAT without the sequence number)
+}
+
+export interface ParsedApng {
+  width: number;
+  height: number;
+  loopCount?: number;     // acTL num_plays; 0 = forever
+  ihdr: Uint8Array;       // IHDR payload
+  shared: { type: string; data: Uint8Array }[];
+  frames: ApngFrameInfo[];
+}
+
+export interface DecodedApngFrame {
+  index: number;
+  timestamp: number;      // ms from the start of the animation
+  duration: number;       // ms
+  image: OffscreenCanvas; // composited canvas; reused between frames
+}
+
+/** Parse APNG chunks without decoding pixel data. A plain PNG parses as a single frame. */
+export function parseApng(buf: Uint8Array): ParsedApng {
+  if (buf.length < 8 || PNG_SIGNATURE.some((b, i) => buf[i] !== b)) throw new Error('Not a PNG file');
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+
+  let ihdr: Uint8Array | null = null;
+  let animated = false;
+  let loopCount: number | undefined;
+  const shared: ParsedApng['shared'] = [];
+  const frames: ApngFrameInfo[] = [];
+  const defaultImage: Uint8Array[] = [];
+  let current: ApngFrameInfo | null = null;
+
+  for (let p = 8; p + 12 <= buf.length;) {
+    const length = view.getUint32(p);
+    const type = String.fromCharCode(buf[p + 4], buf[p + 5], buf[p + 6], buf[p + 7]);
+    const d = p + 8;
+    const data = buf.subarray(d, Math.min(d + length, buf.length));
+    p = d + length + 4;
+
+    if (type === 'IHDR') {
+      ihdr = data;
+    } else if (type === 'acTL') {
+      animated = true;
+      loopCount = view.getUint32(d + 4);
+    } else if (type === 'fcTL') {
+      const num = view.getUint16(d + 20);
+      const den = view.getUint16(d + 22) || 100;
+      const delay = (num / den) * 1000;
+      current = {
+        width: view.getUint32(d + 4),
+        height: view.getUint32(d + 8),
+        left: view.getUint32(d + 12),
+        top: view.getUint32(d + 16),
+        delay: delay <= MIN_DELAY_MS ? DEFAULT_DELAY_MS : delay,
+        disposeOp: buf[d + 24],
+        blendOp: buf[d + 25],
+        data: [],
+      };
+      frames.push(current);
+    } else if (type === 'IDAT') {
+      // The default image is only part of the animation when an fcTL precedes it
+      (current ? current.data : defaultImage).push(data);
+    } else if (type === 'fdAT') {
+      current?.data.push(data.subarray(4));
+    } else if (type === 'IEND') {
+      break;
+    } else if (SHARED_CHUNKS.has(type) && !current && !defaultImage.length) {
+      shared.push({ type, data });
+    }
+  }
+
+  if (!ihdr) throw new Error('PNG is missing its IHDR chunk');
+  const ihdrView = new DataView(ihdr.buffer, ihdr.byteOffset, ihdr.byteLength);
+  const width = ihdrView.getUint32(0);
+  const height = ihdrView.getUint32(4);
+
+  if (!animated || !frames.length) {
+    frames.length = 0;
+    frames.push({
+      width, height, left: 0, top: 0, delay: 0,
+      disposeOp: APNG_DISPOSE_NONE, blendOp: APNG_BLEND_SOURCE,
+      data: defaultImage,
+    });
+  }
+
+  return { width, height, loopCount: animated ? loopCount : undefined, ihdr, shared, frames };
+}
+
+function writeChunk(out: Uint8Array, p: number, type: string, parts: Uint8Array[]): number {
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  const length = parts.reduce((n, b) => n + b.length, 0);
+  view.setUint32(p, length);
+  for (let i = 0; i < 4; i++) out[p + 4 + i] = type.charCodeAt(i);
+  let o = p + 8;
+  for (const part of parts) {
+    out.set(part, o);
+    o += part.length;
+  }
+  view.setUint32(o, crc32(out.subarray(p + 4, o)));
+  return o + 4;
+}
+
+/** Standalone PNG for one frame: IHDR resized to the frame, shared chunks, fdAT rewritten as IDAT. */
+export function buildFramePng(apng: ParsedApng, frame: ApngFrameInfo): Uint8Array {
+  const ihdr = apng.ihdr.slice();
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, frame.width);
+  ihdrView.setUint32(4, frame.height);
+
+  const size = 8
+    + 12 + ihdr.length
+    + apng.shared.reduce((n, c) => n + 12 + c.data.length, 0)
+    + 12 + frame.data.reduce((n, b) => n + b.length, 0)
+    + 12;
+  const out = new Uint8Array(size);
+  out.set(PNG_SIGNATURE, 0);
+  let p = writeChunk(out, 8, 'IHDR', [ihdr]);
+  for (const c of apng.shared) p = writeChunk(out, p, c.type, [c.data]);
+  p = writeChunk(out, p, 'IDAT', frame.data);
+  writeChunk(out, p, 'IEND', []);
+  return out;
+}
+
+export class ApngDecoder {
+  readonly apng: ParsedApng;
+
+  constructor(buf: Uint8Array) {
+    this.apng = parseApng(buf);
+  }
+
+  get width() { return this.apng.width; }
+  get height() { return this.apng.height; }
+  get frameCount() { return this.apng.frames.length; }
+
+  /** Composite every frame in order onto a single OffscreenCanvas. */
+  async *frames(): AsyncGenerator<DecodedApngFrame> {
+    const { width, height, frames } = this.apng;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    let timestamp = 0;
+
+    for (let index = 0; index < frames.length; index++) {
+      const f = frames[index];
+      const png = buildFramePng(this.apng, f);
+      const bitmap = await createImageBitmap(new Blob([png], { type: 'image/png' }));
+
+      // The first frame cannot restore to "previous"; the spec treats it as a clear
+      const disposeOp = index === 0 && f.disposeOp === APNG_DISPOSE_PREVIOUS ? APNG_DISPOSE_BACKGROUND : f.disposeOp;
+      const previous = disposeOp === APNG_DISPOSE_PREVIOUS ? ctx.getImageData(f.left, f.top, f.width, f.height) : null;
+
+      if (f.blendOp === APNG_BLEND_SOURCE) ctx.clearRect(f.left, f.top, f.width, f.height);
+      ctx.drawImage(bitmap, f.left, f.top);
+      bitmap.close();
+
+      yield { index, timestamp, duration: f.delay, image: canvas };
+      timestamp += f.delay;
+
+      if (disposeOp === APNG_DISPOSE_BACKGROUND) ctx.clearRect(f.left, f.top, f.width, f.height);
+      else if (previous) ctx.putImageData(previous, f.left, f.top);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+// Sprite sheet metadata
+// Describes a packed atlas for game engines and the web: TexturePacker JSON (hash and array), a
+// Phaser 3 multi-atlas with its animation, PixiJS spritesheets and a CSS keyframe animation. Every
+// format carries each frame's display duration in milliseconds.
+
+export type AtlasFormat = 'texturepacker-hash' | 'texturepacker-array' | 'phaser' | 'pixi' | 'css';
+
+export interface AtlasFormatInfo {
+  type: AtlasFormat;
+  label: string;
+  hint: string;
+}
+
+export const ATLAS_FORMATS: AtlasFormatInfo[] = [
+  { type: 'texturepacker-hash', label: 'TexturePacker JSON (Hash)',
+    hint: 'Frames keyed by name; read by most engines and tools. One file per page.' },
+  { type: 'texturepacker-array', label: 'TexturePacker JSON (Array)',
+    hint: 'Frames as an ordered list; for loaders that expect an array. One file per page.' },
+  { type: 'phaser', label: 'Phaser 3',
+    hint: 'Multi-atlas for load.multiatlas plus an animation for load.animation.' },
+  { type: 'pixi', label: 'PixiJS',
+    hint: 'Spritesheet JSON with an animation per page; extra pages are linked as related packs.' },
+  { type: 'css', label: 'CSS steps()',
+    hint: 'A class that plays the frames as a background animation, no script needed.' },
+];
+
+export function atlasFormatInfo(type: AtlasFormat): AtlasFormatInfo {
+  return ATLAS_FORMATS.find(f => f.type === type) ?? ATLAS_FORMATS[0];
+}
+
+export interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface AtlasSprite {
+  name: string;
+  page: number;
+  frame: AtlasRect;              // where the sprite sits on its page
+  trimmed: boolean;
+  spriteSourceSize: AtlasRect;   // the kept part of the original frame
+  sourceSize: { w: number; h: number };
+  duration: number;              // ms on screen
+}
+
+export interface Atlas {
+  name: string;                  // base name, also the animation key
+  pages: { image: string; width: number; height: number }[];
+  sprites: AtlasSprite[];        // in playback order
+}
+
+export interface AtlasFile {
+  filename: string;
+  text: string;
+  mime: string;
+}
+
+const APP = 'FRAMED';
+
+function meta(atlas: Atlas, page: number) {
+  const { image, width, height } = atlas.pages[page];
+  return { app: APP, version: '1.0', image, format: 'RGBA8888', size: { w: width, h: height }, scale: '1' };
+}
+
+// TexturePacker's frame record; duration is the Aseprite-style extension most loaders accept
+function frameData(sprite: AtlasSprite) {
+  const { frame, trimmed, spriteSourceSize, sourceSize, duration } = sprite;
+  return { frame, rotated: false, trimmed, spriteSourceSize, sourceSize, duration };
+}
+
+const pageSprites = (atlas: Atlas, page: number) => atlas.sprites.filter(s => s.page === page);
+
+/** One file per page, numbered only when there is more than one. */
+export function atlasFilename(name: string, page: number, pageCount: number, ext: string): string {
+  return pageCount > 1 ? `${name}-${page}.${ext}` : `${name}.${ext}`;
+}
+
+const pageFilename = (atlas: Atlas, page: number, ext: string) => atlasFilename(atlas.name, page, atlas.pages.length, ext);
+
+const json = (filename: string, value: unknown): AtlasFile => ({
+  filename,
+  text: JSON.stringify(value, null, 2),
+  mime: 'application/json'
+});
+
+function texturePacker(atlas: Atlas, array: boolean): AtlasFile[] {
+  return atlas.pages.map((_, page) => {
+    const sprites = pageSprites(atlas, page);
+    const frames = array
+      ? sprites.map(s => ({ filename: s.name, ...frameData(s) }))
+      : Object.fromEntries(sprites.map(s => [s.name, frameData(s)]));
+    return json(pageFilename(atlas, page, 'json'), { frames, meta: meta(atlas, page) });
+  });
+}
+
+// Phaser adds a frame's `duration` to the animation's base frame time, so the base is the
+// shortest frame and each frame adds what it lasts beyond that
+function phaser(atlas: Atlas): AtlasFile[] {
+  const textures = atlas.pages.map((p, page) => ({
+    image: p.image,
+    format: 'RGBA8888',
+    size: { w: p.width, h: p.height },
+    scale: 1,
+    frames: pageSprites(atlas, page).map(s => ({ filename: s.name, ...frameData(s) }))
+  }));
+  const base = Math.min(...atlas.sprites.map(s => s.duration));
+  const anims = [{
+    key: atlas.name,
+    type: 'frame',
+    frames: atlas.sprites.map(s => ({ key: atlas.name, frame: s.name, duration: s.duration - base })),
+    frameRate: 1000 / base,
+    repeat: -1
+  }];
+  return [
+    json(`${atlas.name}.json`, { textures, meta: { app: APP, version: '1.0' } }),
+    json(`${atlas.name}.anims.json`, { anims })
+  ];
+}
+
+// PixiJS resolves an animation's frames within its own sheet, so each page animates its own frames
+function pixi(atlas: Atlas): AtlasFile[] {
+  const files = atlas.pages.map((_, page) => pageFilename(atlas, page, 'json'));
+  return atlas.pages.map((_, page) => {
+    const sprites = pageSprites(atlas, page);
+    const key = atlas.pages.length > 1 ? `${atlas.name}-${page}` : atlas.name;
+    return json(files[page], {
+      frames: Object.fromEntries(sprites.map(s => [s.name, frameData(s)])),
+      animations: { [key]: sprites.map(s => s.name) },
+      meta: {
+        ...meta(atlas, page),
+        ...(page === 0 && files.length > 1 ? { related_multi_packs: files.slice(1) } : {})
+      }
+    });
+  });
+}
+
+const px = (n: number) => (n ? `${n}px` : '0');
+const cssIdent = (name: string) => name.replace(/[^A-Za-z0-9_-]/g, '_').replace(/^(?=[0-9-])/, '_');
+const percent = (n: number) => `${parseFloat(n.toFixed(4))}%`;
+
+// Each keyframe holds its frame until the next one (steps(1, end)), so frames keep their own
+// durations. A trimmed frame is shifted into place inside the full-size box and clipped to its
+// trimmed area so neighbouring sprites do not show.
+function css(atlas: Atlas): AtlasFile[] {
+  const className = cssIdent(atlas.name);
+  const { w, h } = atlas.sprites[0].sourceSize;
+  const total = atlas.sprites.reduce((n, s) => n + s.duration, 0);
+  const multiPage = atlas.pages.length > 1;
+  const trimmed = atlas.sprites.some(s => s.trimmed);
+  const url = (page: number) => `url("${atlas.pages[page].image}")`;
+
+  let elapsed = 0;
+  const keyframes = atlas.sprites.map(s => {
+    const at = percent((elapsed / total) * 100);
+    elapsed += s.duration;
+    const { x, y } = s.spriteSourceSize;
+    const rules = [`background-position: ${px(x - s.frame.x)} ${px(y - s.frame.y)};`];
+    if (multiPage) rules.push(`background-image: ${url(s.page)};`);
+    if (trimmed) {
+      const inset = [y, w - x - s.spriteSourceSize.w, h - y - s.spriteSourceSize.h, x].map(px).join(' ');
+      rules.push(`clip-path: inset(${inset});`);
+    }
+    return `  ${at} { ${rules.join(' ')} }`;
+  });
+
+  const text = [
+    `/* ${atlas.name}: ${atlas.sprites.length} frames, ${total} ms per loop. Generated by ${APP}. */`,
+    `.${className} {`,
+    `  width: ${w}px;`,
+    `  height: ${h}px;`,
+    `  background-image: ${url(0)};`,
+    '  background-repeat: no-repeat;',
+    `  animation: ${className}-play ${total}ms steps(1, end) infinite;`,
+    '}',
+    '',
+    `@keyframes ${className}-play {`,
+    ...keyframes,
+    '}',
+    ''
+  ].join('\n');
+  return [{ filename: `${atlas.name}.css`, text, mime: 'text/css' }];
+}
+
+/** The metadata files for an atlas in the chosen format. */
+export function atlasMetadata(format: AtlasFormat, atlas: Atlas): AtlasFile[] {
+  switch (format) {
+    case 'texturepacker-hash': return texturePacker(atlas, false);
+    case 'texturepacker-array': return texturePacker(atlas, true);
+    case 'phaser': return phaser(atlas);
+    case 'pixi': return pixi(atlas);
+    case 'css': return css(atlas);
+  }
+}
@@ -0,0 +1,162 @@
+// Sprite sheet packing
+// Places sprite rectangles on one or more atlas pages: a fixed grid in frame order, or MaxRects
+// (best short side fit, no rotation) for the tightest pages. Padding is kept between sprites, not
+// around the page edge.
+
+export type AtlasLayoutMode = 'grid' | 'maxrects';
+
+export interface PackOptions {
+  maxSize: number;     // largest page side, px
+  padding: number;     // gap between sprites, px
+}
+
+export interface PackSize {
+  width: number;
+  height: number;
+}
+
+export interface Placement {
+  page: number;
+  x: number;
+  y: number;
+}
+
+export interface AtlasLayout {
+  pages: PackSize[];
+  placements: Placement[];   // in the order of the sizes packed
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function tooLarge(size: PackSize, options: PackOptions): Error {
+  return new Error(`A ${size.width}×${size.height} sprite does not fit on a ${options.maxSize}px page`);
+}
+
+/** Equal cells in frame order, as near square as the page size allows. */
+export function packGrid(sizes: PackSize[], options: PackOptions): AtlasLayout {
+  const { maxSize, padding } = options;
+  const cellWidth = Math.max(1, ...sizes.map(s => s.width));
+  const cellHeight = Math.max(1, ...sizes.map(s => s.height));
+  // n cells and n - 1 gaps fit when n * (cell + padding) <= maxSize + padding
+  const maxCols = Math.floor((maxSize + padding) / (cellWidth + padding));
+  const maxRows = Math.floor((maxSize + padding) / (cellHeight + padding));
+  if (!maxCols || !maxRows) throw tooLarge({ width: cellWidth, height: cellHeight }, options);
+
+  const perPage = maxCols * maxRows;
+  const square = Math.ceil(Math.sqrt((sizes.length * cellHeight) / cellWidth));
+  const cols = sizes.length > perPage ? maxCols : Math.max(1, Math.min(maxCols, square, sizes.length));
+  const rowsUsed = (count: number) => Math.min(maxRows, Math.ceil(count / cols));
+  const pageSize = (count: number): PackSize => ({
+    width: Math.min(cols, count) * (cellWidth + padding) - padding,
+    height: rowsUsed(count) * (cellHeight + padding) - padding
+  });
+  const capacity = cols * maxRows;
+
+  const pages: PackSize[] = [];
+  for (let start = 0; start < sizes.length; start += capacity) pages.push(pageSize(Math.min(capacity, sizes.length - start)));
+  const placements = sizes.map((_, i) => {
+    const cell = i % capacity;
+    return {
+      page: Math.floor(i / capacity),
+      x: (cell % cols) * (cellWidth + padding),
+      y: Math.floor(cell / cols) * (cellHeight + padding)
+    };
+  });
+  return { pages, placements };
+}
+
+// One MaxRects bin; sizes passed in already include the padding
+class MaxRectsBin {
+  private free: Rect[];
+
+  constructor(width: number, height: number) {
+    this.free = [{ x: 0, y: 0, width, height }];
+  }
+
+  insert(width: number, height: number): Rect | null {
+    let best: Rect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+    for (const rect of this.free) {
+      if (rect.width < width || rect.height < height) continue;
+      const dx = rect.width - width;
+      const dy = rect.height - height;
+      const short = Math.min(dx, dy);
+      const long = Math.max(dx, dy);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = { x: rect.x, y: rect.y, width, height };
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (best) this.place(best);
+    return best;
+  }
+
+  private place(used: Rect) {
+    const next: Rect[] = [];
+    for (const rect of this.free) {
+      if (used.x >= rect.x + rect.width || used.x + used.width <= rect.x ||
+          used.y >= rect.y + rect.height || used.y + used.height <= rect.y) {
+        next.push(rect);
+        continue;
+      }
+      // Keep the parts of the free rectangle on each side of the used one; they may overlap
+      if (used.x > rect.x) next.push({ ...rect, width: used.x - rect.x });
+      if (used.x + used.width < rect.x + rect.width) {
+        next.push({ ...rect, x: used.x + used.width, width: rect.x + rect.width - used.x - used.width });
+      }
+      if (used.y > rect.y) next.push({ ...rect, height: used.y - rect.y });
+      if (used.y + used.height < rect.y + rect.height) {
+        next.push({ ...rect, y: used.y + used.height, height: rect.y + rect.height - used.y - used.height });
+      }
+    }
+    // Drop free rectangles contained in another
+    this.free = next.filter((a, i) => !next.some((b, j) => j !== i &&
+      a.x >= b.x && a.y >= b.y && a.x + a.width <= b.x + b.width && a.y + a.height <= b.y + b.height &&
+      // Of two identical rectangles keep the first
+      (a.x !== b.x || a.y !== b.y || a.width !== b.width || a.height !== b.height || j < i)));
+  }
+}
+
+/** MaxRects packing, largest sprites first; pages are cropped to what they use. */
+export function packMaxRects(sizes: PackSize[], options: PackOptions): AtlasLayout {
+  const { maxSize, padding } = options;
+  for (const size of sizes) if (size.width > maxSize || size.height > maxSize) throw tooLarge(size, options);
+
+  const order = sizes
+    .map((_, i) => i)
+    .sort((a, b) => Math.max(sizes[b].width, sizes[b].height) - Math.max(sizes[a].width, sizes[a].height) ||
+      sizes[b].width * sizes[b].height - sizes[a].width * sizes[a].height);
+  const placements: Placement[] = new Array(sizes.length);
+  const pages: PackSize[] = [];
+  let remaining = order;
+  while (remaining.length) {
+    // Padding on the right and bottom of every sprite; the page grows by the same so the last one fits
+    const bin = new MaxRectsBin(maxSize + padding, maxSize + padding);
+    const page: PackSize = { width: 0, height: 0 };
+    const left: number[] = [];
+    for (const i of remaining) {
+      const rect = bin.insert(sizes[i].width + padding, sizes[i].height + padding);
+      if (!rect) {
+        left.push(i);
+        continue;
+      }
+      placements[i] = { page: pages.length, x: rect.x, y: rect.y };
+      page.width = Math.max(page.width, rect.x + sizes[i].width);
+      page.height = Math.max(page.height, rect.y + sizes[i].height);
+    }
+    pages.push(page);
+    remaining = left;
+  }
+  return { pages, placements };
+}
+
+export function packAtlas(mode: AtlasLayoutMode, sizes: PackSize[], options: PackOptions): AtlasLayout {
+  return mode === 'grid' ? packGrid(sizes, options) : packMaxRects(sizes, options);
+}
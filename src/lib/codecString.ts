@@ -0,0 +1,50 @@
+// WebCodecs codec strings derived from container decoder configuration records
+// (avcC, hvcC, vpcC, av1C). Shared by the MP4 and WebM demuxers.
+
+const hex2 = (n: number) => n.toString(16).padStart(2, '0').toUpperCase();
+const dec2 = (n: number) => String(n).padStart(2, '0');
+
+/** e.g. avc1.64001F from an AVCDecoderConfigurationRecord */
+export function avcCodecString(format: string, avcC: Uint8Array) {
+  return `${format}.${hex2(avcC[1])}${hex2(avcC[2])}${hex2(avcC[3])}`;
+}
+
+/** e.g. hvc1.1.6.L93.B0 from an HEVCDecoderConfigurationRecord */
+export function hevcCodecString(format: string, hvcC: Uint8Array) {
+  const profileSpace = ['', 'A', 'B', 'C'][hvcC[1] >> 6];
+  const tier = (hvcC[1] >> 5) & 1 ? 'H' : 'L';
+  const profile = hvcC[1] & 0x1f;
+  // Compatibility flags are written in reverse bit order
+  let compat = ((hvcC[2] << 24) | (hvcC[3] << 16) | (hvcC[4] << 8) | hvcC[5]) >>> 0;
+  let reversed = 0;
+  for (let i = 0; i < 32; i++) {
+    reversed = (reversed << 1) | (compat & 1);
+    compat >>>= 1;
+  }
+  const constraints = Array.from(hvcC.subarray(6, 12));
+  while (constraints.length && constraints[constraints.length - 1] === 0) constraints.pop();
+  const level = hvcC[12];
+  return [
+    format,
+    `${profileSpace}${profile}`,
+    (reversed >>> 0).toString(16).toUpperCase(),
+    `${tier}${level}`,
+    ...constraints.map(hex2),
+  ].join('.');
+}
+
+/** e.g. vp09.00.31.08 */
+export function vp9CodecString(profile: number, level: number, bitDepth: number) {
+  return `vp09.${dec2(profile)}.${dec2(level)}.${dec2(bitDepth)}`;
+}
+
+/** e.g. av01.0.08M.08 from an AV1CodecConfigurationRecord */
+export function av1CodecString(av1C: Uint8Array) {
+  const profile = av1C[1] >> 5;
+  const level = av1C[1] & 0x1f;
+  const tier = av1C[2] >> 7 ? 'H' : 'M';
+  const highBitDepth = (av1C[2] >> 6) & 1;
+  const twelveBit = (av1C[2] >> 5) & 1;
+  const bitDepth = highBitDepth ? (twelveBit ? 12 : 10) : 8;
+  return `av01.${profile}.${dec2(level)}${tier}.${dec2(bitDepth)}`;
+}
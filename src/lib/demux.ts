@@ -0,0 +1,159 @@
+// Container-agnostic entry point for the WebCodecs engine
+// Opens an MP4 or WebM file and exposes its video track plus a stream of encoded samples.
+
+import type { VideoSample, VideoTrackInfo } from './types';
+import { demuxMp4 } from './mp4Demuxer';
+import { demuxWebm } from './webmDemuxer';
+import { sniffTrueType } from './sniff';
+
+export interface EncodedSample {
+  sample: VideoSample;
+  data: Uint8Array;
+}
+
+export interface SampleRange {
+  startUs?: number;
+  endUs?: number;
+}
+
+export interface VideoDemuxer {
+  container: 'mp4' | 'webm';
+  track: VideoTrackInfo;
+  /**
+   * Encoded samples in decode order. With a range, reading starts at the keyframe
+   * at or before startUs and stops once no later sample can land before endUs.
+   */
+  read(range?: SampleRange): AsyncGenerator<EncodedSample>;
+}
+
+// Codecs whose decode order differs from presentation order (B-frames)
+const REORDERING_CODECS = /^(avc|hvc|hev)/;
+// How far decode and presentation order may drift apart around endUs
+const REORDER_SLACK_US = 1_000_000;
+// A keyframe this close after startUs is still a valid seek target (container timestamps are rounded)
+const SEEK_SLACK_US = 1_000;
+
+// Read sample payloads in contiguous batches so the File is hit once per few MB, not per sample
+const READ_BATCH_BYTES = 4 * 1024 * 1024;
+
+export async function* readSampleData(file: Blob, samples: VideoSample[]): AsyncGenerator<EncodedSample> {
+  let i = 0;
+  while (i < samples.length) {
+    let lo = samples[i].offset;
+    let hi = lo + samples[i].size;
+    let j = i + 1;
+    while (j < samples.length) {
+      const s = samples[j];
+      const nlo = Math.min(lo, s.offset);
+      const nhi = Math.max(hi, s.offset + s.size);
+      if (nhi - nlo > READ_BATCH_BYTES) break;
+      lo = nlo;
+      hi = nhi;
+      j++;
+    }
+    const bytes = new Uint8Array(await file.slice(lo, hi).arrayBuffer());
+    for (let k = i; k < j; k++) {
+      const s = samples[k];
+      yield { sample: s, data: bytes.subarray(s.offset - lo, s.offset - lo + s.size) };
+    }
+    i = j;
+  }
+}
+
+/** Index of the sync sample to start decoding from so that startUs is reachable. */
+export function seekSampleIndex(samples: VideoSample[], startUs: number): number {
+  let best = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
+    if (!s.isKey) continue;
+    if (s.pts > startUs + SEEK_SLACK_US) break;
+    best = i;
+  }
+  return best;
+}
+
+/**
+ * One past the last sample, in decode order, that presents at or before endUs. Negative composition
+ * offsets (version 1 ctts) can put presentation before decode time, so samples are compared by pts
+ * until decode time is further past endUs than any reordering reaches.
+ */
+export function endSampleIndex(samples: VideoSample[], endUs: number, from = 0): number {
+  let end = from;
+  for (let i = from; i < samples.length && samples[i].dts <= endUs + REORDER_SLACK_US; i++) {
+    if (samples[i].pts <= endUs) end = i + 1;
+  }
+  return end;
+}
+
+// For streamed containers: hold back the current GOP until startUs is reached, stop after endUs
+async function* trimToRange(source: AsyncGenerator<EncodedSample>, range: SampleRange, reorders: boolean): AsyncGenerator<EncodedSample> {
+  const startUs = range.startUs ?? 0;
+  const endUs = range.endUs ?? Infinity;
+  let gop: EncodedSample[] = [];
+  let started = startUs <= 0;
+
+  for await (const item of source) {
+    const { sample } = item;
+    if (!started) {
+      if (sample.isKey) gop = [];
+      else if (!gop.length) continue; // no keyframe yet to decode from
+      gop.push(item);
+      if (sample.pts >= startUs) {
+        started = true;
+        yield* gop;
+        gop = [];
+      }
+      continue;
+    }
+    if (sample.pts > endUs && (!reorders || sample.isKey || sample.pts > endUs + REORDER_SLACK_US)) {
+      await source.return(undefined);
+      return;
+    }
+    yield item;
+  }
+}
+
+export async function openVideoDemuxer(file: File, trueType?: string): Promise<VideoDemuxer> {
+  const type = trueType || await sniffTrueType(file);
+
+  if (type === 'video/mp4') {
+    const { track, samples } = await demuxMp4(file);
+    const read = (range: SampleRange = {}) => {
+      const first = range.startUs ? seekSampleIndex(samples, range.startUs) : 0;
+      const last = Number.isFinite(range.endUs) ? endSampleIndex(samples, range.endUs!, first) : samples.length;
+      return readSampleData(file, samples.slice(first, last));
+    };
+    return { container: 'mp4', track, read };
+  }
+
+  if (type === 'video/webm') {
+    const webm = await demuxWebm(file);
+    const reorders = REORDERING_CODECS.test(webm.track.codec);
+    const read = (range: SampleRange = {}) => {
+      // Jump to the last cued cluster at or before startUs; the GOP trim handles the rest
+      let from = webm.firstClusterOffset;
+      for (const cue of webm.cues) {
+        if (cue.time > (range.startUs ?? 0) + SEEK_SLACK_US) break;
+        from = cue.clusterOffset;
+      }
+      return trimToRange(webm.read(from), range, reorders);
+    };
+    return { container: 'webm', track: webm.track, read };
+  }
+
+  throw new Error(`WebCodecs engine cannot demux ${type || 'this file'}`);
+}
+
+/** Presentation times (ms) where decoding can start: sync samples for MP4, cue points for WebM. */
+export async function keyframeTimesMs(file: File, trueType?: string): Promise<number[]> {
+  const type = trueType || await sniffTrueType(file);
+  if (type === 'video/mp4') {
+    const { samples } = await demuxMp4(file);
+    return samples.filter(s => s.isKey).map(s => s.pts / 1000).sort((a, b) => a - b);
+  }
+  if (type === 'video/webm') {
+    const { cues } = await demuxWebm(file);
+    return cues.map(c => c.time / 1000);
+  }
+  return [];
+}
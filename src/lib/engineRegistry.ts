@@ -0,0 +1,96 @@
+// Engine registry
+// Maps engine ids to FrameSource factories and says which engine to retry with when one fails.
+
+import { WorkerFrameSource, type EngineId, type FrameSource } from './frameSource';
+import { ANIMATION_DECODER_TYPES, getEngineDisplayName } from './processingMode';
+import { MainThreadImageSource } from './extractImage';
+import { FFMPEG_FORMATS, canvasFormats } from './outputFormats';
+import type { OutputFormatType } from './types';
+import FfmpegWorker from '@/workers/ffmpeg.worker?worker';
+import ImageDecoderWorker from '@/workers/imageDecoder.worker?worker';
+import WebCodecsWorker from '@/workers/webcodecs.worker?worker';
+import AnimationWorker from '@/workers/animation.worker?worker';
+
+export interface EngineEntry {
+  id: EngineId;
+  label: string;
+  create(): FrameSource;
+  /** Output formats the engine can write in this browser. */
+  formats(): Promise<OutputFormatType[]>;
+  /** Engine to retry with after a failure on a file of this type, if any. */
+  fallback?(trueType: string): EngineId | undefined;
+}
+
+const engines = new Map<EngineId, EngineEntry>();
+
+export function registerEngine(entry: EngineEntry) {
+  engines.set(entry.id, entry);
+}
+
+export function getEngine(id: EngineId): EngineEntry {
+  const entry = engines.get(id);
+  if (!entry) throw new Error(`Unknown extraction engine: ${id}`);
+  return entry;
+}
+
+export function createFrameSource(id: EngineId): FrameSource {
+  return getEngine(id).create();
+}
+
+export function getFallbackEngine(id: EngineId, trueType: string): EngineId | undefined {
+  return getEngine(id).fallback?.(trueType);
+}
+
+export function getEngineFormats(id: EngineId): Promise<OutputFormatType[]> {
+  return getEngine(id).formats();
+}
+
+export function getEngineLabel(id: EngineId): string {
+  return engines.get(id)?.label ?? id;
+}
+
+/** Where the FFmpeg core files are served from (copied into public/ffmpeg at build time). */
+export function ffmpegBasePath(): string {
+  return `${window.location.origin}${import.meta.env?.BASE_URL ?? '/'}`.replace(/\/$/, '') + '/ffmpeg';
+}
+
+registerEngine({
+  id: 'webcodecs',
+  label: getEngineDisplayName('webcodecs'),
+  create: () => new WorkerFrameSource('webcodecs', () => new WebCodecsWorker()),
+  formats: canvasFormats,
+  // WebCodecs can reject a codec or container at runtime; FFmpeg decodes nearly anything
+  fallback: () => 'ffmpeg',
+});
+
+registerEngine({
+  id: 'ffmpeg',
+  label: getEngineDisplayName('ffmpeg'),
+  create: () => new WorkerFrameSource('ffmpeg', () => new FfmpegWorker(), { type: 'INIT', basePath: ffmpegBasePath() }),
+  formats: async () => FFMPEG_FORMATS,
+});
+
+registerEngine({
+  id: 'image-decoder',
+  label: getEngineDisplayName('image-decoder'),
+  create: () => new WorkerFrameSource('image-decoder', () => new ImageDecoderWorker()),
+  formats: canvasFormats,
+  fallback: () => 'image-decoder-main',
+});
+
+registerEngine({
+  id: 'image-decoder-main',
+  label: 'ImageDecoder (main thread)',
+  create: () => new MainThreadImageSource(),
+  formats: canvasFormats,
+  fallback: trueType => (ANIMATION_DECODER_TYPES.includes(trueType) ? 'animation' : 'ffmpeg'),
+});
+
+registerEngine({
+  id: 'animation',
+  label: getEngineDisplayName('animation'),
+  create: () => new WorkerFrameSource('animation', () => new AnimationWorker()),
+  formats: canvasFormats,
+  // FFmpeg wasm cannot read animated WebP, so there is nothing left to try for it
+  fallback: trueType => (trueType === 'image/webp' ? undefined : 'ffmpeg'),
+});
@@ -1,4 +1,5 @@
 import type { FileMetadata, ExtractionSettings } from './types';
+import { outputSize } from './frameOutput';
 
 export function humanBytes(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
@@ -42,8 +43,7 @@ export function estimateFramesAndZip(
   const durationSec = Math.max(0, end - start);
 
   // Effective dimensions
-  const width = settings.scale?.mode === 'custom' && settings.scale.width ? settings.scale.width : meta.width;
-  const height = settings.scale?.mode === 'custom' && settings.scale.height ? settings.scale.height : meta.height;
+  const { width, height } = outputSize(settings, meta.width, meta.height);
 
   // Effective FPS & frame count
   const defaultFps = 30;
@@ -52,9 +52,16 @@ export function estimateFramesAndZip(
 
   let frames = 0;
 
+  const fullRange = durationSec >= totalDurationSec;
+
   if (settings.mode === 'every') {
-    frames = Math.max(1, Math.round(durationSec * assumedFps));
-    notes.push('"Every frame" uses average FPS to estimate count.');
+    if (meta.frameCount && fullRange) {
+      frames = meta.frameCount;
+      notes.push('Exact frame count read from the container.');
+    } else {
+      frames = Math.max(1, Math.round(durationSec * assumedFps));
+      notes.push('"Every frame" uses average FPS to estimate count.');
+    }
   } else if (settings.mode === 'fps') {
     assumedFps = clamp(settings.fps ?? defaultFps, 1, 240);
     frames = Math.max(1, Math.round(durationSec * assumedFps));
@@ -84,19 +91,29 @@ export function estimateFramesAndZip(
   if (fmt.type === 'png' || fmt.type === 'png-compressed') {
     // Photographic: 0.6–1.2; flat UI/art can be much smaller (0.05–0.3)
     if (fmt.type === 'png-compressed') {
-      bppLow = 0.4; bppMid = 0.7; bppHigh = 1.0;
-      notes.push('PNG compressed - size varies by content; estimate shown is mid-range.');
+      // One byte per pixel before deflate; dithering adds noise that deflates worse
+      bppLow = 0.15; bppMid = fmt.dither ? 0.45 : 0.3; bppHigh = fmt.dither ? 0.7 : 0.5;
+      notes.push('Palette PNG - size varies by content; flat art shrinks far more than photos.');
     } else {
       bppLow = 0.6; bppMid = 0.9; bppHigh = 1.2;
       notes.push('PNG size varies by content; estimate shown is mid-range.');
     }
-  } else { // jpeg
+  } else if (fmt.type === 'tiff' || fmt.type === 'bmp') {
+    // Uncompressed: 3 bytes per pixel (4 when the frame has transparency), plus a small header
+    bppLow = 3; bppMid = 3; bppHigh = 4;
+    notes.push(`${fmt.type.toUpperCase()} is uncompressed - size is fixed by the frame dimensions.`);
+  } else if (fmt.type === 'webp' && fmt.lossless) {
+    // Lossless WebP typically lands 25–35% under PNG
+    bppLow = 0.4; bppMid = 0.6; bppHigh = 0.85;
+    notes.push('Lossless WebP size varies by content; estimate shown is mid-range.');
+  } else {
     const q = clamp(fmt.quality ?? 85, 1, 100);
     // Rough mapping: better quality → higher bytes per pixel.
-    // 95 ≈ 0.5, 85 ≈ 0.35, 70 ≈ 0.25
-    const mid = q >= 90 ? 0.45 : q >= 80 ? 0.35 : 0.25;
+    // JPEG 95 ≈ 0.5, 85 ≈ 0.35, 70 ≈ 0.25; WebP ≈ 0.75× and AVIF ≈ 0.5× of that
+    const jpegMid = q >= 90 ? 0.45 : q >= 80 ? 0.35 : 0.25;
+    const mid = jpegMid * (fmt.type === 'webp' ? 0.75 : fmt.type === 'avif' ? 0.5 : 1);
     bppMid = mid; bppLow = mid * 0.7; bppHigh = mid * 1.4;
-    notes.push(`JPEG quality ~${q}.`);
+    notes.push(`${fmt.type === 'jpeg' ? 'JPEG' : fmt.type === 'webp' ? 'WebP' : 'AVIF'} quality ~${q}.`);
   }
 
   const pixelsPerFrame = width * height;
@@ -1,22 +1,76 @@
+import type { ContainerProbe, CropRect, ExtractionSettings, FileMetadata, OrientationSettings, ScaleSettings } from './types';
+import { DEFAULT_SETTINGS } from './types';
+import { createFrameSelector, type FrameSelector } from './frameSelection';
+import { createEventChannel, type FrameEvent, type FrameSource, type SelfTestResult } from './frameSource';
+import { animationFrameDelays, probeContainer } from './probe';
+import { sniffTrueType, type TrueType } from './sniff';
+import { FrameNamer, fileBasename } from './naming';
+import { drawScaled } from './scaling';
+import { drawOriented, isIdentity, manualOrientation } from './orientation';
+import { encodeCanvas, outputExtension, smallerPng, tagFrame, type EncodedFrame } from './frameOutput';
+import { WRITTEN_FORMATS, formatInfo } from './outputFormats';
+import { frameProvenance, type FrameProvenance } from './provenance';
+import FrameEncoderWorker from '@/workers/frameEncoder.worker?worker';
+import type { EncodeJob, EncodeJobResult, PixelFormat } from '@/workers/frameEncoder.worker';
+
 export type ImgExtractOpts = {
   file: File;
   typeHint?: string;                     // e.g. "image/gif" / "image/webp" / "image/apng"
-  nameBase?: string;                     // prefix for filenames
-  out: 'png' | 'jpg';
-  compressed?: boolean;                  // for PNG compression
-  jpgQuality?: number;                   // 0..1 (only used for jpg)
-  fpsHint?: number;                      // used for timestamp estimation
-  onFrame: (index: number, blob: Blob, filename: string, ms: number) => void;
+  namer?: FrameNamer;                    // builds filenames from the naming settings
+  format: ExtractionSettings['outputFormat'];
+  fpsHint?: number;                      // fallback when neither decoder nor container reports delays
+  selector?: FrameSelector;              // time range / every-nth / fps selection
+  scale?: ScaleSettings;                 // output size and resampling filter
+  orientation?: OrientationSettings;     // manual rotate / flip, before cropping
+  crop?: CropRect;                       // part of the frame to keep, before scaling
+  dpi?: number;                          // print resolution written into each frame
+  provenance?: FrameProvenance;          // source and settings written into each frame
+  firstIndex?: number;                   // index of the first emitted frame (resumed jobs)
+  onFrame: (index: number, blob: Blob, filename: string, ms: number, originalSize?: number) => void;
   onProgress?: (done: number, total: number) => void;
   signal?: AbortSignal;
 };
 
+// Palette quantisation and the TIFF / BMP writers walk every pixel, long enough to stall the page;
+// run them on a worker of its own
+function createFrameEncoder() {
+  const worker = new FrameEncoderWorker();
+  const pending = new Map<number, { resolve: (bytes: Uint8Array) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+  worker.onmessage = (evt: MessageEvent<EncodeJobResult>) => {
+    const job = pending.get(evt.data.id);
+    pending.delete(evt.data.id);
+    if ('bytes' in evt.data) job?.resolve(evt.data.bytes);
+    else job?.reject(new Error(evt.data.error));
+  };
+  return {
+    encode(image: ImageData, format: ExtractionSettings['outputFormat']): Promise<Uint8Array> {
+      const id = nextId++;
+      const job: EncodeJob = {
+        id,
+        image,
+        format: format.type as PixelFormat,
+        options: { colors: format.colors, dither: format.dither }
+      };
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        // The pixels were read for this job alone, so they move rather than copy
+        worker.postMessage(job, [image.data.buffer]);
+      });
+    }
+  };
+}
+
+// Started on first use and kept for later extractions
+let frameEncoder: ReturnType<typeof createFrameEncoder> | undefined;
+
 export async function extractAnimatedImageOnMain(opts: ImgExtractOpts): Promise<number> {
-  const { file, typeHint = file.type || 'image/gif', out, jpgQuality = 0.92, fpsHint = 10,
-          onFrame, onProgress, signal } = opts;
+  const { file, typeHint = file.type || 'image/gif', format, fpsHint = 10,
+          selector, scale, orientation, crop, dpi, provenance, onFrame, onProgress, signal, firstIndex = 0 } = opts;
 
   if (!('ImageDecoder' in window)) throw new Error('ImageDecoder not supported in this browser');
   const ab = await file.arrayBuffer();
+  const containerDelays = animationFrameDelays(new Uint8Array(ab), typeHint);
   // @ts-ignore
   const dec = new ImageDecoder({ data: ab, type: typeHint });
 
@@ -66,74 +120,64 @@ export async function extractAnimatedImageOnMain(opts: ImgExtractOpts): Promise<
   const ctx = canvas.getContext('2d');
   if (!ctx) throw new Error('2D canvas unavailable');
 
-  const base = (opts.nameBase ?? file.name.replace(/\.[^.]+$/, ''));
-  const mime = out === 'jpg' ? 'image/jpeg' : 'image/png';
+  const namer = opts.namer ?? new FrameNamer(DEFAULT_SETTINGS, { basename: fileBasename(file.name), engine: 'image-decoder-main', ext: formatInfo(format.type).ext });
+
+  let elapsedMs = 0;
+  let emitted = firstIndex;
 
   for (let i = 0; i < count; i++) {
-    if (signal?.aborted) throw new Error('Cancelled');
+    // Stop at a frame boundary and keep what was already emitted
+    if (signal?.aborted) break;
     // decode with composition/disposal handled by UA
     const { image } = await (dec as any).decode({ frameIndex: i, completeFramesOnly: true });
-    ctx.clearRect(0, 0, w, h);
+
+    // Real per-frame delay: ImageDecoder reports µs; fall back to the container, then to fpsHint
+    const ms = elapsedMs;
+    elapsedMs += image.duration != null ? image.duration / 1000 : containerDelays?.[i] ?? 1000 / (fpsHint || 10);
+    if (selector && ms > selector.endMs) {
+      image.close?.();
+      break;
+    }
+    if (selector && !selector.accept(ms)) {
+      image.close?.();
+      if (onProgress && (i % 2 === 1 || i === count - 1)) onProgress(i + 1, count);
+      continue;
+    }
+
+    // The previous frame may have left the canvas at the output size
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w; canvas.height = h;
+    } else {
+      ctx.clearRect(0, 0, w, h);
+    }
     // Image is an ImageBitmap
     ctx.drawImage(image, 0, 0);
     try { (image as any).close?.(); } catch {}
+    const turn = manualOrientation(orientation);
+    if (crop || !isIdentity(turn) || (scale && scale.mode !== 'original')) {
+      const oriented = isIdentity(turn) ? canvas : drawOriented(canvas, w, h, turn);
+      const scaled = drawScaled(oriented, oriented.width, oriented.height, scale, crop);
+      canvas.width = scaled.width; canvas.height = scaled.height;
+      ctx.drawImage(scaled, 0, 0);
+    }
 
-    let blob: Blob;
-    if (out === 'jpg') {
-      blob = await new Promise((resolve, reject) => {
-        canvas.toBlob(b => b ? resolve(b) : reject(new Error('toBlob failed')), mime, jpgQuality);
-      });
+    let encoded: EncodedFrame;
+    if (format.type === 'png-compressed') {
+      frameEncoder ??= createFrameEncoder();
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const [png, plain] = await Promise.all([frameEncoder.encode(pixels, format), encodeCanvas(canvas, { type: 'png' })]);
+      encoded = smallerPng(new Blob([png], { type: 'image/png' }), plain);
+    } else if (WRITTEN_FORMATS.includes(format.type)) {
+      frameEncoder ??= createFrameEncoder();
+      const bytes = await frameEncoder.encode(ctx.getImageData(0, 0, canvas.width, canvas.height), format);
+      encoded = { blob: new Blob([bytes], { type: formatInfo(format.type).mime }) };
     } else {
-      // For PNG, check if it's compressed format
-      const isCompressed = opts.compressed;
-      if (isCompressed) {
-        // Create compressed PNG by scaling and using JPEG compression then converting back
-        const compressCanvas = document.createElement('canvas');
-        const compressedSize = Math.min(w, h, 512); // Limit size for compression
-        const scale = compressedSize / Math.max(w, h);
-        compressCanvas.width = Math.round(w * scale);
-        compressCanvas.height = Math.round(h * scale);
-        const compressCtx = compressCanvas.getContext('2d');
-        if (compressCtx) {
-          compressCtx.imageSmoothingEnabled = true;
-          compressCtx.imageSmoothingQuality = 'medium';
-          compressCtx.drawImage(canvas, 0, 0, compressCanvas.width, compressCanvas.height);
-          
-          // Convert to JPEG for compression, then back to PNG
-          const tempJpeg = await new Promise<Blob>((resolve, reject) => {
-            compressCanvas.toBlob(b => b ? resolve(b) : reject(new Error('temp jpeg failed')), 'image/jpeg', 0.3);
-          });
-          
-          // Load compressed JPEG and convert to PNG
-          const img = new Image();
-          await new Promise((resolve, reject) => {
-            img.onload = resolve;
-            img.onerror = reject;
-            img.src = URL.createObjectURL(tempJpeg);
-          });
-          
-          compressCtx.clearRect(0, 0, compressCanvas.width, compressCanvas.height);
-          compressCtx.drawImage(img, 0, 0);
-          URL.revokeObjectURL(img.src);
-          
-          blob = await new Promise((resolve, reject) => {
-            compressCanvas.toBlob(b => b ? resolve(b) : reject(new Error('compressed png failed')), mime);
-          });
-        } else {
-          blob = await new Promise((resolve, reject) => {
-            canvas.toBlob(b => b ? resolve(b) : reject(new Error('toBlob failed')), mime);
-          });
-        }
-      } else {
-        blob = await new Promise((resolve, reject) => {
-          canvas.toBlob(b => b ? resolve(b) : reject(new Error('toBlob failed')), mime);
-        });
-      }
+      encoded = { blob: await encodeCanvas(canvas, format) };
     }
+    encoded = await tagFrame(encoded, { dpi, provenance: provenance?.frame(emitted, Math.round(ms)) });
 
-    const ms = Math.round((i / (fpsHint || 10)) * 1000);
-    const filename = `${base}_f${String(i).padStart(6, '0')}.${out}`;
-    onFrame(i, blob, filename, ms);
+    const filename = namer.name({ index: emitted, timestampMs: Math.round(ms), width: canvas.width, height: canvas.height });
+    onFrame(emitted++, encoded.blob, filename, Math.round(ms), encoded.originalSize);
 
     if (onProgress && (i % 2 === 1 || i === count - 1)) onProgress(i + 1, count);
     // yield so UI remains responsive
@@ -143,5 +187,73 @@ export async function extractAnimatedImageOnMain(opts: ImgExtractOpts): Promise<
   try { // @ts-ignore
     dec.close?.();
   } catch {}
-  return count!;
-}
\ No newline at end of file
+  if (emitted === firstIndex && !signal?.aborted) throw new Error('No frames were decoded in the selected range');
+  return emitted;
+}
+/** Main-thread ImageDecoder engine, for browsers whose ImageDecoder misbehaves inside workers. */
+export class MainThreadImageSource implements FrameSource {
+  readonly engine = 'image-decoder-main' as const;
+  private abort: AbortController | null = null;
+
+  async init() {}
+
+  async probe(file: File, metadata?: FileMetadata): Promise<ContainerProbe> {
+    return probeContainer(file, (metadata?.trueType as TrueType | undefined) || await sniffTrueType(file));
+  }
+
+  async *extract(file: File, settings: ExtractionSettings, metadata?: FileMetadata): AsyncGenerator<FrameEvent> {
+    const channel = createEventChannel<FrameEvent>();
+    this.abort?.abort();
+    this.abort = new AbortController();
+    const { signal } = this.abort;
+
+    extractAnimatedImageOnMain({
+      file,
+      typeHint: metadata?.trueType || file.type,
+      namer: new FrameNamer(settings, {
+        basename: fileBasename(metadata?.name || file.name),
+        engine: this.engine,
+        ext: outputExtension(settings),
+        fps: metadata?.fps
+      }),
+      format: settings.outputFormat,
+      fpsHint: metadata?.fps ?? 10,
+      selector: createFrameSelector(settings),
+      scale: settings.scale,
+      orientation: settings.orientation,
+      crop: settings.crop,
+      dpi: settings.dpi,
+      provenance: frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: this.engine }),
+      firstIndex: settings.resume?.frameOffset,
+      signal,
+      onFrame: (index, blob, filename, timestamp, originalSize) => {
+        channel.push({ type: 'frame', frame: { index, filename, timestamp, blob, url: URL.createObjectURL(blob), originalSize } });
+      },
+      onProgress: (done, total) => {
+        channel.push({ type: 'progress', progress: { frames: done, percent: Math.round((done / total) * 100), status: 'processing' } });
+      },
+    }).then(
+      totalFrames => {
+        channel.push(signal.aborted ? { type: 'cancelled', totalFrames } : { type: 'complete', totalFrames });
+        channel.end();
+      },
+      error => channel.fail(error instanceof Error ? error : new Error(String(error)))
+    );
+
+    yield* channel;
+  }
+
+  cancel() {
+    this.abort?.abort();
+  }
+
+  async selfTest(): Promise<SelfTestResult> {
+    if (!('ImageDecoder' in window)) return { ok: false, detail: 'ImageDecoder not supported in this browser' };
+    const gif = await ImageDecoder.isTypeSupported('image/gif');
+    return { ok: gif, detail: gif ? 'GIF decoding available' : 'ImageDecoder cannot read GIF' };
+  }
+
+  dispose() {
+    this.cancel();
+  }
+}
@@ -0,0 +1,101 @@
+// Output stage shared by the canvas-based engines
+// Draws a decoded frame oriented and at the requested size, and encodes it in the chosen output format.
+
+import type { ExtractionSettings } from './types';
+import { drawScaled, scaleGeometry } from './scaling';
+import { IDENTITY, drawOriented, frameOrientation, isIdentity, orientedSize, type Orientation } from './orientation';
+import { WRITTEN_FORMATS, formatInfo, settingsFormat } from './outputFormats';
+import { encodeBmp, encodeTiff } from './rasterWriter';
+import { compressPng } from './pngOptimizer';
+import { withMetadata, type FrameTags } from './imageMetadata';
+import type { Provenance } from './provenance';
+
+export function outputMimeType(settings: ExtractionSettings): string {
+  return settingsFormat(settings).mime;
+}
+
+export function outputExtension(settings: ExtractionSettings): string {
+  return settingsFormat(settings).ext;
+}
+
+/** Final frame size after applying the orientation, crop and scale settings to a displayed width × height. */
+export function outputSize(settings: ExtractionSettings, width: number, height: number) {
+  const oriented = orientedSize(settings, width, height);
+  const { width: w, height: h } = scaleGeometry(settings.scale, oriented.width, oriented.height, settings.crop);
+  return { width: w, height: h };
+}
+
+/**
+ * Draw a frame onto a fresh canvas at the output size. `container` is the container orientation
+ * still missing from the source, for engines that decode coded frames.
+ */
+export function renderFrame(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  settings: ExtractionSettings,
+  container: Orientation = IDENTITY
+): OffscreenCanvas {
+  const orientation = frameOrientation(settings, container);
+  if (isIdentity(orientation)) return drawScaled(source, width, height, settings.scale, settings.crop);
+  const oriented = drawOriented(source, width, height, orientation);
+  return drawScaled(oriented, oriented.width, oriented.height, settings.scale, settings.crop);
+}
+
+export interface EncodedFrame {
+  blob: Blob;
+  originalSize?: number;   // png-compressed: size of the plain PNG it replaced
+}
+
+// Encoder quality for convertToBlob / toBlob, where the format takes one
+function blobQuality(output: ExtractionSettings['outputFormat']): number | undefined {
+  const format = formatInfo(output.type);
+  // Chromium writes lossless WebP at quality 1
+  if (format.lossless && output.lossless) return 1;
+  return format.quality ? (output.quality || 90) / 100 : undefined;
+}
+
+/** Encode a canvas (offscreen or on the page) in the chosen output format. */
+export async function encodeCanvas(
+  canvas: OffscreenCanvas | HTMLCanvasElement,
+  output: ExtractionSettings['outputFormat']
+): Promise<Blob> {
+  const format = formatInfo(output.type);
+  if (WRITTEN_FORMATS.includes(format.type) || format.type === 'png-compressed') {
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error('Could not get canvas context');
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const bytes = format.type === 'png-compressed' ? await compressPng(pixels, output)
+      : format.type === 'tiff' ? encodeTiff(pixels) : encodeBmp(pixels);
+    return new Blob([bytes], { type: format.mime });
+  }
+  const quality = blobQuality(output);
+  const blob = 'convertToBlob' in canvas
+    ? await canvas.convertToBlob({ type: format.mime, quality })
+    : await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, format.mime, quality));
+  if (!blob) throw new Error('toBlob failed');
+  // Browsers fall back to PNG for types they cannot encode rather than failing
+  if (blob.type !== format.mime) throw new Error(`This browser cannot encode ${format.label} frames`);
+  return blob;
+}
+
+/** The compressed PNG, or the plain one in the rare case quantising did not make it smaller. */
+export function smallerPng(compressed: Blob, plain: Blob): EncodedFrame {
+  return { blob: compressed.size < plain.size ? compressed : plain, originalSize: plain.size };
+}
+
+/** Write the print resolution and provenance, when there are any, into an encoded frame. */
+export async function tagFrame(encoded: EncodedFrame, tags: FrameTags): Promise<EncodedFrame> {
+  if (!tags.dpi && !tags.provenance) return encoded;
+  const bytes = withMetadata(new Uint8Array(await encoded.blob.arrayBuffer()), tags);
+  return { ...encoded, blob: new Blob([bytes], { type: encoded.blob.type }) };
+}
+
+export async function encodeFrame(canvas: OffscreenCanvas, settings: ExtractionSettings, provenance?: Provenance): Promise<EncodedFrame> {
+  const output = settings.outputFormat;
+  const tags = { dpi: settings.dpi, provenance };
+  if (output.type !== 'png-compressed') return tagFrame({ blob: await encodeCanvas(canvas, output) }, tags);
+  // The plain PNG is the baseline for the size saving the UI reports
+  const plain = await canvas.convertToBlob({ type: 'image/png' });
+  return tagFrame(smallerPng(await encodeCanvas(canvas, output), plain), tags);
+}
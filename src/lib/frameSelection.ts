@@ -0,0 +1,44 @@
+// Frame selection shared by the worker engines
+// Applies the time range, every-nth and target-fps settings to decoded frames in presentation order.
+
+import type { ExtractionSettings } from './types';
+
+// Half a millisecond of tolerance for rounded container timestamps
+const TOLERANCE_MS = 0.5;
+
+export interface FrameSelector {
+  /** Whether the frame at timestampMs should be kept. Call once per frame, in order. */
+  accept(timestampMs: number): boolean;
+  startMs: number;
+  endMs: number;
+}
+
+export function createFrameSelector(settings: ExtractionSettings): FrameSelector {
+  const rangeStartMs = (settings.startTime || 0) * 1000;
+  const endMs = settings.endTime ? settings.endTime * 1000 : Infinity;
+  const nth = settings.mode === 'nth' ? Math.max(1, settings.nth || 1) : 1;
+  const stepMs = settings.mode === 'fps' ? 1000 / Math.max(1, settings.fps || 30) : 0;
+  const resumeAfterMs = settings.resume ? settings.resume.afterMs : -Infinity;
+  const startMs = Math.max(rangeStartMs, resumeAfterMs);
+  // A resumed job continues the same cadence: the saved frame counts as the last one kept
+  let seenFrames = settings.resume ? 1 : 0;
+  let nextSampleMs = rangeStartMs;
+  while (stepMs && nextSampleMs <= resumeAfterMs + TOLERANCE_MS) nextSampleMs += stepMs;
+
+  const accept = (ts: number) => {
+    if (ts + TOLERANCE_MS < startMs || ts - TOLERANCE_MS > endMs) return false;
+    if (ts <= resumeAfterMs + TOLERANCE_MS) return false;
+
+    // Apply frame skipping
+    if (seenFrames++ % nth !== 0) return false;
+
+    // Apply FPS sampling
+    if (stepMs) {
+      if (ts + TOLERANCE_MS < nextSampleMs) return false;
+      while (nextSampleMs <= ts + TOLERANCE_MS) nextSampleMs += stepMs;
+    }
+    return true;
+  };
+
+  return { accept, startMs, endMs };
+}
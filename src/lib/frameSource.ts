@@ -0,0 +1,246 @@
+// FrameSource: the contract every extraction engine implements
+// Workers and the main-thread path all look the same to ProcessingController: init, probe,
+// extract as an async stream of events, cancel and self-test.
+
+import type {
+  ContainerProbe,
+  EngineErrorCode,
+  ExtractedFrame,
+  ExtractionProgress,
+  ExtractionSettings,
+  FileMetadata,
+  PartReady,
+  WorkerInMessage,
+  WorkerOutMessage
+} from './types';
+import type { ProcessingEngine } from './processingMode';
+
+// 'image-decoder-main' is the main-thread ImageDecoder path, used when the worker variant fails
+export type EngineId = ProcessingEngine | 'image-decoder-main';
+
+export type FrameEvent =
+  | { type: 'progress'; progress: ExtractionProgress }
+  | { type: 'frame'; frame: ExtractedFrame }
+  | { type: 'part'; part: PartReady }
+  | { type: 'complete'; totalFrames: number }
+  | { type: 'cancelled'; totalFrames: number };
+
+export interface SelfTestResult {
+  ok: boolean;
+  detail?: string;
+}
+
+/** Engine failure carrying a reason code across the worker boundary. */
+export class EngineError extends Error {
+  constructor(message: string, readonly code?: EngineErrorCode) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+export interface FrameSource {
+  readonly engine: EngineId;
+  /** Load whatever the engine needs (e.g. the FFmpeg core); safe to call more than once. */
+  init(): Promise<void>;
+  probe(file: File, metadata?: FileMetadata): Promise<ContainerProbe>;
+  /** Stream extraction events; ends after 'complete' or 'cancelled' and throws on failure. */
+  extract(file: File, settings: ExtractionSettings, metadata?: FileMetadata): AsyncGenerator<FrameEvent>;
+  /** Ask the engine to stop after the current frame; partial results are still delivered. */
+  cancel(): void;
+  selfTest(): Promise<SelfTestResult>;
+  /** Release workers and other resources. */
+  dispose(): void;
+}
+
+export interface EventChannel<T> extends AsyncIterable<T> {
+  push(value: T): void;
+  end(): void;
+  fail(error: Error): void;
+}
+
+/** Push-to-pull bridge: callbacks and worker messages push, an async loop consumes. */
+export function createEventChannel<T>(): EventChannel<T> {
+  const queue: T[] = [];
+  let waiting: { resolve: (r: IteratorResult<T>) => void; reject: (e: Error) => void } | null = null;
+  let closed = false;
+  let error: Error | null = null;
+
+  return {
+    push(value) {
+      if (closed) return;
+      if (waiting) {
+        waiting.resolve({ value, done: false });
+        waiting = null;
+      } else {
+        queue.push(value);
+      }
+    },
+    end() {
+      closed = true;
+      waiting?.resolve({ value: undefined, done: true });
+      waiting = null;
+    },
+    fail(e) {
+      if (closed) return;
+      error = e;
+      closed = true;
+      waiting?.reject(e);
+      waiting = null;
+    },
+    [Symbol.asyncIterator]() {
+      return {
+        next: (): Promise<IteratorResult<T>> => {
+          if (queue.length) return Promise.resolve({ value: queue.shift()!, done: false });
+          if (error) return Promise.reject(error);
+          if (closed) return Promise.resolve({ value: undefined, done: true });
+          return new Promise((resolve, reject) => { waiting = { resolve, reject }; });
+        }
+      };
+    }
+  };
+}
+
+// How long a worker gets to wrap up after CANCEL before it is terminated
+const CANCEL_GRACE_MS = 15_000;
+
+/** FrameSource backed by a worker that speaks WorkerInMessage / WorkerOutMessage. */
+export class WorkerFrameSource implements FrameSource {
+  private worker: Worker | null = null;
+  private alive: Promise<void> | null = null;
+  private ready: Promise<void> | null = null;
+  private channel: EventChannel<WorkerOutMessage> | null = null;
+  private cancelTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    readonly engine: EngineId,
+    private createWorker: () => Worker,
+    private initMessage?: WorkerInMessage
+  ) {}
+
+  private boot(): Promise<void> {
+    if (!this.alive) {
+      this.alive = new Promise((resolve, reject) => {
+        const w = this.createWorker();
+        this.worker = w;
+        w.onmessage = (e: MessageEvent<WorkerOutMessage>) => {
+          if (e.data?.type === 'ALIVE') resolve();
+          else this.channel?.push(e.data);
+        };
+        w.onerror = (e) => {
+          e.preventDefault();
+          const error = new Error(e.message || `${this.engine} worker crashed`);
+          reject(error);
+          this.channel?.fail(error);
+        };
+      });
+    }
+    return this.alive;
+  }
+
+  // Post a request and yield replies until `done` matches; ERROR replies are thrown
+  private async *request(msg: WorkerInMessage, done: (m: WorkerOutMessage) => boolean): AsyncGenerator<WorkerOutMessage> {
+    await this.boot();
+    const channel = createEventChannel<WorkerOutMessage>();
+    this.channel = channel;
+    this.worker!.postMessage(msg);
+    try {
+      for await (const m of channel) {
+        if (m.type === 'ERROR') throw new EngineError(m.error, m.code);
+        yield m;
+        if (done(m)) return;
+      }
+    } finally {
+      if (this.channel === channel) this.channel = null;
+    }
+  }
+
+  // Post a request and wait for the single reply of the given type
+  private async reply<T extends WorkerOutMessage['type']>(msg: WorkerInMessage, type: T) {
+    for await (const m of this.request(msg, m => m.type === type)) {
+      if (m.type === type) return m as Extract<WorkerOutMessage, { type: T }>;
+    }
+    return undefined;
+  }
+
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        if (!this.initMessage) return this.boot();
+        await this.reply(this.initMessage, 'READY');
+      })();
+      // Allow a retry after a failed init
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  async probe(file: File, metadata?: FileMetadata): Promise<ContainerProbe> {
+    return (await this.reply({ type: 'PROBE', file, metadata }, 'META'))?.probe ?? {};
+  }
+
+  async *extract(file: File, settings: ExtractionSettings, metadata?: FileMetadata): AsyncGenerator<FrameEvent> {
+    await this.init();
+    try {
+      for await (const m of this.request({ type: 'EXTRACT', file, settings, metadata }, m => m.type === 'COMPLETE' || m.type === 'CANCELLED')) {
+        switch (m.type) {
+          case 'PROGRESS':
+            yield {
+              type: 'progress',
+              progress: { frames: m.progress?.frames ?? 0, percent: m.progress?.percent ?? 0, status: 'processing' }
+            };
+            break;
+          case 'FRAME':
+            // Object URLs made inside a worker die with it; mint one on this side
+            yield { type: 'frame', frame: { ...m.frame, url: URL.createObjectURL(m.frame.blob) } };
+            break;
+          case 'PART_READY':
+            yield { type: 'part', part: m };
+            break;
+          case 'COMPLETE':
+            this.clearCancelTimer();
+            yield { type: 'complete', totalFrames: m.totalFrames };
+            break;
+          case 'CANCELLED':
+            this.clearCancelTimer();
+            yield { type: 'cancelled', totalFrames: m.totalFrames };
+            break;
+        }
+      }
+    } catch (error) {
+      this.clearCancelTimer();
+      throw error;
+    }
+  }
+
+  // The worker answered; the grace period must not dispose it later
+  private clearCancelTimer() {
+    if (this.cancelTimer) clearTimeout(this.cancelTimer);
+    this.cancelTimer = null;
+  }
+
+  cancel() {
+    if (!this.worker || this.cancelTimer) return;
+    this.worker.postMessage({ type: 'CANCEL' } as WorkerInMessage);
+    // A worker stuck in a long decode call cannot answer; end the stream with what has arrived
+    this.cancelTimer = setTimeout(() => this.dispose(), CANCEL_GRACE_MS);
+  }
+
+  async selfTest(): Promise<SelfTestResult> {
+    try {
+      const result = await this.reply({ type: 'SELF_TEST' }, 'SELF_TEST_RESULT');
+      return result ? { ok: result.ok, detail: result.detail } : { ok: false, detail: 'Worker stopped before answering' };
+    } catch (error) {
+      return { ok: false, detail: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  dispose() {
+    this.clearCancelTimer();
+    this.worker?.terminate();
+    this.worker = null;
+    this.alive = null;
+    this.ready = null;
+    this.channel?.end();
+    this.channel = null;
+  }
+}
@@ -0,0 +1,279 @@
+// Pure-TypeScript GIF89a decoder
+// Parses blocks, decodes LZW image data and composites frames with disposal methods 0–3,
+// so GIFs can be extracted without ImageDecoder (Firefox, Safari).
+
+// Browsers clamp GIF delays of 0–1 centiseconds to 100 ms; match them
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_CS = 10;
+
+export interface GifFrameInfo {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  delay: number;              // ms, after browser-style clamping
+  disposal: number;           // 0 unspecified, 1 keep, 2 restore background, 3 restore previous
+  transparentIndex: number;   // -1 when the frame has no transparency
+  interlaced: boolean;
+  palette: Uint8Array;        // RGB triplets (local, else global)
+  minCodeSize: number;
+  data: Uint8Array;           // concatenated LZW sub-blocks
+}
+
+export interface ParsedGif {
+  width: number;
+  height: number;
+  loopCount?: number;         // Netscape extension; 0 = forever
+  frames: GifFrameInfo[];
+}
+
+export interface DecodedGifFrame {
+  index: number;
+  timestamp: number;          // ms from the start of the animation
+  duration: number;           // ms
+  pixels: Uint8ClampedArray;  // composited RGBA canvas, width × height
+}
+
+function readSubBlocks(buf: Uint8Array, p: number): { data: Uint8Array; end: number } {
+  let total = 0;
+  for (let q = p; q < buf.length && buf[q] !== 0; q += buf[q] + 1) total += buf[q];
+  const data = new Uint8Array(total);
+  let o = 0;
+  while (p < buf.length && buf[p] !== 0) {
+    const n = buf[p];
+    data.set(buf.subarray(p + 1, p + 1 + n), o);
+    o += n;
+    p += n + 1;
+  }
+  return { data: data.subarray(0, o), end: p + 1 };
+}
+
+/** Parse the block structure of a GIF without decoding pixel data. */
+export function parseGif(buf: Uint8Array): ParsedGif {
+  const sig = String.fromCharCode(...buf.subarray(0, 6));
+  if (sig !== 'GIF89a' && sig !== 'GIF87a') throw new Error('Not a GIF file');
+
+  const width = buf[6] | (buf[7] << 8);
+  const height = buf[8] | (buf[9] << 8);
+  const flags = buf[10];
+  let p = 13;
+  let globalPalette = new Uint8Array(0);
+  if (flags & 0x80) {
+    const n = 3 * (1 << ((flags & 7) + 1));
+    globalPalette = buf.slice(p, p + n);
+    p += n;
+  }
+
+  const frames: GifFrameInfo[] = [];
+  let loopCount: number | undefined;
+  let gce = { delay: -1, disposal: 0, transparentIndex: -1 };
+
+  while (p < buf.length) {
+    const block = buf[p++];
+    if (block === 0x3b) break; // trailer
+
+    if (block === 0x21) {
+      const label = buf[p++];
+      if (label === 0xf9 && buf[p] >= 4) {
+        const packed = buf[p + 1];
+        gce = {
+          delay: buf[p + 2] | (buf[p + 3] << 8),
+          disposal: (packed >> 2) & 7,
+          transparentIndex: packed & 1 ? buf[p + 4] : -1,
+        };
+      } else if (label === 0xff && buf[p] === 11) {
+        const app = String.fromCharCode(...buf.subarray(p + 1, p + 12));
+        const sub = p + 12;
+        if ((app === 'NETSCAPE2.0' || app === 'ANIMEXTS1.0') && buf[sub] >= 3 && buf[sub + 1] === 1) {
+          loopCount = buf[sub + 2] | (buf[sub + 3] << 8);
+        }
+      }
+      p = readSubBlocks(buf, p).end;
+      continue;
+    }
+
+    if (block === 0x2c) {
+      const left = buf[p] | (buf[p + 1] << 8);
+      const top = buf[p + 2] | (buf[p + 3] << 8);
+      const w = buf[p + 4] | (buf[p + 5] << 8);
+      const h = buf[p + 6] | (buf[p + 7] << 8);
+      const imgFlags = buf[p + 8];
+      p += 9;
+      let palette = globalPalette;
+      if (imgFlags & 0x80) {
+        const n = 3 * (1 << ((imgFlags & 7) + 1));
+        palette = buf.slice(p, p + n);
+        p += n;
+      }
+      const minCodeSize = buf[p++];
+      const { data, end } = readSubBlocks(buf, p);
+      p = end;
+
+      const cs = gce.delay < MIN_DELAY_CS ? DEFAULT_DELAY_CS : gce.delay;
+      frames.push({
+        left, top, width: w, height: h,
+        delay: cs * 10,
+        disposal: gce.disposal,
+        transparentIndex: gce.transparentIndex,
+        interlaced: (imgFlags & 0x40) !== 0,
+        palette,
+        minCodeSize,
+        data,
+      });
+      gce = { delay: -1, disposal: 0, transparentIndex: -1 };
+      continue;
+    }
+
+    break; // unknown block: treat as a truncated stream
+  }
+
+  return { width, height, loopCount, frames };
+}
+
+/** Decode GIF LZW data into palette indices. Short streams leave trailing pixels at index 0. */
+export function decodeLzw(minCodeSize: number, data: Uint8Array, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+  for (let i = 0; i < clear; i++) {
+    prefix[i] = -1;
+    suffix[i] = i;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let next = eoi + 1;
+  let prev = -1;
+  let first = 0;
+  let op = 0;
+  let datum = 0;
+  let bits = 0;
+
+  for (let i = 0; i < data.length && op < pixelCount; i++) {
+    datum |= data[i] << bits;
+    bits += 8;
+    while (bits >= codeSize && op < pixelCount) {
+      let code = datum & codeMask;
+      datum >>= codeSize;
+      bits -= codeSize;
+
+      if (code === clear) {
+        codeSize = minCodeSize + 1;
+        codeMask = (1 << codeSize) - 1;
+        next = eoi + 1;
+        prev = -1;
+        continue;
+      }
+      if (code === eoi) return out;
+
+      if (prev === -1) {
+        if (code >= clear) continue; // invalid first code
+        out[op++] = code;
+        prev = first = code;
+        continue;
+      }
+
+      const inCode = code;
+      let sp = 0;
+      if (code >= next) {
+        // KwKwK: string(prev) + first char of string(prev)
+        stack[sp++] = first;
+        code = prev;
+      }
+      while (code >= clear) {
+        stack[sp++] = suffix[code];
+        code = prefix[code];
+      }
+      first = suffix[code];
+      stack[sp++] = first;
+      while (sp && op < pixelCount) out[op++] = stack[--sp];
+
+      if (next < 4096) {
+        prefix[next] = prev;
+        suffix[next] = first;
+        next++;
+        if (next > codeMask && codeSize < 12) {
+          codeSize++;
+          codeMask = (1 << codeSize) - 1;
+        }
+      }
+      prev = inCode;
+    }
+  }
+  return out;
+}
+
+// Row order of an interlaced image: passes start at 0, 4, 2, 1 with steps 8, 8, 4, 2
+function interlacedRows(height: number): Int32Array {
+  const rows = new Int32Array(height);
+  let i = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) rows[i++] = y;
+  }
+  return rows;
+}
+
+export class GifDecoder {
+  readonly gif: ParsedGif;
+
+  constructor(buf: Uint8Array) {
+    this.gif = parseGif(buf);
+    if (!this.gif.frames.length) throw new Error('GIF contains no frames');
+  }
+
+  get width() { return this.gif.width; }
+  get height() { return this.gif.height; }
+  get frameCount() { return this.gif.frames.length; }
+
+  /** Composite every frame in order; each yielded pixel buffer is a fresh copy. */
+  *frames(): Generator<DecodedGifFrame> {
+    const { width, height, frames } = this.gif;
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    let timestamp = 0;
+
+    for (let index = 0; index < frames.length; index++) {
+      const f = frames[index];
+      const previous = f.disposal === 3 ? canvas.slice() : null;
+
+      this.draw(canvas, f);
+      yield { index, timestamp, duration: f.delay, pixels: canvas.slice() };
+      timestamp += f.delay;
+
+      if (f.disposal === 2) {
+        // Restore to background: browsers clear to transparent rather than the background colour
+        for (let y = Math.max(0, f.top); y < Math.min(height, f.top + f.height); y++) {
+          const row = (y * width + Math.max(0, f.left)) * 4;
+          canvas.fill(0, row, row + (Math.min(width, f.left + f.width) - Math.max(0, f.left)) * 4);
+        }
+      } else if (previous) {
+        canvas.set(previous);
+      }
+    }
+  }
+
+  private draw(canvas: Uint8ClampedArray, f: GifFrameInfo) {
+    const { width, height } = this.gif;
+    const indices = decodeLzw(f.minCodeSize, f.data, f.width * f.height);
+    const rows = f.interlaced ? interlacedRows(f.height) : null;
+    const pal = f.palette;
+
+    for (let r = 0; r < f.height; r++) {
+      const y = f.top + (rows ? rows[r] : r);
+      if (y < 0 || y >= height) continue;
+      for (let x = 0; x < f.width; x++) {
+        const cx = f.left + x;
+        if (cx < 0 || cx >= width) continue;
+        const ci = indices[r * f.width + x];
+        if (ci === f.transparentIndex || ci * 3 + 2 >= pal.length) continue;
+        const o = (y * width + cx) * 4;
+        canvas[o] = pal[ci * 3];
+        canvas[o + 1] = pal[ci * 3 + 1];
+        canvas[o + 2] = pal[ci * 3 + 2];
+        canvas[o + 3] = 255;
+      }
+    }
+  }
+}
@@ -1,5 +1,7 @@
 // GIF Frame Extractor using Canvas API
-// This handles GIF frame extraction since FFmpeg might not work reliably with GIFs
+// Decodes every frame with the built-in GIF decoder and returns composited canvases
+
+import { GifDecoder } from './gifDecoder';
 
 export interface GifFrame {
   canvas: HTMLCanvasElement;
@@ -10,49 +12,28 @@ export interface GifFrame {
 export class GifExtractor {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
-  private img: HTMLImageElement;
   private frames: GifFrame[] = [];
 
   constructor() {
     this.canvas = document.createElement('canvas');
     this.ctx = this.canvas.getContext('2d')!;
-    this.img = new Image();
   }
 
   async extractFrames(file: File): Promise<GifFrame[]> {
-    return new Promise((resolve, reject) => {
-      const url = URL.createObjectURL(file);
-      
-      this.img.onload = () => {
-        try {
-          this.canvas.width = this.img.naturalWidth;
-          this.canvas.height = this.img.naturalHeight;
-          
-          // For static images or simple GIFs, we extract the current frame
-          this.ctx.drawImage(this.img, 0, 0);
-          
-          const frame: GifFrame = {
-            canvas: this.cloneCanvas(this.canvas),
-            delay: 100, // Default 100ms delay
-            index: 0
-          };
-          
-          this.frames = [frame];
-          URL.revokeObjectURL(url);
-          resolve(this.frames);
-        } catch (error) {
-          URL.revokeObjectURL(url);
-          reject(error);
-        }
-      };
-      
-      this.img.onerror = (error) => {
-        URL.revokeObjectURL(url);
-        reject(error);
-      };
-      
-      this.img.src = url;
-    });
+    const gif = new GifDecoder(new Uint8Array(await file.arrayBuffer()));
+    this.canvas.width = gif.width;
+    this.canvas.height = gif.height;
+
+    this.frames = [];
+    for (const f of gif.frames()) {
+      this.ctx.putImageData(new ImageData(f.pixels, gif.width, gif.height), 0, 0);
+      this.frames.push({
+        canvas: this.cloneCanvas(this.canvas),
+        delay: f.duration,
+        index: f.index
+      });
+    }
+    return this.frames;
   }
 
   private cloneCanvas(originalCanvas: HTMLCanvasElement): HTMLCanvasElement {
@@ -0,0 +1,406 @@
+// Metadata patched into encoded frames
+// Browsers and FFmpeg write their own headers; this rewrites the encoded bytes afterwards so every
+// engine's output carries the same fields: print resolution as PNG pHYs, JFIF density plus EXIF
+// X/YResolution for JPEG, the TIFF resolution tags and BMP pixels-per-metre; provenance (see
+// provenance.ts for the key scheme) as PNG text chunks and JPEG XMP / EXIF.
+
+import { crc32 } from './crc32';
+import {
+  PNG_KEY_PREFIX,
+  PROVENANCE_KEYS,
+  PROVENANCE_NAMESPACE,
+  XMP_PREFIX,
+  parseProvenance,
+  provenanceFields,
+  type Provenance
+} from './provenance';
+
+export interface FrameTags {
+  dpi?: number;               // print resolution
+  provenance?: Provenance;
+}
+
+const INCH = 0.0254;   // metres
+
+// TIFF tags and field types shared by TIFF files and EXIF
+const TAG_X_RESOLUTION = 282;
+const TAG_Y_RESOLUTION = 283;
+const TAG_RESOLUTION_UNIT = 296;
+const TAG_DOCUMENT_NAME = 269;
+const TAG_IMAGE_DESCRIPTION = 270;
+const TAG_SOFTWARE = 305;
+const ASCII = 2;
+const SHORT = 3;
+const RATIONAL = 5;
+const UNIT_INCH = 2;
+
+const SOFTWARE = 'FRAMED';
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const part of parts) {
+    out.set(part, o);
+    o += part.length;
+  }
+  return out;
+}
+
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+const utf8 = new TextEncoder();
+const latin1 = new TextDecoder('latin1');
+const utf8Decoder = new TextDecoder();
+
+// --- PNG ---
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+export function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(ascii(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  start: number;
+  end: number;
+}
+
+function pngChunks(png: Uint8Array): PngChunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let p = 8; p + 12 <= png.length;) {
+    const length = view.getUint32(p);
+    const end = p + 12 + length;
+    chunks.push({ type: String.fromCharCode(...png.subarray(p + 4, p + 8)), data: png.subarray(p + 8, p + 8 + length), start: p, end });
+    p = end;
+  }
+  return chunks;
+}
+
+// Keyword of a tEXt / iTXt chunk
+const textKeyword = (data: Uint8Array) => latin1.decode(data.subarray(0, Math.max(0, data.indexOf(0))));
+
+// Our own chunks, which a new write replaces
+function isOwnPngChunk(chunk: PngChunk, dpi: boolean, text: boolean): boolean {
+  if (dpi && chunk.type === 'pHYs') return true;
+  return text && (chunk.type === 'tEXt' || chunk.type === 'iTXt') && textKeyword(chunk.data).startsWith(PNG_KEY_PREFIX);
+}
+
+// tEXt holds Latin-1 only; anything else goes in an uncompressed iTXt
+function pngTextChunk(keyword: string, value: string): Uint8Array {
+  if (/^[\n\x20-\x7e\xa0-\xff]*$/.test(value)) return pngChunk('tEXt', concat([ascii(keyword), new Uint8Array(1), ascii(value)]));
+  // keyword, compression flag and method, empty language tag and translated keyword
+  return pngChunk('iTXt', concat([ascii(keyword), new Uint8Array(5), utf8.encode(value)]));
+}
+
+function pngWithTags(png: Uint8Array, tags: FrameTags): Uint8Array {
+  const added: Uint8Array[] = [];
+  if (tags.dpi) {
+    const data = new Uint8Array(9);
+    const view = new DataView(data.buffer);
+    const ppm = Math.round(tags.dpi / INCH);
+    view.setUint32(0, ppm);
+    view.setUint32(4, ppm);
+    data[8] = 1;   // unit: metre
+    added.push(pngChunk('pHYs', data));
+  }
+  if (tags.provenance) {
+    for (const [key, value] of provenanceFields(tags.provenance)) added.push(pngTextChunk(PNG_KEY_PREFIX + key, value));
+  }
+  // New chunks go straight after IHDR, ahead of the image data
+  const parts: Uint8Array[] = [png.subarray(0, 8)];
+  for (const chunk of pngChunks(png)) {
+    if (!isOwnPngChunk(chunk, !!tags.dpi, !!tags.provenance)) parts.push(png.subarray(chunk.start, chunk.end));
+    if (chunk.type === 'IHDR') parts.push(...added);
+  }
+  return concat(parts);
+}
+
+function pngTextFields(png: Uint8Array): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const chunk of pngChunks(png)) {
+    if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt') continue;
+    const keyword = textKeyword(chunk.data);
+    if (!keyword.startsWith(PNG_KEY_PREFIX)) continue;
+    const rest = chunk.data.subarray(keyword.length + 1);
+    if (chunk.type === 'tEXt') {
+      fields[keyword.slice(PNG_KEY_PREFIX.length)] = latin1.decode(rest);
+    } else if (rest[0] === 0) {
+      // Skip the flags, then the language tag and translated keyword, each null-terminated
+      let p = 2;
+      for (let n = 0; n < 2; n++) p = rest.indexOf(0, p) + 1;
+      fields[keyword.slice(PNG_KEY_PREFIX.length)] = utf8Decoder.decode(rest.subarray(p));
+    }
+  }
+  return fields;
+}
+
+// --- TIFF structures (TIFF files and the EXIF block in JPEG) ---
+
+/**
+ * Set X/YResolution and ResolutionUnit in IFD0 of the TIFF structure starting at `start`. Only
+ * rewrites tags that are already there; returns false when the resolution tags are missing.
+ */
+function patchTiffResolution(bytes: Uint8Array, start: number, dpi: number): boolean {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[start] === 0x49;
+  const ifd = start + view.getUint32(start + 4, little);
+  if (ifd + 2 > bytes.length) return false;
+  let found = 0;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    if ((tag === TAG_X_RESOLUTION || tag === TAG_Y_RESOLUTION) && type === RATIONAL) {
+      const at = start + view.getUint32(entry + 8, little);
+      view.setUint32(at, Math.round(dpi), little);
+      view.setUint32(at + 4, 1, little);
+      found++;
+    } else if (tag === TAG_RESOLUTION_UNIT && type === SHORT) {
+      view.setUint16(entry + 8, UNIT_INCH, little);
+    }
+  }
+  return found === 2;
+}
+
+function isTiff(bytes: Uint8Array): boolean {
+  return (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42) || (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[3] === 42);
+}
+
+// --- JPEG ---
+
+const SOI = 0xd8;
+const SOS = 0xda;
+const APP0 = 0xe0;
+const APP1 = 0xe1;
+
+interface JpegSegment {
+  marker: number;
+  start: number;     // offset of the 0xFF
+  end: number;       // offset after the segment
+}
+
+// Marker segments between SOI and the start of scan
+function jpegSegments(jpeg: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  for (let p = 2; p + 4 <= jpeg.length && jpeg[p] === 0xff;) {
+    const marker = jpeg[p + 1];
+    if (marker === SOS) break;
+    const end = p + 2 + ((jpeg[p + 2] << 8) | jpeg[p + 3]);
+    segments.push({ marker, start: p, end });
+    p = end;
+  }
+  return segments;
+}
+
+function hasPrefix(bytes: Uint8Array, at: number, prefix: string): boolean {
+  for (let i = 0; i < prefix.length; i++) if (bytes[at + i] !== prefix.charCodeAt(i)) return false;
+  return true;
+}
+
+export function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + payload.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+}
+
+function jfifSegment(dpi: number): Uint8Array {
+  const payload = new Uint8Array(14);
+  payload.set(ascii('JFIF\0'), 0);
+  payload.set([1, 2, 1], 5);   // version 1.02, units: dots per inch
+  new DataView(payload.buffer).setUint16(8, dpi);
+  new DataView(payload.buffer).setUint16(10, dpi);
+  return jpegSegment(APP0, payload);
+}
+
+interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array;   // big-endian
+}
+
+function exifAscii(tag: number, text: string): ExifEntry {
+  const value = concat([utf8.encode(text), new Uint8Array(1)]);
+  return { tag, type: ASCII, count: value.length, value };
+}
+
+function exifResolution(dpi: number): ExifEntry[] {
+  const rational = new Uint8Array(8);
+  new DataView(rational.buffer).setUint32(0, Math.round(dpi));
+  new DataView(rational.buffer).setUint32(4, 1);
+  return [
+    { tag: TAG_X_RESOLUTION, type: RATIONAL, count: 1, value: rational },
+    { tag: TAG_Y_RESOLUTION, type: RATIONAL, count: 1, value: rational },
+    { tag: TAG_RESOLUTION_UNIT, type: SHORT, count: 1, value: Uint8Array.of(0, UNIT_INCH) },
+  ];
+}
+
+// Minimal big-endian EXIF block with a single IFD; values over four bytes follow the IFD
+function exifSegment(entries: ExifEntry[]): Uint8Array {
+  entries = [...entries].sort((a, b) => a.tag - b.tag);
+  const ifdEnd = 8 + 2 + entries.length * 12 + 4;
+  const extra = entries.reduce((n, e) => n + (e.value.length > 4 ? e.value.length + (e.value.length & 1) : 0), 0);
+  const tiff = new Uint8Array(ifdEnd + extra);
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii('MM'), 0);
+  view.setUint16(2, 42);
+  view.setUint32(4, 8);
+  view.setUint16(8, entries.length);
+  let at = ifdEnd;
+  entries.forEach(({ tag, type, count, value }, i) => {
+    const p = 10 + i * 12;
+    view.setUint16(p, tag);
+    view.setUint16(p + 2, type);
+    view.setUint32(p + 4, count);
+    if (value.length <= 4) {
+      tiff.set(value, p + 8);
+    } else {
+      view.setUint32(p + 8, at);
+      tiff.set(value, at);
+      at += value.length + (value.length & 1);   // offsets stay word-aligned
+    }
+  });
+  return jpegSegment(APP1, concat([ascii('Exif\0\0'), tiff]));
+}
+
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+
+const xmlEscape = (s: string) => s.replace(/[&<>"]/g, c => `&#${c.charCodeAt(0)};`);
+const xmlUnescape = (s: string) => s.replace(/&(?:#(\d+)|#x([\da-f]+)|(amp|lt|gt|quot|apos));/gi, (_, dec, hex, name) =>
+  dec ? String.fromCodePoint(parseInt(dec, 10))
+    : hex ? String.fromCodePoint(parseInt(hex, 16))
+      : ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[name.toLowerCase()]);
+
+function xmpSegment(provenance: Provenance): Uint8Array {
+  const properties = provenanceFields(provenance)
+    .map(([key, value]) => `<${XMP_PREFIX}:${key}>${xmlEscape(value)}</${XMP_PREFIX}:${key}>`)
+    .join('');
+  const packet =
+    '<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">' +
+    `<rdf:Description rdf:about="" xmlns:${XMP_PREFIX}="${PROVENANCE_NAMESPACE}">${properties}</rdf:Description>` +
+    '</rdf:RDF></x:xmpmeta><?xpacket end="w"?>';
+  return jpegSegment(APP1, concat([ascii(XMP_SIGNATURE), utf8.encode(packet)]));
+}
+
+function xmpFields(jpeg: Uint8Array): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const xmp = jpegSegments(jpeg).find(s => s.marker === APP1 && hasPrefix(jpeg, s.start + 4, XMP_SIGNATURE));
+  if (!xmp) return fields;
+  const packet = utf8Decoder.decode(jpeg.subarray(xmp.start + 4 + XMP_SIGNATURE.length, xmp.end));
+  for (const key of PROVENANCE_KEYS) {
+    const match = packet.match(new RegExp(`<${XMP_PREFIX}:${key}>([^<]*)</${XMP_PREFIX}:${key}>`));
+    if (match) fields[key] = xmlUnescape(match[1]);
+  }
+  return fields;
+}
+
+function jpegWithTags(jpeg: Uint8Array, tags: FrameTags): Uint8Array {
+  const { dpi, provenance } = tags;
+  const out = jpeg.slice();
+  const segments = jpegSegments(out);
+  const headers: Uint8Array[] = [];
+
+  const jfif = segments.find(s => s.marker === APP0 && hasPrefix(out, s.start + 4, 'JFIF\0'));
+  if (dpi) {
+    // JFIF density is 16-bit
+    const density = Math.max(1, Math.min(0xffff, Math.round(dpi)));
+    if (jfif) {
+      out[jfif.start + 11] = 1;
+      new DataView(out.buffer).setUint16(jfif.start + 12, density);
+      new DataView(out.buffer).setUint16(jfif.start + 14, density);
+    } else {
+      headers.push(jfifSegment(density));
+    }
+  }
+
+  const exif = segments.find(s => s.marker === APP1 && hasPrefix(out, s.start + 4, 'Exif\0\0'));
+  if (exif) {
+    // An existing EXIF block is only patched: a block without resolution tags is left alone (JFIF
+    // still carries the density), and provenance goes in XMP
+    if (dpi) patchTiffResolution(out, exif.start + 10, dpi);
+  } else if (dpi || provenance) {
+    const entries = dpi ? exifResolution(dpi) : [];
+    if (provenance) {
+      entries.push(
+        exifAscii(TAG_DOCUMENT_NAME, provenance.source),
+        exifAscii(TAG_IMAGE_DESCRIPTION, `Frame ${provenance.frameIndex} of ${provenance.source} at ${provenance.timecode}`),
+        exifAscii(TAG_SOFTWARE, `${SOFTWARE} (${provenance.engine})`)
+      );
+    }
+    headers.push(exifSegment(entries));
+  }
+
+  // JFIF has to come first, then EXIF; XMP follows them and replaces any packet already there
+  const headerAt = jfif ? jfif.end : 2;
+  const edits: Array<{ start: number; end: number; insert: Uint8Array[] }> = [{ start: headerAt, end: headerAt, insert: headers }];
+  if (provenance) {
+    const xmpAt = exif ? exif.end : headerAt;
+    edits.push({ start: xmpAt, end: xmpAt, insert: [xmpSegment(provenance)] });
+    for (const segment of segments) {
+      if (segment.marker === APP1 && hasPrefix(out, segment.start + 4, XMP_SIGNATURE)) edits.push({ ...segment, insert: [] });
+    }
+  }
+  const parts: Uint8Array[] = [];
+  let p = 0;
+  for (const edit of edits.sort((x, y) => x.start - y.start)) {
+    parts.push(out.subarray(p, edit.start), ...edit.insert);
+    p = edit.end;
+  }
+  parts.push(out.subarray(p));
+  return concat(parts);
+}
+
+// --- BMP ---
+
+function bmpWithDpi(bmp: Uint8Array, dpi: number): Uint8Array {
+  const out = bmp.slice();
+  const view = new DataView(out.buffer);
+  const ppm = Math.round(dpi / INCH);
+  view.setInt32(38, ppm, true);
+  view.setInt32(42, ppm, true);
+  return out;
+}
+
+/**
+ * Record metadata in an encoded frame. PNG, JPEG, TIFF and BMP carry a print resolution; PNG and
+ * JPEG carry provenance. Anything a format cannot hold is skipped; other formats come back unchanged.
+ */
+export function withMetadata(bytes: Uint8Array, tags: FrameTags): Uint8Array {
+  const dpi = tags.dpi && tags.dpi > 0 ? tags.dpi : undefined;
+  if (!dpi && !tags.provenance) return bytes;
+  if (isPng(bytes)) return pngWithTags(bytes, { dpi, provenance: tags.provenance });
+  if (bytes[0] === 0xff && bytes[1] === SOI) return jpegWithTags(bytes, { dpi, provenance: tags.provenance });
+  if (!dpi) return bytes;
+  if (isTiff(bytes)) {
+    const out = bytes.slice();
+    patchTiffResolution(out, 0, dpi);
+    return out;
+  }
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) return bmpWithDpi(bytes, dpi);
+  return bytes;
+}
+
+/** Provenance written by withMetadata, read back from a PNG or JPEG frame; null when there is none. */
+export function readProvenance(bytes: Uint8Array): Provenance | null {
+  if (isPng(bytes)) return parseProvenance(pngTextFields(bytes));
+  if (bytes[0] === 0xff && bytes[1] === SOI) return parseProvenance(xmpFields(bytes));
+  return null;
+}
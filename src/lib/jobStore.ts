@@ -0,0 +1,189 @@
+// Job checkpoints
+// Long extractions are saved while they run so a paused or interrupted job can continue later: a job
+// record in IndexedDB plus every completed frame (or split-export part), keyed by a hash of the source.
+
+import type { ExtractedFrame, ExtractionSettings, PartReady, ResumePoint } from './types';
+import type { EngineId } from './frameSource';
+
+export interface JobRecord {
+  id: string;                     // fileIdentity() of the source
+  fileName: string;
+  fileSize: number;
+  settings: ExtractionSettings;   // as first started, without a resume point
+  engine: EngineId;
+  status: 'running' | 'paused';   // 'running' on load means the tab closed mid-job
+  savedFrames: number;            // frames covered by the checkpoint
+  savedParts: number;
+  lastTimestamp: number;          // ms, timestamp of the last saved frame
+  updatedAt: number;
+}
+
+export type SavedPart = Omit<PartReady, 'type' | 'zip'> & { blob: Blob };
+
+interface FrameRow {
+  jobId: string;
+  index: number;
+  filename: string;
+  timestamp: number;
+  blob: Blob;
+  originalSize?: number;
+}
+
+type PartRow = SavedPart & { jobId: string };
+
+const DB_NAME = 'frame-extractor-jobs';
+const DB_VERSION = 1;
+const JOBS = 'jobs';
+const FRAMES = 'frames';
+const PARTS = 'parts';
+
+// Bytes hashed from each end of the file; enough to tell sources apart without reading gigabytes
+const SAMPLE_BYTES = 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(JOBS, { keyPath: 'id' });
+        db.createObjectStore(FRAMES, { keyPath: ['jobId', 'index'] });
+        db.createObjectStore(PARTS, { keyPath: ['jobId', 'partIndex'] });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Run a transaction and resolve once it commits, with whatever the callback's last request returned
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const req = run(tx);
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Checkpoint transaction aborted'));
+  });
+}
+
+const jobRange = (jobId: string) => IDBKeyRange.bound([jobId, -Infinity], [jobId, Infinity]);
+
+/** Stable id for a source file: its name, size and date plus a hash of its first and last megabyte. */
+export async function fileIdentity(file: File): Promise<string> {
+  const meta = new TextEncoder().encode(`${file.name}|${file.size}|${file.lastModified}`);
+  const sample = new Blob([meta, file.slice(0, SAMPLE_BYTES), file.slice(Math.max(0, file.size - SAMPLE_BYTES))]);
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', await sample.arrayBuffer()));
+  return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function findJob(id: string): Promise<JobRecord | undefined> {
+  return transact<JobRecord | undefined>([JOBS], 'readonly', tx => tx.objectStore(JOBS).get(id));
+}
+
+/** Start a fresh record for this source, dropping anything saved by an earlier run. */
+export async function createJob(job: Omit<JobRecord, 'status' | 'savedFrames' | 'savedParts' | 'lastTimestamp' | 'updatedAt'>) {
+  const record: JobRecord = {
+    ...job,
+    settings: { ...job.settings, resume: undefined },
+    status: 'running',
+    savedFrames: 0,
+    savedParts: 0,
+    lastTimestamp: 0,
+    updatedAt: Date.now()
+  };
+  await transact([JOBS, FRAMES, PARTS], 'readwrite', tx => {
+    tx.objectStore(FRAMES).delete(jobRange(job.id));
+    tx.objectStore(PARTS).delete(jobRange(job.id));
+    tx.objectStore(JOBS).put(record);
+  });
+  return record;
+}
+
+/** Save one frame and move the checkpoint past it. */
+export async function saveFrame(job: JobRecord, frame: ExtractedFrame) {
+  const row: FrameRow = { jobId: job.id, index: frame.index, filename: frame.filename, timestamp: frame.timestamp, blob: frame.blob, originalSize: frame.originalSize };
+  job.savedFrames = frame.index + 1;
+  job.lastTimestamp = frame.timestamp;
+  job.updatedAt = Date.now();
+  await transact([JOBS, FRAMES], 'readwrite', tx => {
+    tx.objectStore(FRAMES).put(row);
+    tx.objectStore(JOBS).put(job);
+  });
+}
+
+/** Save a finished split-export part and move the checkpoint to its last frame. */
+export async function savePart(job: JobRecord, part: PartReady) {
+  const { type: _type, zip, ...info } = part;
+  const row: PartRow = { ...info, blob: zip, jobId: job.id };
+  job.savedFrames = part.endFrame + 1;
+  job.savedParts = part.partIndex;
+  job.lastTimestamp = part.endTimestamp ?? job.lastTimestamp;
+  job.updatedAt = Date.now();
+  await transact([JOBS, PARTS], 'readwrite', tx => {
+    tx.objectStore(PARTS).put(row);
+    tx.objectStore(JOBS).put(job);
+  });
+}
+
+/** Move the checkpoint back to a resume point (the start when there is none), dropping what was saved after it. */
+export async function rewindJob(job: JobRecord, resume?: ResumePoint) {
+  job.savedFrames = resume?.frameOffset ?? 0;
+  job.savedParts = resume?.partOffset ?? 0;
+  job.lastTimestamp = resume?.afterMs ?? 0;
+  job.updatedAt = Date.now();
+  await transact([JOBS, FRAMES, PARTS], 'readwrite', tx => {
+    tx.objectStore(FRAMES).delete(IDBKeyRange.bound([job.id, job.savedFrames], [job.id, Infinity]));
+    tx.objectStore(PARTS).delete(IDBKeyRange.bound([job.id, job.savedParts + 1], [job.id, Infinity]));
+    tx.objectStore(JOBS).put(job);
+  });
+}
+
+export async function setJobStatus(job: JobRecord, status: JobRecord['status']) {
+  job.status = status;
+  job.updatedAt = Date.now();
+  await transact([JOBS], 'readwrite', tx => { tx.objectStore(JOBS).put(job); });
+}
+
+/** Frames and parts saved so far, in order, ready to show and download again. */
+export async function loadJobOutput(job: JobRecord): Promise<{ frames: ExtractedFrame[]; parts: SavedPart[] }> {
+  const frameRows = await transact<FrameRow[]>([FRAMES], 'readonly', tx => tx.objectStore(FRAMES).getAll(jobRange(job.id)));
+  const partRows = await transact<PartRow[]>([PARTS], 'readonly', tx => tx.objectStore(PARTS).getAll(jobRange(job.id)));
+  return {
+    // Anything past the checkpoint belongs to a part that never closed; it will be extracted again
+    frames: frameRows
+      .filter(r => r.index < job.savedFrames)
+      .map(({ index, filename, timestamp, blob, originalSize }) => ({ index, filename, timestamp, blob, url: URL.createObjectURL(blob), originalSize })),
+    parts: partRows
+      .filter(r => r.partIndex <= job.savedParts)
+      .map(({ jobId: _jobId, ...part }) => part)
+  };
+}
+
+export async function deleteJob(id: string) {
+  await transact([JOBS, FRAMES, PARTS], 'readwrite', tx => {
+    tx.objectStore(FRAMES).delete(jobRange(id));
+    tx.objectStore(PARTS).delete(jobRange(id));
+    tx.objectStore(JOBS).delete(id);
+  });
+}
+
+/** Settings that continue this job after its checkpoint. */
+export function resumeSettings(job: JobRecord): ExtractionSettings {
+  if (!job.savedFrames) return { ...job.settings, resume: undefined };
+  const resume: ResumePoint = {
+    afterMs: job.lastTimestamp,
+    frameOffset: job.savedFrames,
+    partOffset: job.savedParts
+  };
+  return { ...job.settings, resume };
+}
@@ -0,0 +1,418 @@
+// ISO-BMFF (MP4/MOV) demuxer for the WebCodecs engine
+// Walks moov/trak/mdia/minf/stbl to build an exact sample table for the first video track.
+
+import type { ContainerProbe, VideoSample, VideoTrackInfo } from './types';
+import { avcCodecString, hevcCodecString, vp9CodecString, av1CodecString } from './codecString';
+import { matrixOrientation, type Orientation } from './orientation';
+
+export interface Mp4Demuxed {
+  track: VideoTrackInfo;
+  samples: VideoSample[];   // decode order
+}
+
+interface Box {
+  type: string;
+  start: number;            // offset of the box header within its parent buffer
+  dataStart: number;        // offset of the payload
+  end: number;
+}
+
+const fourcc = (bytes: Uint8Array, at: number) => String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+
+async function readBytes(file: Blob, offset: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+}
+
+// Enumerate child boxes of an in-memory buffer region
+function children(buf: Uint8Array, start: number, end: number): Box[] {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const boxes: Box[] = [];
+  let p = start;
+  while (p + 8 <= end) {
+    let size = view.getUint32(p);
+    const type = fourcc(buf, p + 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(p + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - p;
+    }
+    if (size < header || p + size > end) break;
+    boxes.push({ type, start: p, dataStart: p + header, end: p + size });
+    p += size;
+  }
+  return boxes;
+}
+
+const child = (buf: Uint8Array, parent: Box, type: string) =>
+  children(buf, parent.dataStart, parent.end).find(b => b.type === type);
+
+// Resolve a path such as 'mdia/minf/stbl' below a box
+function find(buf: Uint8Array, parent: Box, path: string): Box | undefined {
+  let cur: Box | undefined = parent;
+  for (const type of path.split('/')) {
+    if (!cur) return undefined;
+    cur = child(buf, cur, type);
+  }
+  return cur;
+}
+
+/** Locate a top-level box by reading only box headers from the file. */
+export async function findTopLevelBox(file: Blob, type: string): Promise<{ offset: number; size: number; header: number } | null> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const h = await readBytes(file, offset, 16);
+    const view = new DataView(h.buffer);
+    let size = view.getUint32(0);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(8));
+      header = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < header) return null;
+    if (fourcc(h, 4) === type) return { offset, size, header };
+    offset += size;
+  }
+  return null;
+}
+
+/** Read the whole moov box into memory; it only holds headers and tables. */
+export async function readMoov(file: Blob): Promise<{ buf: Uint8Array; moov: Box }> {
+  const loc = await findTopLevelBox(file, 'moov');
+  if (!loc) throw new Error('MP4 has no moov box');
+  const buf = await readBytes(file, loc.offset, loc.size);
+  return { buf, moov: { type: 'moov', start: 0, dataStart: loc.header, end: buf.byteLength } };
+}
+
+function fullBoxVersion(buf: Uint8Array, box: Box) {
+  return buf[box.dataStart];
+}
+
+// mdhd/mvhd share the same layout for timescale and duration
+export function readTimescaleAndDuration(buf: Uint8Array, box: Box): { timescale: number; duration: number } {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const p = box.dataStart;
+  if (fullBoxVersion(buf, box) === 1) {
+    return { timescale: view.getUint32(p + 20), duration: Number(view.getBigUint64(p + 24)) };
+  }
+  return { timescale: view.getUint32(p + 12), duration: view.getUint32(p + 16) };
+}
+
+function handlerType(buf: Uint8Array, trak: Box) {
+  const hdlr = find(buf, trak, 'mdia/hdlr');
+  return hdlr ? fourcc(buf, hdlr.dataStart + 8) : '';
+}
+
+/** First track whose handler is 'vide'. */
+export function findVideoTrak(buf: Uint8Array, moov: Box): Box | undefined {
+  return children(buf, moov.dataStart, moov.end).find(b => b.type === 'trak' && handlerType(buf, b) === 'vide');
+}
+
+/** Orientation from the track header's display matrix; null when missing or not a quarter turn. */
+export function trackOrientation(buf: Uint8Array, trak: Box): Orientation | null {
+  const tkhd = child(buf, trak, 'tkhd');
+  if (!tkhd) return null;
+  // Matrix follows the times, track id and duration (wider in version 1) and 16 bytes of layer/volume fields
+  const matrix = tkhd.dataStart + (fullBoxVersion(buf, tkhd) === 1 ? 36 : 24) + 16;
+  if (matrix + 36 > tkhd.end) return null;
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const fixed = (i: number) => view.getInt32(matrix + i * 4) / 65536;   // a, b, c, d are 16.16
+  return matrixOrientation(fixed(0), fixed(1), fixed(3), fixed(4));
+}
+
+interface SampleEntry {
+  codec: string;
+  width: number;
+  height: number;
+  description?: Uint8Array;
+}
+
+/** Parse the first visual sample entry of an stsd box. */
+export function parseVisualSampleEntry(buf: Uint8Array, stsd: Box): SampleEntry {
+  // full box header (4) + entry_count (4)
+  const entries = children(buf, stsd.dataStart + 8, stsd.end);
+  const entry = entries[0];
+  if (!entry) throw new Error('MP4 stsd has no sample entry');
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const width = view.getUint16(entry.dataStart + 24);
+  const height = view.getUint16(entry.dataStart + 26);
+  // VisualSampleEntry fields take 78 bytes before child boxes
+  const boxes = children(buf, entry.dataStart + 78, entry.end);
+  const payload = (type: string) => {
+    const b = boxes.find(x => x.type === type);
+    return b ? buf.slice(b.dataStart, b.end) : undefined;
+  };
+
+  const format = entry.type;
+  if (format === 'avc1' || format === 'avc3') {
+    const avcC = payload('avcC');
+    if (!avcC) throw new Error('H.264 track is missing its avcC box');
+    return { codec: avcCodecString(format, avcC), width, height, description: avcC };
+  }
+  if (format === 'hvc1' || format === 'hev1') {
+    const hvcC = payload('hvcC');
+    if (!hvcC) throw new Error('HEVC track is missing its hvcC box');
+    return { codec: hevcCodecString(format, hvcC), width, height, description: hvcC };
+  }
+  if (format === 'vp09') {
+    const vpcC = payload('vpcC');
+    return { codec: vpcC ? vp9CodecString(vpcC[4], vpcC[5], vpcC[6] >> 4) : 'vp09.00.10.08', width, height };
+  }
+  if (format === 'vp08') {
+    return { codec: 'vp8', width, height };
+  }
+  if (format === 'av01') {
+    const av1C = payload('av1C');
+    return { codec: av1C ? av1CodecString(av1C) : 'av01.0.04M.08', width, height, description: av1C };
+  }
+  throw new Error(`Unsupported MP4 video sample entry: ${format}`);
+}
+
+// --- Sample table ---------------------------------------------------------
+
+function readStts(view: DataView, box: Box): Array<[number, number]> {
+  const n = view.getUint32(box.dataStart + 4);
+  const out: Array<[number, number]> = [];
+  for (let i = 0, p = box.dataStart + 8; i < n; i++, p += 8) out.push([view.getUint32(p), view.getUint32(p + 4)]);
+  return out;
+}
+
+function readCtts(view: DataView, box: Box): Array<[number, number]> {
+  const signed = view.getUint8(box.dataStart) === 1;
+  const n = view.getUint32(box.dataStart + 4);
+  const out: Array<[number, number]> = [];
+  for (let i = 0, p = box.dataStart + 8; i < n; i++, p += 8) {
+    out.push([view.getUint32(p), signed ? view.getInt32(p + 4) : view.getUint32(p + 4)]);
+  }
+  return out;
+}
+
+function readStsc(view: DataView, box: Box): Array<[number, number]> {
+  const n = view.getUint32(box.dataStart + 4);
+  const out: Array<[number, number]> = [];
+  for (let i = 0, p = box.dataStart + 8; i < n; i++, p += 12) out.push([view.getUint32(p), view.getUint32(p + 4)]);
+  return out;
+}
+
+function readSampleSizes(buf: Uint8Array, view: DataView, stbl: Box): number[] {
+  const stsz = child(buf, stbl, 'stsz');
+  if (stsz) {
+    const fixed = view.getUint32(stsz.dataStart + 4);
+    const n = view.getUint32(stsz.dataStart + 8);
+    if (fixed) return new Array(n).fill(fixed);
+    const sizes = new Array<number>(n);
+    for (let i = 0, p = stsz.dataStart + 12; i < n; i++, p += 4) sizes[i] = view.getUint32(p);
+    return sizes;
+  }
+  const stz2 = child(buf, stbl, 'stz2');
+  if (!stz2) throw new Error('MP4 sample table has no stsz/stz2 box');
+  const fieldSize = view.getUint8(stz2.dataStart + 7);
+  const n = view.getUint32(stz2.dataStart + 8);
+  const sizes = new Array<number>(n);
+  const p0 = stz2.dataStart + 12;
+  for (let i = 0; i < n; i++) {
+    if (fieldSize === 16) sizes[i] = view.getUint16(p0 + i * 2);
+    else if (fieldSize === 8) sizes[i] = view.getUint8(p0 + i);
+    else sizes[i] = (view.getUint8(p0 + (i >> 1)) >> ((i & 1) ? 0 : 4)) & 0x0f;
+  }
+  return sizes;
+}
+
+function readChunkOffsets(buf: Uint8Array, view: DataView, stbl: Box): number[] {
+  const stco = child(buf, stbl, 'stco');
+  if (stco) {
+    const n = view.getUint32(stco.dataStart + 4);
+    const out = new Array<number>(n);
+    for (let i = 0, p = stco.dataStart + 8; i < n; i++, p += 4) out[i] = view.getUint32(p);
+    return out;
+  }
+  const co64 = child(buf, stbl, 'co64');
+  if (!co64) throw new Error('MP4 sample table has no stco/co64 box');
+  const n = view.getUint32(co64.dataStart + 4);
+  const out = new Array<number>(n);
+  for (let i = 0, p = co64.dataStart + 8; i < n; i++, p += 8) out[i] = Number(view.getBigUint64(p));
+  return out;
+}
+
+function readSyncSamples(buf: Uint8Array, view: DataView, stbl: Box): Set<number> | null {
+  const stss = child(buf, stbl, 'stss');
+  if (!stss) return null; // every sample is a sync sample
+  const n = view.getUint32(stss.dataStart + 4);
+  const out = new Set<number>();
+  for (let i = 0, p = stss.dataStart + 8; i < n; i++, p += 4) out.add(view.getUint32(p) - 1);
+  return out;
+}
+
+// Media time of the first non-empty edit, used to align composition times to zero
+function editMediaTime(buf: Uint8Array, view: DataView, trak: Box): number {
+  const elst = find(buf, trak, 'edts/elst');
+  if (!elst) return 0;
+  const v1 = view.getUint8(elst.dataStart) === 1;
+  const n = view.getUint32(elst.dataStart + 4);
+  let p = elst.dataStart + 8;
+  for (let i = 0; i < n; i++) {
+    const mediaTime = v1 ? Number(view.getBigInt64(p + 8)) : view.getInt32(p + 4);
+    if (mediaTime >= 0) return mediaTime;
+    p += v1 ? 20 : 12;
+  }
+  return 0;
+}
+
+/** Build the per-sample table (offset, size, sync flag, timestamps) for a video trak. */
+export function buildSampleTable(buf: Uint8Array, trak: Box, timescale: number): VideoSample[] {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const stbl = find(buf, trak, 'mdia/minf/stbl');
+  if (!stbl) throw new Error('MP4 video track has no stbl box');
+
+  const sttsBox = child(buf, stbl, 'stts');
+  const stscBox = child(buf, stbl, 'stsc');
+  if (!sttsBox || !stscBox) throw new Error('MP4 sample table is incomplete (stts/stsc)');
+  const stts = readStts(view, sttsBox);
+  const cttsBox = child(buf, stbl, 'ctts');
+  const ctts = cttsBox ? readCtts(view, cttsBox) : [];
+  const stsc = readStsc(view, stscBox);
+  const sizes = readSampleSizes(buf, view, stbl);
+  const chunkOffsets = readChunkOffsets(buf, view, stbl);
+  const sync = readSyncSamples(buf, view, stbl);
+  const shift = editMediaTime(buf, view, trak);
+  const toUs = (t: number) => Math.round((t * 1e6) / timescale);
+
+  const samples: VideoSample[] = new Array(sizes.length);
+
+  // Offsets: walk chunks using the stsc run table
+  let sampleIndex = 0;
+  for (let e = 0; e < stsc.length && sampleIndex < sizes.length; e++) {
+    const [firstChunk, perChunk] = stsc[e];
+    const lastChunk = e + 1 < stsc.length ? stsc[e + 1][0] - 1 : chunkOffsets.length;
+    for (let c = firstChunk; c <= lastChunk && sampleIndex < sizes.length; c++) {
+      let offset = chunkOffsets[c - 1];
+      for (let k = 0; k < perChunk && sampleIndex < sizes.length; k++) {
+        const size = sizes[sampleIndex];
+        samples[sampleIndex] = {
+          index: sampleIndex,
+          offset,
+          size,
+          isKey: sync ? sync.has(sampleIndex) : true,
+          dts: 0,
+          pts: 0,
+          duration: 0,
+        };
+        offset += size;
+        sampleIndex++;
+      }
+    }
+  }
+  if (sampleIndex < sizes.length) samples.length = sampleIndex;
+
+  // Timestamps: stts deltas give decode times, ctts offsets give composition times
+  let dts = 0;
+  let i = 0;
+  for (const [count, delta] of stts) {
+    for (let k = 0; k < count && i < samples.length; k++, i++) {
+      samples[i].dts = dts;
+      samples[i].duration = delta;
+      dts += delta;
+    }
+  }
+  let cttsRun = 0;
+  let cttsLeft = ctts.length ? ctts[0][0] : 0;
+  for (const s of samples) {
+    let offset = 0;
+    if (ctts.length) {
+      while (cttsLeft === 0 && cttsRun + 1 < ctts.length) cttsLeft = ctts[++cttsRun][0];
+      offset = ctts[cttsRun][1];
+      cttsLeft--;
+    }
+    const pts = s.dts + offset - shift;
+    s.pts = toUs(pts);
+    s.dts = toUs(s.dts - shift);
+    s.duration = toUs(s.duration);
+  }
+
+  return samples;
+}
+
+/** Demux the first video track of an MP4 into a WebCodecs-ready sample table. */
+export async function demuxMp4(file: Blob): Promise<Mp4Demuxed> {
+  const { buf, moov } = await readMoov(file);
+  const trak = findVideoTrak(buf, moov);
+  if (!trak) throw new Error('MP4 has no video track');
+
+  const mdhd = find(buf, trak, 'mdia/mdhd');
+  const stsd = find(buf, trak, 'mdia/minf/stbl/stsd');
+  if (!mdhd || !stsd) throw new Error('MP4 video track is missing mdhd/stsd');
+  const { timescale, duration } = readTimescaleAndDuration(buf, mdhd);
+  const entry = parseVisualSampleEntry(buf, stsd);
+
+  const samples = buildSampleTable(buf, trak, timescale);
+  if (!samples.length) {
+    const fragmented = !!child(buf, moov, 'mvex');
+    throw new Error(fragmented
+      ? 'Fragmented MP4 is not supported by the WebCodecs demuxer'
+      : 'MP4 video track has no samples');
+  }
+
+  return {
+    track: {
+      codec: entry.codec,
+      codedWidth: entry.width,
+      codedHeight: entry.height,
+      description: entry.description,
+      timescale,
+      duration: duration / timescale,
+      frameCount: samples.length,
+    },
+    samples,
+  };
+}
+
+// Constant-frame-rate streams have one dominant stts delta; otherwise fall back to the average
+function frameRateFromStts(stts: Array<[number, number]>, timescale: number, frameCount: number, durationSec: number) {
+  const dominant = stts.reduce((a, b) => (b[0] > a[0] ? b : a), [0, 0]);
+  if (dominant[1] && dominant[0] >= frameCount * 0.9) return timescale / dominant[1];
+  return durationSec > 0 ? frameCount / durationSec : undefined;
+}
+
+/** Read fps, codec, frame count and exact duration from the moov headers only. */
+export async function probeMp4(file: Blob): Promise<ContainerProbe> {
+  const { buf, moov } = await readMoov(file);
+  const trak = findVideoTrak(buf, moov);
+  if (!trak) throw new Error('MP4 has no video track');
+
+  const mdhd = find(buf, trak, 'mdia/mdhd');
+  const stbl = find(buf, trak, 'mdia/minf/stbl');
+  const stsd = stbl && child(buf, stbl, 'stsd');
+  const sttsBox = stbl && child(buf, stbl, 'stts');
+  if (!mdhd || !stsd || !sttsBox) throw new Error('MP4 video track is missing mdhd/stsd/stts');
+
+  const { timescale, duration } = readTimescaleAndDuration(buf, mdhd);
+  const stts = readStts(new DataView(buf.buffer, buf.byteOffset, buf.byteLength), sttsBox);
+  const frameCount = stts.reduce((n, [count]) => n + count, 0);
+  // Some muxers leave mdhd duration at zero; the sum of stts deltas is exact
+  const ticks = duration || stts.reduce((n, [count, delta]) => n + count * delta, 0);
+  const durationSec = timescale ? ticks / timescale : 0;
+
+  let entry: SampleEntry | undefined;
+  try {
+    entry = parseVisualSampleEntry(buf, stsd);
+  } catch {
+    entry = undefined;
+  }
+  const orientation = trackOrientation(buf, trak);
+
+  const fps = frameRateFromStts(stts, timescale, frameCount, durationSec);
+  return {
+    fps: fps ? Math.round(fps * 1000) / 1000 : undefined,
+    codec: entry?.codec,
+    frameCount,
+    duration: durationSec || undefined,
+    timescale,
+    width: entry?.width,
+    height: entry?.height,
+    rotation: orientation?.rotate || undefined,
+    mirrored: orientation?.mirror || undefined,
+  };
+}
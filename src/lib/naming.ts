@@ -0,0 +1,129 @@
+// Frame filename templates
+// One implementation of settings.naming shared by every engine, the worker pool and the ZIP
+// download, so a pattern previewed in the settings is exactly what ends up in the archive.
+
+import type { ExtractionSettings } from './types';
+import { DEFAULT_SETTINGS } from './types';
+import { partNumber } from './splitExport';
+
+export const NAMING_TOKENS: { token: string; description: string }[] = [
+  { token: '{basename}', description: 'Source file name without extension' },
+  { token: '{frame}', description: 'Frame number from 1, padded' },
+  { token: '{frame0}', description: 'Frame number from 0, padded' },
+  { token: '{timestamp_ms}', description: 'Presentation time in milliseconds' },
+  { token: '{timecode}', description: 'Presentation time as HH-MM-SS-FF (or -mmm without a frame rate)' },
+  { token: '{width}', description: 'Output width in pixels' },
+  { token: '{height}', description: 'Output height in pixels' },
+  { token: '{engine}', description: 'Engine that extracted the frame' },
+  { token: '{part}', description: 'Split-export part number, padded to 3 digits' },
+];
+
+// Tokens that change from one frame to the next; without one every frame gets the same name
+const PER_FRAME_TOKENS = ['{frame}', '{frame0}', '{timestamp_ms}', '{timecode}'];
+// Reserved on Windows, macOS or inside ZIP entry names (folders are not supported), plus control characters
+const ILLEGAL_CHARS = /[<>:"/\\|?*]/;
+const isIllegal = (c: string) => ILLEGAL_CHARS.test(c) || c.charCodeAt(0) < 0x20;
+const MAX_NAME_LENGTH = 200;
+
+export interface NamingContext {
+  basename: string;
+  engine: string;
+  ext: string;         // without the dot
+  fps?: number;        // for {timecode}
+}
+
+export interface FrameNameFields {
+  index: number;       // 0-based global frame index
+  timestampMs: number;
+  width: number;       // output size
+  height: number;
+}
+
+/** Replace characters that are not allowed in file names. */
+export function sanitizeFilename(name: string): string {
+  return Array.from(name, c => (isIllegal(c) ? '_' : c)).join('').replace(/^[\s.]+|[\s.]+$/g, '') || 'frame';
+}
+
+/** HH-MM-SS-FF with a frame rate, HH-MM-SS-mmm without one (colons are not allowed in file names). */
+export function formatTimecode(ms: number, fps?: number): string {
+  const totalSec = Math.floor(Math.max(0, ms) / 1000);
+  const hh = String(Math.floor(totalSec / 3600)).padStart(2, '0');
+  const mm = String(Math.floor((totalSec % 3600) / 60)).padStart(2, '0');
+  const ss = String(totalSec % 60).padStart(2, '0');
+  const rest = Math.max(0, ms) - totalSec * 1000;
+  const tail = fps && fps > 0
+    ? String(Math.min(Math.ceil(fps) - 1, Math.floor((rest / 1000) * fps))).padStart(2, '0')
+    : String(Math.floor(rest)).padStart(3, '0');
+  return `${hh}-${mm}-${ss}-${tail}`;
+}
+
+/** Problems with a pattern, as messages for the settings panel; empty when it is usable. */
+export function validateNamingPattern(pattern: string): string[] {
+  const problems: string[] = [];
+  if (!pattern.trim()) return ['Pattern is empty'];
+  const known = new Set(NAMING_TOKENS.map(t => t.token));
+  const unknown = (pattern.match(/\{[^}]*\}/g) || []).filter(t => !known.has(t));
+  if (unknown.length) problems.push(`Unknown token${unknown.length > 1 ? 's' : ''}: ${[...new Set(unknown)].join(' ')}`);
+  const illegal = Array.from(pattern.replace(/\{[^}]*\}/g, '')).filter(isIllegal);
+  if (illegal.length) problems.push(`Characters not allowed in file names: ${[...new Set(illegal)].map(c => JSON.stringify(c)).join(' ')}`);
+  if (!PER_FRAME_TOKENS.some(t => pattern.includes(t))) {
+    problems.push('Add {frame}, {frame0}, {timestamp_ms} or {timecode}, otherwise every frame gets the same name');
+  }
+  return problems;
+}
+
+function renderPattern(settings: ExtractionSettings, ctx: NamingContext, f: FrameNameFields): string {
+  const pattern = settings.naming?.pattern?.trim() || DEFAULT_SETTINGS.naming.pattern;
+  const pad = Math.max(1, Math.min(10, settings.naming?.padLength || DEFAULT_SETTINGS.naming.padLength));
+  const values: Record<string, string> = {
+    '{basename}': ctx.basename,
+    '{frame}': String(f.index + 1).padStart(pad, '0'),
+    '{frame0}': String(f.index).padStart(pad, '0'),
+    '{timestamp_ms}': String(Math.round(f.timestampMs)),
+    '{timecode}': formatTimecode(f.timestampMs, ctx.fps),
+    '{width}': String(f.width),
+    '{height}': String(f.height),
+    '{engine}': ctx.engine,
+    '{part}': String(partNumber(settings, f.index)).padStart(3, '0'),
+  };
+  const stem = pattern.replace(/\{[^}]*\}/g, token => values[token] ?? token);
+  return `${sanitizeFilename(stem).slice(0, MAX_NAME_LENGTH)}.${ctx.ext}`;
+}
+
+/** Name for a single frame, without duplicate tracking; used for previews. */
+export function frameFilename(settings: ExtractionSettings, ctx: NamingContext, fields: FrameNameFields): string {
+  return renderPattern(settings, ctx, fields);
+}
+
+/** Adds `_2`, `_3`, ... to names already handed out, so archive entries never collide. */
+export class UniqueNames {
+  private used = new Set<string>();
+
+  claim(name: string): string {
+    let unique = name;
+    if (this.used.has(unique)) {
+      const dot = name.lastIndexOf('.');
+      const stem = dot > 0 ? name.slice(0, dot) : name;
+      const ext = dot > 0 ? name.slice(dot) : '';
+      for (let n = 2; this.used.has(unique); n++) unique = `${stem}_${n}${ext}`;
+    }
+    this.used.add(unique);
+    return unique;
+  }
+}
+
+/** Names the frames of one extraction run from the naming settings, never repeating a name. */
+export class FrameNamer {
+  private names = new UniqueNames();
+
+  constructor(private settings: ExtractionSettings, private ctx: NamingContext) {}
+
+  name(fields: FrameNameFields): string {
+    return this.names.claim(renderPattern(this.settings, this.ctx, fields));
+  }
+}
+
+/** Source file name without its extension, as used for {basename}. */
+export function fileBasename(name: string): string {
+  return name.replace(/\.[^/.]+$/, '');
+}
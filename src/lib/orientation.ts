@@ -0,0 +1,115 @@
+// Frame orientation
+// Container rotation (MP4 display matrix, WebM projection roll) and the manual rotate / flip settings,
+// reduced to one quarter-turn plus an optional mirror that FFmpeg and the canvas engines both apply
+// before cropping and scaling.
+
+import type { ExtractionSettings, FileMetadata, OrientationSettings, QuarterTurn } from './types';
+
+// Rotate clockwise by `rotate`, then mirror left-to-right when `mirror` is set. Any mix of quarter
+// turns and flips comes down to this form (a vertical flip is a mirror after a half turn).
+export interface Orientation {
+  rotate: QuarterTurn;
+  mirror: boolean;
+}
+
+export const IDENTITY: Orientation = { rotate: 0, mirror: false };
+
+/** Snap an angle in degrees (clockwise, any range) to the nearest quarter turn. */
+export function quarterTurn(degrees: number): QuarterTurn {
+  const q = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  return (q * 90) as QuarterTurn;
+}
+
+export const isIdentity = (o: Orientation) => o.rotate === 0 && !o.mirror;
+
+/** `first`, then `then`. */
+export function composeOrientation(first: Orientation, then: Orientation): Orientation {
+  // Mirroring reverses the direction of any rotation applied after it
+  return {
+    rotate: quarterTurn(first.rotate + (first.mirror ? -then.rotate : then.rotate)),
+    mirror: first.mirror !== then.mirror
+  };
+}
+
+/** The container's display orientation recorded in the metadata. */
+export function containerOrientation(metadata?: FileMetadata): Orientation {
+  return { rotate: metadata?.rotation ?? 0, mirror: !!metadata?.mirrored };
+}
+
+/** The manual rotate / flip settings: rotate, then flip horizontally, then vertically. */
+export function manualOrientation(settings?: OrientationSettings): Orientation {
+  if (!settings) return IDENTITY;
+  return {
+    rotate: quarterTurn(settings.rotate + (settings.flipV ? 180 : 0)),
+    mirror: settings.flipH !== settings.flipV
+  };
+}
+
+/**
+ * What a frame still needs: the container orientation the decoder has not applied (the WebCodecs
+ * and FFmpeg engines see coded frames) followed by the manual settings.
+ */
+export function frameOrientation(settings: ExtractionSettings, container: Orientation = IDENTITY): Orientation {
+  return composeOrientation(container, manualOrientation(settings.orientation));
+}
+
+/** Size of a width × height frame once oriented. */
+export function orientedDims(o: Orientation, width: number, height: number) {
+  return o.rotate === 90 || o.rotate === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Frame size after the manual settings, for a source whose width and height already include the
+ * container rotation (as FileMetadata and the browser's video element report them). Crop
+ * rectangles are in this frame.
+ */
+export function orientedSize(settings: ExtractionSettings, width: number, height: number) {
+  return orientedDims(manualOrientation(settings.orientation), width, height);
+}
+
+/** Draw a frame onto a fresh canvas, oriented. */
+export function drawOriented(source: CanvasImageSource, width: number, height: number, o: Orientation): OffscreenCanvas {
+  const size = orientedDims(o, width, height);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  // Transforms apply last-first: rotate about the centre, then mirror
+  ctx.translate(size.width / 2, size.height / 2);
+  if (o.mirror) ctx.scale(-1, 1);
+  ctx.rotate((o.rotate * Math.PI) / 180);
+  ctx.drawImage(source, -width / 2, -height / 2, width, height);
+  return canvas;
+}
+
+/** FFmpeg filters (transpose, hflip, vflip) for an orientation; empty for none. */
+export function ffmpegOrientFilters(o: Orientation): string[] {
+  const mirror = o.mirror ? ['hflip'] : [];
+  switch (o.rotate) {
+    case 90:
+      return ['transpose=clock', ...mirror];
+    case 180:
+      // A half turn and a mirror is just a vertical flip
+      return o.mirror ? ['vflip'] : ['hflip', 'vflip'];
+    case 270:
+      return ['transpose=cclock', ...mirror];
+    default:
+      return mirror;
+  }
+}
+
+/** CSS transform showing an element's content with the manual settings applied. */
+export function cssOrientation(settings?: OrientationSettings): string {
+  const o = manualOrientation(settings);
+  // CSS applies right-to-left too, matching drawOriented
+  return `${o.mirror ? 'scaleX(-1) ' : ''}rotate(${o.rotate}deg)`;
+}
+
+/** Orientation from a 2×2 display matrix (a b / c d, as in an MP4 tkhd); null when it is not a quarter turn. */
+export function matrixOrientation(a: number, b: number, c: number, d: number): Orientation | null {
+  const mirror = a * d - b * c < 0;
+  // Undo the mirror to read the rotation; x' = a·x + c·y, y' = b·x + d·y with y pointing down
+  const degrees = (Math.atan2(b, mirror ? -a : a) * 180) / Math.PI;
+  const rotate = quarterTurn(degrees);
+  if (Math.abs(((degrees - rotate + 540) % 360) - 180) > 1) return null;
+  return { rotate, mirror };
+}
@@ -0,0 +1,71 @@
+// Output formats
+// What each frame format is called, how it is stored, and which ones the engines can actually write.
+// Canvas engines depend on the browser's encoders (checked at runtime) plus the TIFF / BMP writers;
+// FFmpeg depends on the encoders compiled into the bundled core.
+
+import type { ExtractionSettings, OutputFormatType } from './types';
+
+export interface OutputFormatInfo {
+  type: OutputFormatType;
+  label: string;
+  ext: string;
+  mime: string;
+  quality: boolean;          // takes the quality slider
+  lossless: boolean;         // has a lossless switch
+  dpi: boolean;              // can record a print resolution
+  provenance: boolean;       // can carry provenance metadata (PNG text chunks, JPEG XMP / EXIF)
+  hint: string;
+}
+
+export const OUTPUT_FORMATS: OutputFormatInfo[] = [
+  { type: 'png', label: 'PNG (Lossless)', ext: 'png', mime: 'image/png', quality: false, lossless: false, dpi: true, provenance: true,
+    hint: 'PNG: Best for graphics, text, transparency. Larger files.' },
+  { type: 'jpeg', label: 'JPEG (Compressed)', ext: 'jpg', mime: 'image/jpeg', quality: true, lossless: false, dpi: true, provenance: true,
+    hint: 'JPEG: Best for photos. Smaller files, no transparency.' },
+  { type: 'png-compressed', label: 'PNG (Compressed)', ext: 'png', mime: 'image/png', quality: false, lossless: false, dpi: true, provenance: true,
+    hint: 'PNG Compressed: 8-bit palette of up to 256 colours at full size. Great for graphics, pixel art and NFTs; dither smooths photo gradients.' },
+  { type: 'webp', label: 'WebP', ext: 'webp', mime: 'image/webp', quality: true, lossless: true, dpi: false, provenance: false,
+    hint: 'WebP: Smaller than JPEG and PNG at the same quality, keeps transparency. Lossy or lossless.' },
+  { type: 'avif', label: 'AVIF', ext: 'avif', mime: 'image/avif', quality: true, lossless: false, dpi: false, provenance: false,
+    hint: 'AVIF: Smallest files for photos on the web; slow to encode.' },
+  { type: 'tiff', label: 'TIFF (Uncompressed)', ext: 'tif', mime: 'image/tiff', quality: false, lossless: false, dpi: true, provenance: false,
+    hint: 'TIFF: Uncompressed 8-bit RGB for print and editing. Very large files.' },
+  { type: 'bmp', label: 'BMP (Uncompressed)', ext: 'bmp', mime: 'image/bmp', quality: false, lossless: false, dpi: true, provenance: false,
+    hint: 'BMP: Uncompressed bitmap for legacy tools. Very large files.' },
+];
+
+export function formatInfo(type: OutputFormatType | undefined): OutputFormatInfo {
+  return OUTPUT_FORMATS.find(f => f.type === type) ?? OUTPUT_FORMATS[0];
+}
+
+export function settingsFormat(settings: ExtractionSettings): OutputFormatInfo {
+  return formatInfo(settings.outputFormat?.type);
+}
+
+// Formats with their own writer in rasterWriter.ts
+export const WRITTEN_FORMATS: OutputFormatType[] = ['tiff', 'bmp'];
+
+// Encoders in the bundled ffmpeg-core build (png, mjpeg, libwebp, tiff, bmp); it has no AV1 encoder
+export const FFMPEG_FORMATS: OutputFormatType[] = ['png', 'jpeg', 'png-compressed', 'webp', 'tiff', 'bmp'];
+
+const canvasSupport = new Map<string, Promise<boolean>>();
+
+/** Whether this browser's canvas can encode `mime`; unsupported types silently come back as PNG. */
+export function canvasEncodes(mime: string): Promise<boolean> {
+  let known = canvasSupport.get(mime);
+  if (!known) {
+    known = new OffscreenCanvas(2, 2)
+      .convertToBlob({ type: mime })
+      .then(blob => blob.type === mime, () => false);
+    canvasSupport.set(mime, known);
+  }
+  return known;
+}
+
+/** Formats a canvas-based engine can write in this browser. */
+export async function canvasFormats(): Promise<OutputFormatType[]> {
+  const checks = await Promise.all(OUTPUT_FORMATS.map(async f =>
+    WRITTEN_FORMATS.includes(f.type) || f.mime === 'image/png' || f.mime === 'image/jpeg' || await canvasEncodes(f.mime)
+  ));
+  return OUTPUT_FORMATS.filter((_, i) => checks[i]).map(f => f.type);
+}
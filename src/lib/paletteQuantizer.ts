@@ -0,0 +1,256 @@
+// Palette quantisation for indexed PNG output
+// Median cut over a reduced-precision colour histogram, refined with a few k-means passes; pixels are
+// then mapped to their nearest palette entry, optionally with Floyd–Steinberg dithering. Images that
+// already use few enough colours keep them exactly.
+
+export interface QuantizeOptions {
+  colors?: number;     // palette size, 2–256; 256 when not given
+  dither?: boolean;    // Floyd–Steinberg error diffusion
+}
+
+export interface IndexedImage {
+  width: number;
+  height: number;
+  palette: Uint8Array;   // RGBA, four bytes per entry
+  indices: Uint8Array;   // one palette index per pixel
+}
+
+const MAX_COLORS = 256;
+const KMEANS_PASSES = 3;
+
+// Histogram bins: 5 bits each of red, green and blue, 3 bits of alpha
+const BINS = 1 << 18;
+const binOf = (r: number, g: number, b: number, a: number) => ((a >> 5) << 15) | ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+// Alpha differences count double; a wrong edge opacity shows more than a slightly wrong hue
+function distance(palette: Float64Array, i: number, r: number, g: number, b: number, a: number): number {
+  const dr = palette[i * 4] - r;
+  const dg = palette[i * 4 + 1] - g;
+  const db = palette[i * 4 + 2] - b;
+  const da = palette[i * 4 + 3] - a;
+  return dr * dr + dg * dg + db * db + 2 * da * da;
+}
+
+function nearestEntry(palette: Float64Array, size: number, r: number, g: number, b: number, a: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < size; i++) {
+    const d = distance(palette, i, r, g, b, a);
+    if (d < bestDist) { bestDist = d; best = i; }
+  }
+  return best;
+}
+
+// The image's own colours when there are no more than `limit` of them
+function exactPalette(image: ImageData, limit: number): IndexedImage | null {
+  const { width, height, data } = image;
+  const seen = new Map<number, number>();
+  const indices = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    const a = data[p + 3];
+    // Fully transparent pixels are all the same colour, whatever their RGB says
+    const r = a && data[p], g = a && data[p + 1], b = a && data[p + 2];
+    const key = ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+    let index = seen.get(key);
+    if (index === undefined) {
+      if (seen.size === limit) return null;
+      index = seen.size;
+      seen.set(key, index);
+    }
+    indices[i] = index;
+  }
+  const palette = new Uint8Array(seen.size * 4);
+  for (const [key, index] of seen) {
+    palette[index * 4] = key >>> 24;
+    palette[index * 4 + 1] = (key >>> 16) & 0xff;
+    palette[index * 4 + 2] = (key >>> 8) & 0xff;
+    palette[index * 4 + 3] = key & 0xff;
+  }
+  return { width, height, palette, indices };
+}
+
+interface Histogram {
+  bins: Int32Array;       // occupied bin ids
+  counts: Float64Array;   // pixels per occupied bin
+  colors: Float64Array;   // mean RGBA per occupied bin
+}
+
+function histogram(data: Uint8ClampedArray): Histogram {
+  const counts = new Uint32Array(BINS);
+  const sums = new Float64Array(BINS * 4);
+  for (let p = 0; p < data.length; p += 4) {
+    const a = data[p + 3];
+    const r = a && data[p], g = a && data[p + 1], b = a && data[p + 2];
+    const bin = binOf(r, g, b, a);
+    counts[bin]++;
+    sums[bin * 4] += r;
+    sums[bin * 4 + 1] += g;
+    sums[bin * 4 + 2] += b;
+    sums[bin * 4 + 3] += a;
+  }
+  let occupied = 0;
+  for (let bin = 0; bin < BINS; bin++) if (counts[bin]) occupied++;
+  const bins = new Int32Array(occupied);
+  const binCounts = new Float64Array(occupied);
+  const colors = new Float64Array(occupied * 4);
+  for (let bin = 0, i = 0; bin < BINS; bin++) {
+    const n = counts[bin];
+    if (!n) continue;
+    bins[i] = bin;
+    binCounts[i] = n;
+    for (let c = 0; c < 4; c++) colors[i * 4 + c] = sums[bin * 4 + c] / n;
+    i++;
+  }
+  return { bins, counts: binCounts, colors };
+}
+
+interface Box {
+  start: number;     // range in the order array
+  end: number;
+  count: number;
+  channel: number;   // widest channel
+  range: number;     // its extent
+}
+
+function makeBox(order: Int32Array, start: number, end: number, hist: Histogram): Box {
+  const min = [255, 255, 255, 255];
+  const max = [0, 0, 0, 0];
+  let count = 0;
+  for (let k = start; k < end; k++) {
+    const i = order[k];
+    count += hist.counts[i];
+    for (let c = 0; c < 4; c++) {
+      const v = hist.colors[i * 4 + c];
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  }
+  let channel = 0;
+  let range = -1;
+  for (let c = 0; c < 4; c++) {
+    // Match the distance weighting: alpha spreads count for more
+    const extent = (max[c] - min[c]) * (c === 3 ? 1.4 : 1);
+    if (extent > range) { range = extent; channel = c; }
+  }
+  return { start, end, count, channel, range };
+}
+
+// Split boxes at their weighted median until there are enough of them, largest first
+function medianCut(hist: Histogram, colors: number): Float64Array {
+  const order = Int32Array.from(hist.counts.keys());
+  const boxes: Box[] = [makeBox(order, 0, order.length, hist)];
+  while (boxes.length < colors) {
+    let pick = -1;
+    let best = 0;
+    boxes.forEach((box, i) => {
+      const score = box.end - box.start > 1 ? box.range * Math.sqrt(box.count) : 0;
+      if (score > best) { best = score; pick = i; }
+    });
+    if (pick < 0) break;
+    const box = boxes[pick];
+    const slice = order.subarray(box.start, box.end);
+    slice.sort((x, y) => hist.colors[x * 4 + box.channel] - hist.colors[y * 4 + box.channel]);
+    let seen = 0;
+    let split = box.start + 1;
+    for (let k = box.start; k < box.end - 1; k++) {
+      seen += hist.counts[order[k]];
+      split = k + 1;
+      if (seen >= box.count / 2) break;
+    }
+    boxes.splice(pick, 1, makeBox(order, box.start, split, hist), makeBox(order, split, box.end, hist));
+  }
+
+  const palette = new Float64Array(boxes.length * 4);
+  boxes.forEach((box, j) => {
+    for (let k = box.start; k < box.end; k++) {
+      const i = order[k];
+      for (let c = 0; c < 4; c++) palette[j * 4 + c] += hist.colors[i * 4 + c] * hist.counts[i];
+    }
+    for (let c = 0; c < 4; c++) palette[j * 4 + c] /= box.count;
+  });
+  return palette;
+}
+
+// Lloyd's k-means over the histogram, seeded with the median-cut palette
+function refine(hist: Histogram, palette: Float64Array): Float64Array {
+  const size = palette.length / 4;
+  for (let pass = 0; pass < KMEANS_PASSES; pass++) {
+    const sums = new Float64Array(size * 4);
+    const weights = new Float64Array(size);
+    for (let i = 0; i < hist.counts.length; i++) {
+      const c = hist.colors.subarray(i * 4, i * 4 + 4);
+      const j = nearestEntry(palette, size, c[0], c[1], c[2], c[3]);
+      weights[j] += hist.counts[i];
+      for (let k = 0; k < 4; k++) sums[j * 4 + k] += c[k] * hist.counts[i];
+    }
+    // An entry that lost all its pixels keeps its old colour
+    for (let j = 0; j < size; j++) {
+      if (!weights[j]) continue;
+      for (let k = 0; k < 4; k++) palette[j * 4 + k] = sums[j * 4 + k] / weights[j];
+    }
+  }
+  return palette;
+}
+
+/** Reduce an image to at most `colors` palette entries. */
+export function quantize(image: ImageData, options: QuantizeOptions = {}): IndexedImage {
+  const colors = Math.max(2, Math.min(MAX_COLORS, Math.round(options.colors ?? MAX_COLORS)));
+  const exact = exactPalette(image, colors);
+  if (exact) return exact;
+
+  const { width, height, data } = image;
+  const hist = histogram(data);
+  const palette = refine(hist, medianCut(hist, colors));
+  const size = palette.length / 4;
+
+  // Nearest entry per histogram bin, filled in as bins come up
+  const cache = new Int16Array(BINS).fill(-1);
+  const lookup = (r: number, g: number, b: number, a: number) => {
+    const bin = binOf(r, g, b, a);
+    let j = cache[bin];
+    if (j < 0) j = cache[bin] = nearestEntry(palette, size, r, g, b, a);
+    return j;
+  };
+
+  const indices = new Uint8Array(width * height);
+  if (!options.dither) {
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      const a = data[p + 3];
+      indices[i] = a ? lookup(data[p], data[p + 1], data[p + 2], a) : lookup(0, 0, 0, 0);
+    }
+  } else {
+    // Two rows of carried error, padded by a pixel each side
+    let current = new Float32Array((width + 2) * 4);
+    let next = new Float32Array((width + 2) * 4);
+    // The pixel plus its carried error, reused so the inner loop allocates nothing
+    const pixel = new Uint8ClampedArray(4);
+    for (let y = 0; y < height; y++) {
+      next.fill(0);
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const p = i * 4;
+        // Transparent pixels stay transparent and neither take nor pass on error
+        if (data[p + 3] === 0) {
+          indices[i] = lookup(0, 0, 0, 0);
+          continue;
+        }
+        const e = (x + 1) * 4;
+        for (let c = 0; c < 4; c++) pixel[c] = Math.max(0, Math.min(255, Math.round(data[p + c] + current[e + c])));
+        const j = lookup(pixel[0], pixel[1], pixel[2], pixel[3]);
+        indices[i] = j;
+        for (let c = 0; c < 4; c++) {
+          const err = pixel[c] - palette[j * 4 + c];
+          current[e + 4 + c] += (err * 7) / 16;
+          next[e - 4 + c] += (err * 3) / 16;
+          next[e + c] += (err * 5) / 16;
+          next[e + 4 + c] += err / 16;
+        }
+      }
+      [current, next] = [next, current];
+    }
+  }
+
+  const out = new Uint8Array(size * 4);
+  for (let k = 0; k < out.length; k++) out[k] = Math.round(palette[k]);
+  return { width, height, palette: out, indices };
+}
@@ -0,0 +1,234 @@
+// Compressed PNG output
+// Quantises a frame to an indexed palette and writes the smallest PNG it can: unused entries dropped,
+// translucent entries first so tRNS stays short, the lowest bit depth the palette allows, and every
+// scanline filter strategy deflated to keep whichever comes out smallest.
+
+import { crc32 } from './crc32';
+import { quantize, type IndexedImage, type QuantizeOptions } from './paletteQuantizer';
+
+export type PngCompressOptions = QuantizeOptions;
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_INDEXED = 3;
+
+// Filter strategies tried per image: the five PNG filters on every row, then adaptive per-row choice
+const FILTERS = [0, 1, 2, 3, 4] as const;
+const ADAPTIVE = 5;
+
+// Large images compare strategies on bands of rows rather than deflating the whole image six times
+const TRIAL_BYTES = 256 * 1024;
+const BAND_ROWS = 16;
+const BAND_EVERY = 128;
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') throw new Error('This browser cannot deflate PNG data');
+  // 'deflate' is the zlib format IDAT expects
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Drop unused entries and order the rest translucent-first, then by brightness so neighbouring
+// indices tend to hold similar colours
+function tidyPalette(image: IndexedImage): IndexedImage {
+  const size = image.palette.length / 4;
+  const used = new Uint8Array(size);
+  for (const i of image.indices) used[i] = 1;
+  const p = image.palette;
+  const luma = (i: number) => 0.299 * p[i * 4] + 0.587 * p[i * 4 + 1] + 0.114 * p[i * 4 + 2];
+  const order = Array.from({ length: size }, (_, i) => i)
+    .filter(i => used[i])
+    .sort((x, y) => (p[x * 4 + 3] === 255 ? 1 : 0) - (p[y * 4 + 3] === 255 ? 1 : 0) || luma(x) - luma(y));
+
+  const remap = new Uint8Array(size);
+  const palette = new Uint8Array(order.length * 4);
+  order.forEach((old, i) => {
+    remap[old] = i;
+    palette.set(p.subarray(old * 4, old * 4 + 4), i * 4);
+  });
+  const indices = image.indices.map(i => remap[i]);
+  return { ...image, palette, indices };
+}
+
+function bitDepth(colors: number): number {
+  return colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+}
+
+// Scanlines at the given bit depth, leftmost pixel in the high bits
+function packRows(image: IndexedImage, depth: number): { rows: Uint8Array; stride: number } {
+  const { width, height, indices } = image;
+  const stride = Math.ceil((width * depth) / 8);
+  const rows = new Uint8Array(stride * height);
+  if (depth === 8) {
+    rows.set(indices);
+    return { rows, stride };
+  }
+  const perByte = 8 / depth;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shift = 8 - depth * ((x % perByte) + 1);
+      rows[y * stride + Math.floor(x / perByte)] |= indices[y * width + x] << shift;
+    }
+  }
+  return { rows, stride };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// Filter one row into out[o + 1 ...] with out[o] holding the filter type; indexed pixels are one byte apart
+function filterRow(type: number, rows: Uint8Array, y: number, stride: number, out: Uint8Array, o: number) {
+  const cur = y * stride;
+  const prev = cur - stride;
+  const d = o + 1;
+  out[o] = type;
+  if (type === 0) {
+    out.set(rows.subarray(cur, cur + stride), d);
+    return;
+  }
+  // The first row has no row above; filters then read zeros there
+  const up = (x: number) => (y > 0 ? rows[prev + x] : 0);
+  switch (type) {
+    case 1:
+      out[d] = rows[cur];
+      for (let x = 1; x < stride; x++) out[d + x] = rows[cur + x] - rows[cur + x - 1];
+      break;
+    case 2:
+      for (let x = 0; x < stride; x++) out[d + x] = rows[cur + x] - up(x);
+      break;
+    case 3:
+      out[d] = rows[cur] - (up(0) >> 1);
+      for (let x = 1; x < stride; x++) out[d + x] = rows[cur + x] - ((rows[cur + x - 1] + up(x)) >> 1);
+      break;
+    case 4:
+      out[d] = rows[cur] - up(0);
+      for (let x = 1; x < stride; x++) out[d + x] = rows[cur + x] - paeth(rows[cur + x - 1], up(x), up(x - 1));
+      break;
+  }
+}
+
+function filterImage(strategy: number, rows: Uint8Array, stride: number, height: number): Uint8Array {
+  const out = new Uint8Array((stride + 1) * height);
+  const scratch = new Uint8Array(stride + 1);
+  for (let y = 0; y < height; y++) {
+    const o = y * (stride + 1);
+    if (strategy !== ADAPTIVE) {
+      filterRow(strategy, rows, y, stride, out, o);
+      continue;
+    }
+    // Usual heuristic: the filter whose output bytes, read as signed, sum smallest
+    let best = 0;
+    let bestSum = Infinity;
+    for (const type of FILTERS) {
+      filterRow(type, rows, y, stride, scratch, 0);
+      let sum = 0;
+      for (let x = 1; x <= stride; x++) sum += scratch[x] < 128 ? scratch[x] : 256 - scratch[x];
+      if (sum < bestSum) { bestSum = sum; best = type; }
+    }
+    filterRow(best, rows, y, stride, out, o);
+  }
+  return out;
+}
+
+// Every BAND_EVERY rows, a band of BAND_ROWS filtered rows
+function sampleBands(filtered: Uint8Array, rowBytes: number): Uint8Array {
+  const height = filtered.length / rowBytes;
+  const bands: Uint8Array[] = [];
+  for (let y = 0; y < height; y += BAND_EVERY) {
+    bands.push(filtered.subarray(y * rowBytes, Math.min(height, y + BAND_ROWS) * rowBytes));
+  }
+  const out = new Uint8Array(bands.reduce((n, b) => n + b.length, 0));
+  let o = 0;
+  for (const band of bands) {
+    out.set(band, o);
+    o += band.length;
+  }
+  return out;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+/** Write an indexed image as the smallest PNG the filter strategies produce. */
+export async function encodeIndexedPng(indexed: IndexedImage): Promise<Uint8Array> {
+  const image = tidyPalette(indexed);
+  const colors = image.palette.length / 4;
+  const depth = bitDepth(colors);
+  const { rows, stride } = packRows(image, depth);
+
+  let idat: Uint8Array | null = null;
+  let bestFiltered: Uint8Array | null = null;
+  let bestTrial = Infinity;
+  const sampled = rows.length > TRIAL_BYTES;
+  for (const strategy of [...FILTERS, ADAPTIVE]) {
+    const filtered = filterImage(strategy, rows, stride, image.height);
+    const packed = await deflate(sampled ? sampleBands(filtered, stride + 1) : filtered);
+    if (packed.length < bestTrial) {
+      bestTrial = packed.length;
+      bestFiltered = filtered;
+      if (!sampled) idat = packed;
+    }
+  }
+  if (!idat) idat = await deflate(bestFiltered!);
+
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, image.width);
+  view.setUint32(4, image.height);
+  ihdr.set([depth, COLOR_TYPE_INDEXED, 0, 0, 0], 8);   // compression, filter, interlace: defaults
+
+  const plte = new Uint8Array(colors * 3);
+  let translucent = 0;
+  for (let i = 0; i < colors; i++) {
+    plte.set(image.palette.subarray(i * 4, i * 4 + 3), i * 3);
+    if (image.palette[i * 4 + 3] !== 255) translucent = i + 1;
+  }
+  const trns = Uint8Array.from({ length: translucent }, (_, i) => image.palette[i * 4 + 3]);
+
+  const parts = [
+    Uint8Array.from(SIGNATURE),
+    chunk('IHDR', ihdr),
+    chunk('PLTE', plte),
+    ...(translucent ? [chunk('tRNS', trns)] : []),
+    chunk('IDAT', idat!),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const part of parts) {
+    out.set(part, o);
+    o += part.length;
+  }
+  return out;
+}
+
+/** Quantise RGBA pixels and write them as an optimised indexed PNG at the same size. */
+export function compressPng(image: ImageData, options: PngCompressOptions = {}): Promise<Uint8Array> {
+  return encodeIndexedPng(quantize(image, options));
+}
+
+/** Re-encode a PNG written elsewhere (FFmpeg's frames); the original is kept if it is already smaller. */
+export async function recompressPng(png: Uint8Array, options: PngCompressOptions = {}): Promise<Uint8Array> {
+  const bitmap = await createImageBitmap(new Blob([png], { type: 'image/png' }), {
+    colorSpaceConversion: 'none',
+    premultiplyAlpha: 'none'
+  });
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const compressed = await compressPng(ctx.getImageData(0, 0, canvas.width, canvas.height), options);
+  return compressed.length < png.length ? compressed : png;
+}
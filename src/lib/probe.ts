@@ -0,0 +1,76 @@
+// Container-level metadata probe for FRAMED
+// Reads headers (MP4 moov, WebM Info/Tracks, GIF/APNG/WebP frame controls) to get real fps,
+// codec, frame count and duration before extraction starts.
+
+import type { ContainerProbe } from './types';
+import type { TrueType } from './sniff';
+import { probeMp4 } from './mp4Demuxer';
+import { probeWebm } from './webmDemuxer';
+import { parseGif } from './gifDecoder';
+import { parseApng } from './apngDecoder';
+import { parseWebp } from './webpDecoder';
+
+function summarise(delaysMs: number[], timescale: number): ContainerProbe {
+  const frameCount = delaysMs.length;
+  const durationMs = delaysMs.reduce((a, b) => a + b, 0);
+  if (!frameCount) return {};
+  return {
+    frameCount,
+    duration: durationMs / 1000,
+    fps: durationMs > 0 ? Math.round((frameCount / (durationMs / 1000)) * 1000) / 1000 : undefined,
+    timescale,
+  };
+}
+
+/** Per-frame delays (ms) from GIF graphic control extensions. */
+export function gifFrameDelays(buf: Uint8Array): number[] {
+  return parseGif(buf).frames.map(f => f.delay);
+}
+
+/** Per-frame delays (ms) from APNG fcTL chunks; a plain PNG is one frame. */
+export function apngFrameDelays(buf: Uint8Array): number[] {
+  return parseApng(buf).frames.map(f => f.delay);
+}
+
+/** Per-frame durations (ms) from WebP ANMF chunks; a still WebP is one frame. */
+export function webpFrameDelays(buf: Uint8Array): number[] {
+  return parseWebp(buf).frames.map(f => f.duration);
+}
+
+/** Per-frame delays (ms) for animated image types; null for anything else. */
+export function animationFrameDelays(buf: Uint8Array, trueType: string): number[] | null {
+  switch (trueType) {
+    case 'image/gif':
+      return gifFrameDelays(buf);
+    case 'image/apng':
+      return apngFrameDelays(buf);
+    case 'image/webp':
+      return webpFrameDelays(buf);
+    default:
+      return null;
+  }
+}
+
+/** Probe a file's container headers; returns an empty object when nothing could be read. */
+export async function probeContainer(file: File, trueType: TrueType): Promise<ContainerProbe> {
+  try {
+    switch (trueType) {
+      case 'video/mp4':
+        return await probeMp4(file);
+      case 'video/webm':
+        return await probeWebm(file);
+      case 'image/gif':
+      case 'image/apng':
+      case 'image/webp':
+        return summarise(
+          animationFrameDelays(new Uint8Array(await file.arrayBuffer()), trueType)!,
+          trueType === 'image/gif' ? 100 : 1000
+        );
+      default:
+        return {};
+    }
+  } catch (error) {
+    console.warn('[probe] Could not read container headers:', error);
+    return {};
+  }
+}
@@ -1,6 +1,9 @@
 import type { ExtractionSettings, FileMetadata } from './types';
 
-export type ProcessingEngine = 'image-decoder' | 'webcodecs' | 'ffmpeg';
+export type ProcessingEngine = 'image-decoder' | 'webcodecs' | 'animation' | 'ffmpeg';
+
+// File types the portable animation decoder can read
+export const ANIMATION_DECODER_TYPES = ['image/gif', 'image/apng', 'image/webp'];
 
 export interface ProcessingCapability {
   engine: ProcessingEngine;
@@ -94,6 +97,17 @@ export async function detectProcessingCapabilities(file: File, metadata?: FileMe
     });
   }
 
+  // Pure-TypeScript animation decoder only needs OffscreenCanvas
+  const trueType = metadata?.trueType || file.type;
+  const hasOffscreenCanvas = typeof OffscreenCanvas !== 'undefined';
+  capabilities.push({
+    engine: 'animation',
+    supported: hasOffscreenCanvas && ANIMATION_DECODER_TYPES.includes(trueType),
+    reason: !hasOffscreenCanvas
+      ? 'OffscreenCanvas not available in this browser'
+      : ANIMATION_DECODER_TYPES.includes(trueType) ? undefined : `Image type ${trueType} not supported`
+  });
+
   // FFmpeg is always available as fallback
   capabilities.push({
     engine: 'ffmpeg',
@@ -104,6 +118,24 @@ export async function detectProcessingCapabilities(file: File, metadata?: FileMe
   return capabilities;
 }
 
+/** The engine auto mode runs for this file, routed on its sniffed type. */
+export function autoEngine(file: File, metadata: FileMetadata | undefined, caps: ProcessingCapability[]): ProcessingEngine {
+  const tt = metadata?.trueType || file.type;
+  if (ANIMATION_DECODER_TYPES.includes(tt)) {
+    // Without ImageDecoder (Firefox, Safari) the portable decoder still gives true frame timing
+    const imageDecoder = caps.find(c => c.engine === 'image-decoder');
+    return imageDecoder?.supported ? 'image-decoder' : 'animation';
+  }
+  if (tt === 'image/png') return 'image-decoder';
+  if (tt === 'video/mp4' || tt === 'video/webm') {
+    // Demuxed WebCodecs is much faster; FFmpeg remains the fallback
+    const webcodecs = caps.find(c => c.engine === 'webcodecs');
+    return webcodecs?.supported ? 'webcodecs' : 'ffmpeg';
+  }
+  if (file.type.startsWith('image/')) return 'image-decoder';
+  return 'ffmpeg';
+}
+
 export async function selectOptimalEngine(
   file: File, 
   settings: ExtractionSettings, 
@@ -123,6 +155,10 @@ export async function selectOptimalEngine(
     if (imageDecoderCap?.supported) {
       return 'image-decoder';
     }
+    const animationCap = capabilities.find(c => c.engine === 'animation');
+    if (animationCap?.supported) {
+      return 'animation';
+    }
   }
 
   // Prefer WebCodecs for video files if supported
@@ -143,6 +179,8 @@ export function getEngineDisplayName(engine: ProcessingEngine): string {
       return 'ImageDecoder (fast)';
     case 'webcodecs':
       return 'WebCodecs (fast)';
+    case 'animation':
+      return 'Animation Decoder (portable)';
     case 'ffmpeg':
       return 'FFmpeg (WASM)';
     default:
@@ -156,6 +194,8 @@ export function getEngineDescription(engine: ProcessingEngine): string {
       return 'Native browser image decoding for animated images';
     case 'webcodecs':
       return 'Native browser video decoding with hardware acceleration';
+    case 'animation':
+      return 'Built-in decoder for animated GIF, APNG and WebP that works in every browser';
     case 'ffmpeg':
       return 'Universal WebAssembly-based processing with broad format support';
     default:
@@ -0,0 +1,116 @@
+// Frame provenance
+// Which file, time and settings a frame came from, written into each PNG and JPEG by imageMetadata.ts
+// so it survives the frame leaving the archive.
+//
+// Key scheme, version 1. PNG keeps each field in a text chunk keyed "FRAMED:<Key>": tEXt when the
+// value is printable Latin-1, iTXt (UTF-8, uncompressed) otherwise. JPEG keeps them as XMP properties
+// <fx:Key> in the namespace PROVENANCE_NAMESPACE, and repeats a summary in EXIF DocumentName (source),
+// ImageDescription and Software for tools that only read EXIF.
+//
+//   Version       scheme version, "1"
+//   Source        source file name
+//   SourceSHA256  SHA-256 of the source file, lowercase hex; absent when it could not be hashed
+//   FrameIndex    0-based index of the frame in the extraction
+//   PTS           presentation timestamp in seconds, to the millisecond ("12.345")
+//   Timecode      HH:MM:SS:FF at the source frame rate, HH:MM:SS.mmm when the rate is unknown
+//   Engine        id of the engine that decoded the frame
+//   Settings      the ExtractionSettings used, as JSON
+//
+// Readers ignore keys they do not know and reject a Version they do not support.
+
+import type { ExtractionSettings } from './types';
+import { formatTimecode } from './naming';
+
+export const PROVENANCE_VERSION = '1';
+export const PNG_KEY_PREFIX = 'FRAMED:';
+export const PROVENANCE_NAMESPACE = 'urn:framed:provenance:1#';
+export const XMP_PREFIX = 'fx';
+
+export const PROVENANCE_KEYS = ['Version', 'Source', 'SourceSHA256', 'FrameIndex', 'PTS', 'Timecode', 'Engine', 'Settings'] as const;
+export type ProvenanceKey = (typeof PROVENANCE_KEYS)[number];
+
+export interface Provenance {
+  source: string;
+  sourceSha256?: string;
+  frameIndex: number;
+  ptsMs: number;
+  timecode: string;
+  engine: string;
+  settings: Partial<ExtractionSettings>;
+}
+
+/** The fields in scheme order, ready to write. */
+export function provenanceFields(p: Provenance): [ProvenanceKey, string][] {
+  const fields: [ProvenanceKey, string | undefined][] = [
+    ['Version', PROVENANCE_VERSION],
+    ['Source', p.source],
+    ['SourceSHA256', p.sourceSha256],
+    ['FrameIndex', String(p.frameIndex)],
+    ['PTS', (p.ptsMs / 1000).toFixed(3)],
+    ['Timecode', p.timecode],
+    ['Engine', p.engine],
+    ['Settings', JSON.stringify(p.settings)],
+  ];
+  return fields.filter((f): f is [ProvenanceKey, string] => f[1] !== undefined);
+}
+
+/** Provenance from fields read back out of a frame (keys without prefix); null when absent or unsupported. */
+export function parseProvenance(fields: Partial<Record<string, string>>): Provenance | null {
+  if (fields.Version !== PROVENANCE_VERSION || fields.Source === undefined) return null;
+  let settings: Partial<ExtractionSettings> = {};
+  try {
+    settings = JSON.parse(fields.Settings ?? '{}');
+  } catch {
+    // Keep the rest; the settings are the least essential field
+  }
+  return {
+    source: fields.Source,
+    sourceSha256: fields.SourceSHA256,
+    frameIndex: parseInt(fields.FrameIndex ?? '', 10) || 0,
+    ptsMs: Math.round(parseFloat(fields.PTS ?? '0') * 1000) || 0,
+    timecode: fields.Timecode ?? '',
+    engine: fields.Engine ?? '',
+    settings
+  };
+}
+
+/** HH:MM:SS:FF, or HH:MM:SS.mmm without a frame rate. */
+export function provenanceTimecode(ms: number, fps?: number): string {
+  const [hh, mm, ss, tail] = formatTimecode(ms, fps).split('-');
+  return `${hh}:${mm}:${ss}${fps && fps > 0 ? ':' : '.'}${tail}`;
+}
+
+export interface ProvenanceContext {
+  source: string;      // file name
+  sha256?: string;
+  fps?: number;        // for the timecode
+  engine: string;
+}
+
+/** Builds the provenance of each frame in one extraction run. */
+export class FrameProvenance {
+  private settings: Partial<ExtractionSettings>;
+
+  constructor(settings: ExtractionSettings, private ctx: ProvenanceContext) {
+    // Resume points and pool segments describe the run, not the output
+    const { resume: _resume, segment: _segment, ...kept } = settings;
+    this.settings = kept;
+  }
+
+  frame(index: number, timestampMs: number): Provenance {
+    return {
+      source: this.ctx.source,
+      sourceSha256: this.ctx.sha256,
+      frameIndex: index,
+      ptsMs: timestampMs,
+      timecode: provenanceTimecode(timestampMs, this.ctx.fps),
+      engine: this.ctx.engine,
+      settings: this.settings
+    };
+  }
+}
+
+/** Provenance for a run, or undefined when the settings do not ask for it. */
+export function frameProvenance(settings: ExtractionSettings, ctx: ProvenanceContext): FrameProvenance | undefined {
+  return settings.provenance ? new FrameProvenance(settings, ctx) : undefined;
+}
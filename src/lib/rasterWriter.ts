@@ -0,0 +1,148 @@
+// Uncompressed TIFF and BMP writers
+// Browsers only encode PNG, JPEG and (some) WebP / AVIF from a canvas; these two formats are simple
+// enough to write straight from the RGBA pixels, in workers and on the main thread alike.
+
+export interface RasterOptions {
+  dpi?: number;        // resolution stored in the header; 72 when not given
+}
+
+const DEFAULT_DPI = 72;
+
+// Any pixel that is not fully opaque means the alpha channel has to be kept
+function hasAlpha(data: Uint8ClampedArray): boolean {
+  for (let i = 3; i < data.length; i += 4) if (data[i] !== 255) return true;
+  return false;
+}
+
+// TIFF field types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+/**
+ * Baseline little-endian TIFF: 8-bit RGB (RGBA with unassociated alpha when the frame has
+ * transparency), no compression, one strip.
+ */
+export function encodeTiff(image: ImageData, options: RasterOptions = {}): Uint8Array {
+  const { width, height, data } = image;
+  const alpha = hasAlpha(data);
+  const spp = alpha ? 4 : 3;
+  const dpi = Math.max(1, Math.round(options.dpi ?? DEFAULT_DPI));
+
+  const entries: Array<[tag: number, type: number, count: number, value: number]> = [];
+  const ifdOffset = 8;
+  const tagCount = alpha ? 15 : 14;
+  // IFD: count, 12 bytes per entry, next-IFD offset; out-of-line values follow it
+  let extra = ifdOffset + 2 + tagCount * 12 + 4;
+  const bitsOffset = extra; extra += spp * 2;
+  const xResOffset = extra; extra += 8;
+  const yResOffset = extra; extra += 8;
+  const pixelOffset = extra;
+  const pixelBytes = width * height * spp;
+
+  entries.push(
+    [256, LONG, 1, width],                 // ImageWidth
+    [257, LONG, 1, height],                // ImageLength
+    [258, SHORT, spp, bitsOffset],         // BitsPerSample
+    [259, SHORT, 1, 1],                    // Compression: none
+    [262, SHORT, 1, 2],                    // PhotometricInterpretation: RGB
+    [273, LONG, 1, pixelOffset],           // StripOffsets
+    [274, SHORT, 1, 1],                    // Orientation: top-left
+    [277, SHORT, 1, spp],                  // SamplesPerPixel
+    [278, LONG, 1, height],                // RowsPerStrip
+    [279, LONG, 1, pixelBytes],            // StripByteCounts
+    [282, RATIONAL, 1, xResOffset],        // XResolution
+    [283, RATIONAL, 1, yResOffset],        // YResolution
+    [284, SHORT, 1, 1],                    // PlanarConfiguration: chunky
+    [296, SHORT, 1, 2],                    // ResolutionUnit: inch
+  );
+  if (alpha) entries.push([338, SHORT, 1, 2]); // ExtraSamples: unassociated alpha
+
+  const out = new Uint8Array(pixelOffset + pixelBytes);
+  const view = new DataView(out.buffer);
+  out.set([0x49, 0x49], 0);               // 'II'
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+
+  view.setUint16(ifdOffset, entries.length, true);
+  entries.forEach(([tag, type, count, value], i) => {
+    const p = ifdOffset + 2 + i * 12;
+    view.setUint16(p, tag, true);
+    view.setUint16(p + 2, type, true);
+    view.setUint32(p + 4, count, true);
+    // A single SHORT sits left-justified in the value field
+    if (type === SHORT && count === 1) view.setUint16(p + 8, value, true);
+    else view.setUint32(p + 8, value, true);
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, true);
+
+  for (let s = 0; s < spp; s++) view.setUint16(bitsOffset + s * 2, 8, true);
+  view.setUint32(xResOffset, dpi, true);
+  view.setUint32(xResOffset + 4, 1, true);
+  view.setUint32(yResOffset, dpi, true);
+  view.setUint32(yResOffset + 4, 1, true);
+
+  if (alpha) {
+    out.set(data, pixelOffset);
+  } else {
+    for (let i = 0, o = pixelOffset; i < data.length; i += 4, o += 3) {
+      out[o] = data[i];
+      out[o + 1] = data[i + 1];
+      out[o + 2] = data[i + 2];
+    }
+  }
+  return out;
+}
+
+const BMP_FILE_HEADER = 14;
+const BITMAPINFOHEADER = 40;
+const BITMAPV4HEADER = 108;
+
+/**
+ * Windows BMP, stored bottom-up: 24-bit BGR, or 32-bit BGRA with a V4 header and an alpha mask
+ * when the frame has transparency.
+ */
+export function encodeBmp(image: ImageData, options: RasterOptions = {}): Uint8Array {
+  const { width, height, data } = image;
+  const alpha = hasAlpha(data);
+  const bpp = alpha ? 4 : 3;
+  const stride = Math.ceil((width * bpp) / 4) * 4;
+  const infoSize = alpha ? BITMAPV4HEADER : BITMAPINFOHEADER;
+  const pixelOffset = BMP_FILE_HEADER + infoSize;
+  const pixelsPerMetre = Math.round((options.dpi ?? DEFAULT_DPI) / 0.0254);
+
+  const out = new Uint8Array(pixelOffset + stride * height);
+  const view = new DataView(out.buffer);
+  out.set([0x42, 0x4d], 0);               // 'BM'
+  view.setUint32(2, out.length, true);
+  view.setUint32(10, pixelOffset, true);
+
+  const h = BMP_FILE_HEADER;
+  view.setUint32(h, infoSize, true);
+  view.setInt32(h + 4, width, true);
+  view.setInt32(h + 8, height, true);     // positive: bottom-up rows
+  view.setUint16(h + 12, 1, true);        // planes
+  view.setUint16(h + 14, bpp * 8, true);
+  view.setUint32(h + 16, alpha ? 3 : 0, true);   // BI_BITFIELDS : BI_RGB
+  view.setUint32(h + 20, stride * height, true);
+  view.setInt32(h + 24, pixelsPerMetre, true);
+  view.setInt32(h + 28, pixelsPerMetre, true);
+  if (alpha) {
+    view.setUint32(h + 40, 0x00ff0000, true);    // red mask
+    view.setUint32(h + 44, 0x0000ff00, true);    // green
+    view.setUint32(h + 48, 0x000000ff, true);    // blue
+    view.setUint32(h + 52, 0xff000000, true);    // alpha
+    view.setUint32(h + 56, 0x73524742, true);    // 'sRGB' colour space
+  }
+
+  for (let y = 0; y < height; y++) {
+    let o = pixelOffset + (height - 1 - y) * stride;
+    for (let x = 0, i = y * width * 4; x < width; x++, i += 4, o += bpp) {
+      out[o] = data[i + 2];
+      out[o + 1] = data[i + 1];
+      out[o + 2] = data[i];
+      if (alpha) out[o + 3] = data[i + 3];
+    }
+  }
+  return out;
+}
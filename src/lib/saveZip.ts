@@ -0,0 +1,66 @@
+// Saving a ZIP
+// Hands a set of named blobs (frames, sprite sheet pages) to the user as one archive.
+
+import type { ExtractedFrame } from './types';
+import { ZipWriter, createZipSink, scratchZipName, writableSink } from './zipWriter';
+import { UniqueNames, sanitizeFilename } from './naming';
+
+// showSaveFilePicker is Chromium-only and missing from lib.dom
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * Stream files into a ZIP without holding the archive in memory: straight into a file the user
+ * picks where the browser allows it, otherwise into OPFS scratch space that is then downloaded.
+ * Resolves false if the user dismissed the save dialog.
+ */
+export async function saveZip(
+  files: Pick<ExtractedFrame, 'filename' | 'blob'>[],
+  zipFilename: string,
+  onProgress: (percent: number) => void
+): Promise<boolean> {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  let toDisk = false;
+  let writer: ZipWriter;
+
+  if (picker) {
+    try {
+      const handle = await picker({
+        suggestedName: zipFilename,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+      });
+      writer = new ZipWriter(writableSink(await handle.createWritable()));
+      toDisk = true;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return false;
+      console.warn('Save dialog unavailable, falling back to download:', error);
+    }
+  }
+  writer ??= new ZipWriter(await createZipSink(scratchZipName('frames')));
+
+  // Frames gathered from several runs (or a resumed one) can repeat a name; the archive must not
+  const names = new UniqueNames();
+  try {
+    for (let i = 0; i < files.length; i++) {
+      await writer.add(names.claim(sanitizeFilename(files[i].filename)), files[i].blob);
+      onProgress(((i + 1) / files.length) * 95);
+    }
+    const archive = await writer.close();
+    if (!toDisk && archive) {
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = zipFilename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }
+    return true;
+  } catch (error) {
+    await writer.abort().catch(() => {});
+    throw error;
+  }
+}
@@ -0,0 +1,321 @@
+// Frame scaling
+// Turns the crop and scale settings into one geometry (source rect, destination rect, output size)
+// that the FFmpeg filter graph and the canvas engines both follow, plus a resampler for the canvas engines.
+
+import type { CropRect, ResampleFilter, ScaleSettings } from './types';
+
+// Browsers refuse larger canvases; FFmpeg would accept them but nothing could display the result
+const MAX_DIMENSION = 16384;
+const DEFAULT_MATTE = '#000000';
+
+export interface ScaleGeometry {
+  width: number;       // output frame
+  height: number;
+  sx: number;          // part of the source that is used
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;          // where that part lands in the output
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+const dimension = (n: number) => Math.max(1, Math.min(MAX_DIMENSION, Math.round(n)));
+
+// Target box for the box-based modes; a missing side follows the source aspect
+function targetBox(scale: ScaleSettings, srcW: number, srcH: number) {
+  const w = scale.width && scale.width > 0 ? scale.width : 0;
+  const h = scale.height && scale.height > 0 ? scale.height : 0;
+  if (w && h) return { w, h };
+  if (w) return { w, h: (w * srcH) / srcW };
+  if (h) return { w: (h * srcW) / srcH, h };
+  return null;
+}
+
+/** The crop clamped to whole pixels inside a srcW × srcH frame; the whole frame without one. */
+export function cropRegion(crop: CropRect | undefined, srcW: number, srcH: number): CropRect {
+  if (!crop || !srcW || !srcH) return { x: 0, y: 0, width: srcW, height: srcH };
+  const x = Math.max(0, Math.min(srcW - 1, Math.round(crop.x)));
+  const y = Math.max(0, Math.min(srcH - 1, Math.round(crop.y)));
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(srcW - x, Math.round(crop.width))),
+    height: Math.max(1, Math.min(srcH - y, Math.round(crop.height)))
+  };
+}
+
+/** Where the source goes in the output frame for these crop and scale settings. */
+export function scaleGeometry(
+  scale: ScaleSettings | undefined,
+  srcW: number,
+  srcH: number,
+  crop?: CropRect
+): ScaleGeometry {
+  // Scale modes work on the cropped region as if it were the whole source
+  const region = cropRegion(crop, srcW, srcH);
+  const g = regionGeometry(scale, region.width, region.height);
+  return { ...g, sx: g.sx + region.x, sy: g.sy + region.y };
+}
+
+function regionGeometry(scale: ScaleSettings | undefined, srcW: number, srcH: number): ScaleGeometry {
+  const whole = (w: number, h: number): ScaleGeometry => {
+    const width = dimension(w);
+    const height = dimension(h);
+    return { width, height, sx: 0, sy: 0, sw: srcW, sh: srcH, dx: 0, dy: 0, dw: width, dh: height };
+  };
+  if (!scale || !srcW || !srcH) return whole(srcW, srcH);
+
+  switch (scale.mode) {
+    case 'custom': {
+      const box = targetBox(scale, srcW, srcH);
+      return box ? whole(box.w, box.h) : whole(srcW, srcH);
+    }
+    case 'fit':
+    case 'pad': {
+      const box = targetBox(scale, srcW, srcH);
+      if (!box) return whole(srcW, srcH);
+      const f = Math.min(box.w / srcW, box.h / srcH);
+      const dw = dimension(srcW * f);
+      const dh = dimension(srcH * f);
+      if (scale.mode === 'fit') return whole(dw, dh);
+      const width = dimension(box.w);
+      const height = dimension(box.h);
+      return {
+        width, height, sx: 0, sy: 0, sw: srcW, sh: srcH,
+        dx: Math.floor((width - dw) / 2), dy: Math.floor((height - dh) / 2), dw, dh
+      };
+    }
+    case 'cover': {
+      const box = targetBox(scale, srcW, srcH);
+      if (!box) return whole(srcW, srcH);
+      const width = dimension(box.w);
+      const height = dimension(box.h);
+      // Keep the centre of the source and drop whatever overflows the box
+      const f = Math.max(width / srcW, height / srcH);
+      const sw = Math.min(srcW, Math.round(width / f));
+      const sh = Math.min(srcH, Math.round(height / f));
+      return {
+        width, height,
+        sx: Math.floor((srcW - sw) / 2), sy: Math.floor((srcH - sh) / 2), sw, sh,
+        dx: 0, dy: 0, dw: width, dh: height
+      };
+    }
+    case 'percent': {
+      const f = scale.percent && scale.percent > 0 ? scale.percent / 100 : 1;
+      return whole(srcW * f, srcH * f);
+    }
+    case 'max-edge': {
+      const f = scale.maxEdge && scale.maxEdge > 0 ? Math.min(1, scale.maxEdge / Math.max(srcW, srcH)) : 1;
+      return whole(srcW * f, srcH * f);
+    }
+    default:
+      return whole(srcW, srcH);
+  }
+}
+
+const FFMPEG_FLAGS: Record<ResampleFilter, string> = {
+  nearest: 'neighbor',
+  bilinear: 'bilinear',
+  bicubic: 'bicubic',
+  lanczos: 'lanczos',
+};
+
+/** The matte colour as #rrggbb, falling back to black for anything unparseable. */
+export function matteColor(scale: ScaleSettings | undefined): string {
+  const c = scale?.matte?.trim() ?? '';
+  return /^#[0-9a-f]{6}$/i.test(c) ? c.toLowerCase() : DEFAULT_MATTE;
+}
+
+/** FFmpeg filters (crop, then scale, then pad) reproducing scaleGeometry; empty when nothing changes. */
+export function ffmpegScaleFilters(
+  scale: ScaleSettings | undefined,
+  srcW: number,
+  srcH: number,
+  crop?: CropRect
+): string[] {
+  const flags = FFMPEG_FLAGS[scale?.filter ?? 'bilinear'];
+  if (!srcW || !srcH) {
+    // Without the source size only an exact crop and size can be expressed up front
+    const filters: string[] = [];
+    if (crop) filters.push(`crop=${Math.round(crop.width)}:${Math.round(crop.height)}:${Math.round(crop.x)}:${Math.round(crop.y)}`);
+    if (scale?.mode === 'custom' && scale.width && scale.height) {
+      filters.push(`scale=${dimension(scale.width)}:${dimension(scale.height)}:flags=${flags}`);
+    }
+    return filters;
+  }
+  const g = scaleGeometry(scale, srcW, srcH, crop);
+  const filters: string[] = [];
+  if (g.sx || g.sy || g.sw !== srcW || g.sh !== srcH) filters.push(`crop=${g.sw}:${g.sh}:${g.sx}:${g.sy}`);
+  if (g.dw !== g.sw || g.dh !== g.sh) filters.push(`scale=${g.dw}:${g.dh}:flags=${flags}`);
+  if (g.width !== g.dw || g.height !== g.dh) {
+    filters.push(`pad=${g.width}:${g.height}:${g.dx}:${g.dy}:color=0x${matteColor(scale).slice(1)}`);
+  }
+  return filters;
+}
+
+// Resampling kernels as (radius, weight function) in source pixels at 1:1
+const KERNELS: Record<Exclude<ResampleFilter, 'nearest'>, { radius: number; weight(x: number): number }> = {
+  bilinear: { radius: 1, weight: x => Math.max(0, 1 - Math.abs(x)) },
+  // Catmull-Rom (Keys, a = -0.5)
+  bicubic: {
+    radius: 2,
+    weight: x => {
+      const t = Math.abs(x);
+      if (t < 1) return 1.5 * t ** 3 - 2.5 * t ** 2 + 1;
+      if (t < 2) return -0.5 * t ** 3 + 2.5 * t ** 2 - 4 * t + 2;
+      return 0;
+    }
+  },
+  lanczos: {
+    radius: 3,
+    weight: x => {
+      if (x === 0) return 1;
+      if (Math.abs(x) >= 3) return 0;
+      const px = Math.PI * x;
+      return (3 * Math.sin(px) * Math.sin(px / 3)) / (px * px);
+    }
+  },
+};
+
+interface Taps {
+  start: Int32Array;     // first source pixel per output pixel
+  count: Int32Array;
+  weights: Float32Array; // count[i] weights per output pixel, at i * stride
+  stride: number;
+}
+
+// Weight tables for one axis; when shrinking the kernel is stretched so every source pixel contributes
+function buildTaps(srcLen: number, dstLen: number, filter: Exclude<ResampleFilter, 'nearest'>): Taps {
+  const { radius, weight } = KERNELS[filter];
+  const ratio = srcLen / dstLen;
+  const stretch = Math.max(1, ratio);
+  const support = radius * stretch;
+  const stride = Math.ceil(support) * 2 + 1;
+  const start = new Int32Array(dstLen);
+  const count = new Int32Array(dstLen);
+  const weights = new Float32Array(dstLen * stride);
+
+  for (let i = 0; i < dstLen; i++) {
+    const center = (i + 0.5) * ratio - 0.5;
+    const lo = Math.max(0, Math.ceil(center - support));
+    const hi = Math.min(srcLen - 1, Math.floor(center + support));
+    let sum = 0;
+    for (let j = lo; j <= hi; j++) {
+      const w = weight((j - center) / stretch);
+      weights[i * stride + j - lo] = w;
+      sum += w;
+    }
+    const n = hi - lo + 1;
+    if (sum) for (let k = 0; k < n; k++) weights[i * stride + k] /= sum;
+    start[i] = lo;
+    count[i] = n;
+  }
+  return { start, count, weights, stride };
+}
+
+// Tables only change with the frame size, so the last few are reused for the rest of the run
+const tapCache = new Map<string, Taps>();
+function taps(srcLen: number, dstLen: number, filter: Exclude<ResampleFilter, 'nearest'>): Taps {
+  const key = `${srcLen}:${dstLen}:${filter}`;
+  let t = tapCache.get(key);
+  if (!t) {
+    if (tapCache.size > 8) tapCache.clear();
+    t = buildTaps(srcLen, dstLen, filter);
+    tapCache.set(key, t);
+  }
+  return t;
+}
+
+/**
+ * Separable resample of RGBA pixels. Colour is weighted by alpha so transparent pixels do not
+ * bleed dark fringes into their neighbours.
+ */
+export function resamplePixels(src: ImageData, dw: number, dh: number, filter: Exclude<ResampleFilter, 'nearest'>): ImageData {
+  const { width: sw, height: sh, data } = src;
+  const h = taps(sw, dw, filter);
+  const v = taps(sh, dh, filter);
+
+  // Horizontal pass into premultiplied floats, dw × sh
+  const mid = new Float32Array(dw * sh * 4);
+  for (let y = 0; y < sh; y++) {
+    const row = y * sw * 4;
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const base = x * h.stride;
+      for (let k = 0; k < h.count[x]; k++) {
+        const p = row + (h.start[x] + k) * 4;
+        const w = h.weights[base + k] * data[p + 3];
+        r += data[p] * w;
+        g += data[p + 1] * w;
+        b += data[p + 2] * w;
+        a += w;
+      }
+      const o = (y * dw + x) * 4;
+      mid[o] = r; mid[o + 1] = g; mid[o + 2] = b; mid[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const out = new ImageData(dw, dh);
+  const px = out.data;
+  for (let y = 0; y < dh; y++) {
+    const base = y * v.stride;
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < v.count[y]; k++) {
+        const p = ((v.start[y] + k) * dw + x) * 4;
+        const w = v.weights[base + k];
+        r += mid[p] * w;
+        g += mid[p + 1] * w;
+        b += mid[p + 2] * w;
+        a += mid[p + 3] * w;
+      }
+      const o = (y * dw + x) * 4;
+      if (a > 0) {
+        px[o] = r / a;
+        px[o + 1] = g / a;
+        px[o + 2] = b / a;
+      }
+      px[o + 3] = a;
+    }
+  }
+  return out;
+}
+
+/** Draw a frame onto a new canvas following scaleGeometry and the chosen resampling filter. */
+export function drawScaled(
+  source: CanvasImageSource,
+  srcW: number,
+  srcH: number,
+  scale: ScaleSettings | undefined,
+  crop?: CropRect
+): OffscreenCanvas {
+  const g = scaleGeometry(scale, srcW, srcH, crop);
+  const canvas = new OffscreenCanvas(g.width, g.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  if (g.dw !== g.width || g.dh !== g.height) {
+    ctx.fillStyle = matteColor(scale);
+    ctx.fillRect(0, 0, g.width, g.height);
+  }
+
+  const filter = scale?.filter ?? 'bilinear';
+  const resized = g.dw !== g.sw || g.dh !== g.sh;
+  if (!resized || filter === 'nearest' || filter === 'bilinear') {
+    // The browser's own smoothing is bilinear; turning it off gives nearest neighbour
+    ctx.imageSmoothingEnabled = filter !== 'nearest';
+    ctx.imageSmoothingQuality = 'low';
+    ctx.drawImage(source, g.sx, g.sy, g.sw, g.sh, g.dx, g.dy, g.dw, g.dh);
+    return canvas;
+  }
+
+  const region = new OffscreenCanvas(g.sw, g.sh);
+  const cropCtx = region.getContext('2d');
+  if (!cropCtx) throw new Error('Could not get canvas context');
+  cropCtx.drawImage(source, g.sx, g.sy, g.sw, g.sh, 0, 0, g.sw, g.sh);
+  ctx.putImageData(resamplePixels(cropCtx.getImageData(0, 0, g.sw, g.sh), g.dw, g.dh, filter), g.dx, g.dy);
+  return canvas;
+}
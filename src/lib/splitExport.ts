@@ -0,0 +1,113 @@
+// Split export shared by the worker engines
+// Frames go into the current ZIP part as they are produced; a full part is closed, handed to the
+// main thread and forgotten, so memory stays flat however long the extraction runs.
+
+import type { ExtractionSettings, FileMetadata, PartReady } from './types';
+import { estimateFramesAndZip } from './estimate';
+import { ZipWriter, createZipSink, scratchZipName } from './zipWriter';
+
+/** Frames per part, or 0 when split export is off and everything goes into one archive. */
+export function framesPerPart(settings: ExtractionSettings): number {
+  return settings.split?.enabled && settings.split.framesPerPart > 0 ? Math.floor(settings.split.framesPerPart) : 0;
+}
+
+/**
+ * The part a frame's archive will be, matching SplitZipWriter: a resumed job starts a new part at
+ * its checkpoint, which need not fall on a multiple of the part size after a pause.
+ */
+export function partNumber(settings: ExtractionSettings, index: number): number {
+  const perPart = framesPerPart(settings);
+  if (!perPart) return 1;
+  const { frameOffset = 0, partOffset = 0 } = settings.resume ?? {};
+  return partOffset + Math.floor(Math.max(0, index - frameOffset) / perPart) + 1;
+}
+
+/** Whether frames should also be sent to the main thread for the gallery (or, for a pooled segment, the pool). */
+export function shouldPostFrames(settings: ExtractionSettings): boolean {
+  return !!settings.segment || !framesPerPart(settings) || settings.split?.previewThumbnails === true;
+}
+
+export class SplitZipWriter {
+  private writer: ZipWriter | null = null;
+  private partIndex = 0;
+  private partStart = 0;
+  private frameCount = 0;
+  private lastTimestamp = 0;
+  private readonly perPart: number;
+  private readonly plannedParts: number;
+  private readonly resumed: boolean;
+  private readonly passthrough: boolean;
+
+  constructor(
+    private basename: string,
+    settings: ExtractionSettings,
+    metadata: FileMetadata | undefined,
+    private onPart: (part: PartReady) => void
+  ) {
+    this.perPart = framesPerPart(settings);
+    // A pooled segment only counts its frames; the pool archives them once they are back in order
+    this.passthrough = !!settings.segment;
+    // A resumed job continues the numbering of the parts and frames already saved
+    this.resumed = !!settings.resume;
+    this.partIndex = settings.resume?.partOffset ?? 0;
+    this.frameCount = settings.resume?.frameOffset ?? 0;
+    // Only an estimate; the last part reports the real total
+    this.plannedParts = this.perPart && metadata
+      ? Math.max(1, Math.ceil(estimateFramesAndZip(metadata, settings).frames / this.perPart))
+      : 1;
+  }
+
+  get frames() { return this.frameCount; }
+
+  async add(filename: string, data: Blob | Uint8Array, timestamp: number) {
+    if (this.passthrough) {
+      this.frameCount++;
+      this.lastTimestamp = timestamp;
+      return;
+    }
+    if (!this.writer) {
+      this.partIndex++;
+      this.partStart = this.frameCount;
+      this.writer = new ZipWriter(await createZipSink(scratchZipName(`${this.basename}-part${this.partIndex}`)));
+    }
+    await this.writer.add(filename, data);
+    this.frameCount++;
+    this.lastTimestamp = timestamp;
+    if (this.perPart && this.frameCount - this.partStart >= this.perPart) await this.closePart(false);
+  }
+
+  /** Close the last part; call once extraction has finished. */
+  finish() {
+    return this.closePart(true);
+  }
+
+  async abort() {
+    const writer = this.writer;
+    this.writer = null;
+    await writer?.abort();
+  }
+
+  private async closePart(last: boolean) {
+    const writer = this.writer;
+    if (!writer) return;
+    this.writer = null;
+    const zip = await writer.close();
+    const index = this.partIndex;
+    this.onPart({
+      type: 'PART_READY',
+      partIndex: index,
+      totalParts: last ? index : Math.max(this.plannedParts, index),
+      startFrame: this.partStart,
+      endFrame: this.frameCount - 1,
+      filename: this.partFilename(index),
+      zip: zip ?? new Blob([], { type: 'application/zip' }),
+      endTimestamp: this.lastTimestamp
+    });
+  }
+
+  private partFilename(index: number) {
+    if (this.perPart) return `${this.basename}_part_${String(index).padStart(3, '0')}.zip`;
+    // Without split export a resumed run only holds the frames after the checkpoint
+    return this.resumed ? `${this.basename}_frames_from_${this.partStart + 1}.zip` : `${this.basename}_frames.zip`;
+  }
+}
@@ -0,0 +1,157 @@
+// Sprite sheet export
+// Packs extracted frames into PNG atlas pages plus engine metadata. Frames are decoded twice (once
+// to measure and trim, once to draw) rather than held in memory between the passes.
+
+import type { ExtractedFrame } from './types';
+import { packAtlas, type AtlasLayoutMode, type PackSize } from './atlasPacker';
+import { atlasFilename, atlasMetadata, type Atlas, type AtlasFormat, type AtlasRect } from './atlasFormats';
+import { UniqueNames, sanitizeFilename } from './naming';
+
+export interface SpriteSheetOptions {
+  layout: AtlasLayoutMode;
+  maxSize: number;       // largest page side, px
+  padding: number;       // px between sprites
+  trim: boolean;         // drop fully transparent borders
+  format: AtlasFormat;
+}
+
+export const DEFAULT_SPRITE_SHEET_OPTIONS: SpriteSheetOptions = {
+  layout: 'maxrects',
+  maxSize: 4096,
+  padding: 2,
+  trim: true,
+  format: 'texturepacker-hash'
+};
+
+export const ATLAS_PAGE_SIZES = [1024, 2048, 4096, 8192];
+
+// Used for the last frame when there is no gap to measure and no frame rate
+const DEFAULT_DURATION_MS = 100;
+
+export interface SpriteSheetFile {
+  filename: string;
+  blob: Blob;
+}
+
+export interface SpriteSheet {
+  files: SpriteSheetFile[];   // page images, then metadata
+  pages: number;
+}
+
+/**
+ * How long each frame stays on screen: the gap to the next frame's timestamp. The last frame
+ * repeats the gap before it, or one frame at the source rate.
+ */
+export function frameDurations(frames: ExtractedFrame[], fps?: number): number[] {
+  const fallback = fps && fps > 0 ? Math.round(1000 / fps) : DEFAULT_DURATION_MS;
+  return frames.map((frame, i) => {
+    const next = frames[i + 1] ?? frames[i - 1];
+    const gap = next ? Math.abs(next.timestamp - frame.timestamp) : fallback;
+    // Frames that share a timestamp still need to show for a moment
+    return Math.max(1, Math.round(gap || fallback));
+  });
+}
+
+async function decode(frame: ExtractedFrame): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(frame.blob, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+  } catch {
+    throw new Error(`Could not decode ${frame.filename}; sprite sheets need frames this browser can display`);
+  }
+}
+
+// Bounds of the pixels that are not fully transparent; a blank frame keeps one pixel
+function opaqueBounds(bitmap: ImageBitmap): AtlasRect {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.drawImage(bitmap, 0, 0);
+  const { data, width, height } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, p = y * width * 4 + 3; x < width; x++, p += 4) {
+      if (!data[p]) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      bottom = y;
+    }
+  }
+  if (right < 0) return { x: 0, y: 0, w: 1, h: 1 };
+  return { x: left, y: top, w: right - left + 1, h: bottom - top + 1 };
+}
+
+const nextTick = () => new Promise(r => setTimeout(r, 0));
+
+/** Pack frames into atlas pages and write the metadata for the chosen format, ready to be zipped. */
+export async function buildSpriteSheet(
+  frames: ExtractedFrame[],
+  name: string,
+  options: SpriteSheetOptions,
+  fps?: number,
+  onProgress?: (percent: number) => void
+): Promise<SpriteSheet> {
+  if (frames.length === 0) throw new Error('There are no frames to pack');
+  const names = new UniqueNames();
+  const spriteNames = frames.map(f => names.claim(sanitizeFilename(f.filename)));
+  const durations = frameDurations(frames, fps);
+
+  // Measure (and trim) every frame
+  const sources: { w: number; h: number }[] = [];
+  const kept: AtlasRect[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    const bitmap = await decode(frames[i]);
+    sources.push({ w: bitmap.width, h: bitmap.height });
+    kept.push(options.trim ? opaqueBounds(bitmap) : { x: 0, y: 0, w: bitmap.width, h: bitmap.height });
+    bitmap.close();
+    onProgress?.(((i + 1) / frames.length) * 45);
+    await nextTick();
+  }
+
+  const sizes: PackSize[] = kept.map(r => ({ width: r.w, height: r.h }));
+  const layout = packAtlas(options.layout, sizes, { maxSize: options.maxSize, padding: options.padding });
+  const pageCount = layout.pages.length;
+  const atlas: Atlas = {
+    name,
+    pages: layout.pages.map((p, page) => ({ image: atlasFilename(name, page, pageCount, 'png'), ...p })),
+    sprites: frames.map((_, i) => {
+      const { page, x, y } = layout.placements[i];
+      const source = sources[i];
+      return {
+        name: spriteNames[i],
+        page,
+        frame: { x, y, w: kept[i].w, h: kept[i].h },
+        trimmed: kept[i].w !== source.w || kept[i].h !== source.h,
+        spriteSourceSize: kept[i],
+        sourceSize: source,
+        duration: durations[i]
+      };
+    })
+  };
+
+  // Draw the pages one at a time so only one full-size canvas is alive
+  const files: SpriteSheetFile[] = [];
+  let drawn = 0;
+  for (let page = 0; page < pageCount; page++) {
+    const canvas = new OffscreenCanvas(atlas.pages[page].width, atlas.pages[page].height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    for (let i = 0; i < frames.length; i++) {
+      const sprite = atlas.sprites[i];
+      if (sprite.page !== page) continue;
+      const bitmap = await decode(frames[i]);
+      const { x, y, w, h } = sprite.spriteSourceSize;
+      ctx.drawImage(bitmap, x, y, w, h, sprite.frame.x, sprite.frame.y, w, h);
+      bitmap.close();
+      onProgress?.(45 + (++drawn / frames.length) * 45);
+      await nextTick();
+    }
+    files.push({ filename: atlas.pages[page].image, blob: await canvas.convertToBlob({ type: 'image/png' }) });
+  }
+
+  for (const file of atlasMetadata(options.format, atlas)) {
+    files.push({ filename: file.filename, blob: new Blob([file.text], { type: file.mime }) });
+  }
+  onProgress?.(100);
+  return { files, pages: pageCount };
+}
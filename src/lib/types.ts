@@ -9,6 +9,24 @@ export interface FileMetadata {
   size: number;
   name: string;
   trueType?: string;
+  frameCount?: number;   // exact, when the container records it
+  timescale?: number;    // media timescale (ticks per second) of the video track
+  rotation?: QuarterTurn; // clockwise display rotation from the container; width/height already include it
+  mirrored?: boolean;     // container display matrix mirrors the picture (after rotating)
+  sha256?: string;        // of the whole file, for provenance; hashed on demand
+}
+
+// Header-level facts read from the container before extraction
+export interface ContainerProbe {
+  fps?: number;
+  codec?: string;        // WebCodecs codec string
+  frameCount?: number;
+  duration?: number;     // seconds
+  timescale?: number;
+  width?: number;        // coded size, before the container rotation
+  height?: number;
+  rotation?: QuarterTurn;
+  mirrored?: boolean;
 }
 
 export interface SplitExport {
@@ -18,28 +36,83 @@ export interface SplitExport {
   previewThumbnails?: boolean;
 }
 
+// How frames are resized: 'custom' is an exact size (stretching if the aspect differs), 'fit' keeps
+// the aspect inside width×height, 'cover' fills it and crops the overflow, 'pad' fits and fills the
+// rest with the matte colour, 'percent' and 'max-edge' scale both sides by one factor
+export type ScaleMode = 'original' | 'custom' | 'fit' | 'cover' | 'pad' | 'percent' | 'max-edge';
+export type ResampleFilter = 'nearest' | 'bilinear' | 'bicubic' | 'lanczos';
+
+export interface ScaleSettings {
+  mode: ScaleMode;
+  width?: number;
+  height?: number;
+  percent?: number;          // 'percent' mode, e.g. 50
+  maxEdge?: number;          // 'max-edge' mode: longest side in pixels; smaller frames are left alone
+  lockAspect?: boolean;      // keep width/height at the source aspect while editing (UI only)
+  matte?: string;            // 'pad' mode fill, #rrggbb
+  filter?: ResampleFilter;   // defaults to bilinear
+}
+
+export type OutputFormatType = 'png' | 'jpeg' | 'png-compressed' | 'webp' | 'avif' | 'tiff' | 'bmp';
+
+export type QuarterTurn = 0 | 90 | 180 | 270;
+
+// Manual orientation, applied after the container's own rotation: rotate clockwise, then flip
+export interface OrientationSettings {
+  rotate: QuarterTurn;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+// Part of the source frame to keep, in pixels of the oriented frame; applied before scaling
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where a resumed job picks up: frames at or before afterMs are already saved
+export interface ResumePoint {
+  afterMs: number;       // timestamp of the last saved frame
+  frameOffset: number;   // frames already saved; numbering continues from here
+  partOffset: number;    // split-export parts already saved
+}
+
+// One time slice of a pooled extraction: the worker only decodes and encodes, the pool
+// renumbers and archives its frames in order
+export interface SegmentTask {
+  index: number;
+  count: number;
+}
+
 export interface ExtractionSettings {
   mode: 'every' | 'fps' | 'nth' | 'range';
-  processingMode: 'auto' | 'webcodecs' | 'image-decoder' | 'ffmpeg';
+  processingMode: 'auto' | 'webcodecs' | 'image-decoder' | 'animation' | 'ffmpeg';
   fps?: number;
   nth?: number;
   startTime?: number;
   endTime?: number;
-  scale: {
-    mode: 'original' | 'custom';
-    width?: number;
-    height?: number;
-  };
+  scale: ScaleSettings;
+  orientation?: OrientationSettings;
+  crop?: CropRect;
   naming: {
     pattern: string;
     padLength: number;
   };
   maxFrames: number;
+  dpi?: number; // print resolution recorded in the frames (PNG, JPEG, TIFF, BMP); none when unset
+  provenance?: boolean; // embed source, frame and settings in PNG and JPEG frames (see provenance.ts)
   outputFormat: {
-    type: 'png' | 'jpeg' | 'png-compressed';
-    quality?: number; // For JPEG (1-100)
+    type: OutputFormatType;
+    quality?: number; // For JPEG, WebP and AVIF (1-100)
+    lossless?: boolean; // WebP only
+    colors?: number; // png-compressed palette size (2-256)
+    dither?: boolean; // png-compressed Floyd–Steinberg dithering
   };
   split?: SplitExport; // NEW
+  resume?: ResumePoint; // set by ProcessingController when continuing a paused job
+  segment?: SegmentTask; // set by the worker pool on each worker's share of the range
 }
 
 export interface ExtractedFrame {
@@ -48,19 +121,51 @@ export interface ExtractedFrame {
   blob: Blob;
   url: string;
   filename: string;
+  originalSize?: number; // png-compressed: bytes the same frame took as a plain PNG
+}
+
+// Per-worker statistics reported while a pooled extraction runs
+export interface WorkerThroughput {
+  worker: number;        // 1-based
+  segments: number;      // segments finished
+  frames: number;
+  fps: number;           // frames per second of wall time since the worker started
 }
 
 export interface ExtractionProgress {
   frames: number;
   percent: number;
   eta?: number;
-  status: 'idle' | 'processing' | 'complete' | 'error' | 'cancelled';
+  status: 'idle' | 'processing' | 'complete' | 'error' | 'cancelled' | 'paused';
   error?: string;
+  workers?: WorkerThroughput[];
+}
+
+// Demuxed video (WebCodecs engine)
+export interface VideoTrackInfo {
+  codec: string;              // WebCodecs codec string, e.g. avc1.64001F
+  codedWidth: number;
+  codedHeight: number;
+  description?: Uint8Array;   // avcC / hvcC payload passed to VideoDecoder.configure
+  timescale: number;
+  duration: number;           // seconds
+  frameCount: number;
+}
+
+export interface VideoSample {
+  index: number;              // decode order
+  offset: number;             // byte offset in the source file
+  size: number;
+  isKey: boolean;
+  dts: number;                // microseconds
+  pts: number;                // microseconds
+  duration: number;           // microseconds
 }
 
 // Worker Messages
 export type WorkerInMessage =
   | { type: 'INIT'; basePath?: string }
+  | { type: 'PROBE'; file: File; metadata?: FileMetadata }
   | { type: 'SELF_TEST' }
   | { 
       type: 'EXTRACT'; 
@@ -78,18 +183,23 @@ export interface PartReady {
   endFrame: number;         // inclusive
   filename: string;         // suggested zip filename
   zip: Blob;                // ZIP blob
+  endTimestamp?: number;    // ms, timestamp of the part's last frame
 }
 
+// Machine-readable reason attached to some engine errors
+export type EngineErrorCode = 'size-limit';
+
 export type WorkerOutMessage =
   | { type: 'ALIVE' }
-  | { type: 'FFMPEG_READY'; initMode?: 'blob' | 'http' | 'blob-cdn' | 'blob-cdn2'; base?: string }
-  | { type: 'READY' }
-  | { type: 'META'; metadata: FileMetadata }
+  | { type: 'READY'; initMode?: 'blob' | 'http' | 'blob-cdn' | 'blob-cdn1' | 'blob-cdn2'; base?: string }
+  | { type: 'META'; probe: ContainerProbe }
+  | { type: 'SELF_TEST_RESULT'; ok: boolean; detail?: string }
   | { type: 'PROGRESS'; progress: ExtractionProgress }
   | { type: 'FRAME'; frame: ExtractedFrame }
   | PartReady
   | { type: 'COMPLETE'; totalFrames: number }
-  | { type: 'ERROR'; error: string };
+  | { type: 'CANCELLED'; totalFrames: number } // stopped early; frames and parts sent so far are valid
+  | { type: 'ERROR'; error: string; code?: EngineErrorCode };
 
 export const SUPPORTED_FORMATS = {
   'video/mp4': ['.mp4'],
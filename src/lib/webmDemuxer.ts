@@ -0,0 +1,534 @@
+// WebM/Matroska demuxer for the WebCodecs engine
+// Reads Info, Tracks and Cues up front, then streams SimpleBlock/BlockGroup frames cluster by cluster.
+// Handles the unknown-size Segment/Cluster elements that MediaRecorder writes.
+
+import type { ContainerProbe, QuarterTurn, VideoSample, VideoTrackInfo } from './types';
+import { avcCodecString, hevcCodecString, vp9CodecString, av1CodecString } from './codecString';
+import { quarterTurn } from './orientation';
+
+// Element IDs (with their length marker bits, as written in the file)
+export const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  DisplayWidth: 0x54b0,
+  DisplayHeight: 0x54ba,
+  Projection: 0x7670,
+  ProjectionPoseRoll: 0x7675,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Tags: 0x1254c367,
+  Chapters: 0x1043a770,
+  Attachments: 0x1941a469,
+} as const;
+
+// Level-1 elements: seeing one of these ends an unknown-size Cluster
+const LEVEL1 = new Set<number>([
+  EBML_ID.SeekHead, EBML_ID.Info, EBML_ID.Tracks, EBML_ID.Cues, EBML_ID.Cluster,
+  EBML_ID.Tags, EBML_ID.Chapters, EBML_ID.Attachments,
+]);
+
+export interface EbmlElement {
+  id: number;
+  dataStart: number;
+  end: number;            // Infinity for unknown-size elements
+  headerSize: number;
+}
+
+export interface WebmCue {
+  time: number;           // microseconds
+  clusterOffset: number;  // absolute byte offset of the Cluster element
+}
+
+export interface WebmVideoTrack extends VideoTrackInfo {
+  trackNumber: number;
+  codecId: string;
+  displayWidth?: number;
+  displayHeight?: number;
+  rotation?: QuarterTurn;   // clockwise, from the projection roll
+  defaultDuration?: number; // microseconds per frame, if the muxer wrote it
+}
+
+export interface WebmDemuxed {
+  track: WebmVideoTrack;
+  cues: WebmCue[];
+  firstClusterOffset: number;
+  /** Encoded frames of the video track in file order, starting at a Cluster offset. */
+  read(fromClusterOffset?: number): AsyncGenerator<{ sample: VideoSample; data: Uint8Array }>;
+}
+
+// --- EBML primitives ------------------------------------------------------
+
+function readVintId(buf: Uint8Array, p: number): { value: number; length: number } | null {
+  const first = buf[p];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (length > 4 || p + length > buf.length) return null;
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + buf[p + i];
+  return { value, length };
+}
+
+function readVintSize(buf: Uint8Array, p: number): { value: number; length: number; unknown: boolean } | null {
+  const first = buf[p];
+  if (first === undefined || first === 0) return null;
+  const length = Math.clz32(first) - 23;
+  if (length > 8 || p + length > buf.length) return null;
+  let value = first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[p + i];
+    if (buf[p + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: allOnes };
+}
+
+/** Parse an element header at p; offsets are relative to buf plus base. */
+export function readElementHeader(buf: Uint8Array, p: number, base = 0): EbmlElement | null {
+  const id = readVintId(buf, p);
+  if (!id) return null;
+  const size = readVintSize(buf, p + id.length);
+  if (!size) return null;
+  const headerSize = id.length + size.length;
+  const dataStart = base + p + headerSize;
+  return { id: id.value, dataStart, end: size.unknown ? Infinity : dataStart + size.value, headerSize };
+}
+
+/** Enumerate child elements of an in-memory region. */
+export function* ebmlChildren(buf: Uint8Array, start: number, end: number): Generator<EbmlElement> {
+  let p = start;
+  while (p < end) {
+    const el = readElementHeader(buf, p);
+    if (!el || !Number.isFinite(el.end) || el.end > end) return;
+    yield el;
+    p = el.end;
+  }
+}
+
+export function ebmlUint(buf: Uint8Array, el: EbmlElement) {
+  let v = 0;
+  for (let i = el.dataStart; i < el.end; i++) v = v * 256 + buf[i];
+  return v;
+}
+
+export function ebmlFloat(buf: Uint8Array, el: EbmlElement) {
+  const view = new DataView(buf.buffer, buf.byteOffset + el.dataStart, el.end - el.dataStart);
+  return el.end - el.dataStart === 4 ? view.getFloat32(0) : view.getFloat64(0);
+}
+
+export function ebmlString(buf: Uint8Array, el: EbmlElement) {
+  return new TextDecoder().decode(buf.subarray(el.dataStart, el.end)).replace(/\0+$/, '');
+}
+
+// Buffered random-access reader over a Blob; keeps one window in memory
+class BlobWindow {
+  private buf = new Uint8Array(0);
+  private start = 0;
+
+  constructor(private file: Blob, private windowSize = 1 << 20) {}
+
+  get size() { return this.file.size; }
+
+  async bytes(pos: number, length: number): Promise<Uint8Array> {
+    if (pos >= this.start && pos + length <= this.start + this.buf.length) {
+      return this.buf.subarray(pos - this.start, pos - this.start + length);
+    }
+    const readLength = Math.max(length, this.windowSize);
+    this.buf = new Uint8Array(await this.file.slice(pos, pos + readLength).arrayBuffer());
+    this.start = pos;
+    return this.buf.subarray(0, Math.min(length, this.buf.length));
+  }
+
+  async header(pos: number): Promise<EbmlElement | null> {
+    const h = await this.bytes(pos, 12);
+    return readElementHeader(h, 0, pos);
+  }
+}
+
+// --- Header parsing -------------------------------------------------------
+
+const CODECS: Record<string, string> = {
+  V_VP8: 'vp8',
+  V_VP9: 'vp09.00.10.08',
+  V_AV1: 'av01.0.04M.08',
+};
+
+// VP9 CodecPrivate carries optional (id, length, value) feature records
+function vp9FromPrivate(priv?: Uint8Array) {
+  if (!priv?.length) return CODECS.V_VP9;
+  let profile = 0, level = 10, bitDepth = 8;
+  for (let p = 0; p + 2 <= priv.length;) {
+    const id = priv[p], len = priv[p + 1], v = priv[p + 2];
+    if (id === 1) profile = v;
+    else if (id === 2) level = v;
+    else if (id === 3) bitDepth = v;
+    p += 2 + len;
+  }
+  return vp9CodecString(profile, level, bitDepth);
+}
+
+function webCodecsConfig(codecId: string, priv?: Uint8Array): { codec: string; description?: Uint8Array } {
+  switch (codecId) {
+    case 'V_VP8':
+      return { codec: CODECS.V_VP8 };
+    case 'V_VP9':
+      return { codec: vp9FromPrivate(priv) };
+    case 'V_AV1':
+      return priv?.length >= 4 ? { codec: av1CodecString(priv), description: priv } : { codec: CODECS.V_AV1 };
+    case 'V_MPEG4/ISO/AVC':
+      if (!priv?.length) throw new Error('H.264 track is missing CodecPrivate');
+      return { codec: avcCodecString('avc1', priv), description: priv };
+    case 'V_MPEGH/ISO/HEVC':
+      if (!priv?.length) throw new Error('HEVC track is missing CodecPrivate');
+      return { codec: hevcCodecString('hvc1', priv), description: priv };
+    default:
+      throw new Error(`Unsupported WebM video codec: ${codecId}`);
+  }
+}
+
+function parseVideoTrack(buf: Uint8Array, tracks: EbmlElement) {
+  for (const entry of ebmlChildren(buf, tracks.dataStart, tracks.end)) {
+    if (entry.id !== EBML_ID.TrackEntry) continue;
+    let trackNumber = 0, type = 0, codecId = '', defaultDuration = 0;
+    let priv: Uint8Array | undefined;
+    let width = 0, height = 0, displayWidth = 0, displayHeight = 0, roll = 0;
+    for (const el of ebmlChildren(buf, entry.dataStart, entry.end)) {
+      if (el.id === EBML_ID.TrackNumber) trackNumber = ebmlUint(buf, el);
+      else if (el.id === EBML_ID.TrackType) type = ebmlUint(buf, el);
+      else if (el.id === EBML_ID.CodecID) codecId = ebmlString(buf, el);
+      else if (el.id === EBML_ID.CodecPrivate) priv = buf.slice(el.dataStart, el.end);
+      else if (el.id === EBML_ID.DefaultDuration) defaultDuration = ebmlUint(buf, el);
+      else if (el.id === EBML_ID.Video) {
+        for (const v of ebmlChildren(buf, el.dataStart, el.end)) {
+          if (v.id === EBML_ID.PixelWidth) width = ebmlUint(buf, v);
+          else if (v.id === EBML_ID.PixelHeight) height = ebmlUint(buf, v);
+          else if (v.id === EBML_ID.DisplayWidth) displayWidth = ebmlUint(buf, v);
+          else if (v.id === EBML_ID.DisplayHeight) displayHeight = ebmlUint(buf, v);
+          else if (v.id === EBML_ID.Projection) {
+            for (const p of ebmlChildren(buf, v.dataStart, v.end)) {
+              if (p.id === EBML_ID.ProjectionPoseRoll) roll = ebmlFloat(buf, p);
+            }
+          }
+        }
+      }
+    }
+    if (type === 1) {
+      // The roll turns the picture counter-clockwise
+      return { trackNumber, codecId, priv, defaultDuration, width, height, displayWidth, displayHeight, rotation: quarterTurn(-roll) };
+    }
+  }
+  return null;
+}
+
+function parseCues(buf: Uint8Array, cues: EbmlElement, segmentStart: number, trackNumber: number, toUs: (t: number) => number): WebmCue[] {
+  const out: WebmCue[] = [];
+  for (const point of ebmlChildren(buf, cues.dataStart, cues.end)) {
+    if (point.id !== EBML_ID.CuePoint) continue;
+    let time = 0;
+    for (const el of ebmlChildren(buf, point.dataStart, point.end)) {
+      if (el.id === EBML_ID.CueTime) time = ebmlUint(buf, el);
+      else if (el.id === EBML_ID.CueTrackPositions) {
+        let track = 0, cluster = -1;
+        for (const pos of ebmlChildren(buf, el.dataStart, el.end)) {
+          if (pos.id === EBML_ID.CueTrack) track = ebmlUint(buf, pos);
+          else if (pos.id === EBML_ID.CueClusterPosition) cluster = ebmlUint(buf, pos);
+        }
+        if (cluster >= 0 && (!track || track === trackNumber)) {
+          out.push({ time: toUs(time), clusterOffset: segmentStart + cluster });
+        }
+      }
+    }
+  }
+  return out.sort((a, b) => a.time - b.time);
+}
+
+// Block header: track vint, int16 relative timestamp, flags, optional lacing
+function parseBlock(data: Uint8Array): { track: number; relTime: number; flags: number; frames: Array<[number, number]> } | null {
+  const track = readVintSize(data, 0);
+  if (!track) return null;
+  let p = track.length;
+  const relTime = (data[p] << 24 >> 16) | data[p + 1];
+  const flags = data[p + 2];
+  p += 3;
+  const lacing = (flags >> 1) & 3;
+  if (lacing === 0) return { track: track.value, relTime, flags, frames: [[p, data.length - p]] };
+
+  const count = data[p++] + 1;
+  const sizes: number[] = [];
+  if (lacing === 1) { // Xiph
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      while (data[p] === 255) { size += 255; p++; }
+      size += data[p++];
+      sizes.push(size);
+    }
+  } else if (lacing === 3) { // EBML
+    const first = readVintSize(data, p);
+    if (!first) return null;
+    p += first.length;
+    sizes.push(first.value);
+    for (let i = 1; i < count - 1; i++) {
+      const diff = readVintSize(data, p);
+      if (!diff) return null;
+      p += diff.length;
+      const bias = Math.pow(2, 7 * diff.length - 1) - 1;
+      sizes.push(sizes[i - 1] + diff.value - bias);
+    }
+  } else { // fixed
+    const each = Math.floor((data.length - p) / count);
+    for (let i = 0; i < count - 1; i++) sizes.push(each);
+  }
+  const used = sizes.reduce((a, b) => a + b, 0);
+  sizes.push(data.length - p - used);
+
+  const frames: Array<[number, number]> = [];
+  for (const size of sizes) {
+    frames.push([p, size]);
+    p += size;
+  }
+  return { track: track.value, relTime, flags, frames };
+}
+
+/** Open a WebM/Matroska file and locate its first video track. */
+export async function demuxWebm(file: Blob): Promise<WebmDemuxed> {
+  const reader = new BlobWindow(file);
+
+  const ebml = await reader.header(0);
+  if (!ebml || ebml.id !== EBML_ID.EBML) throw new Error('Not an EBML file');
+  const segment = await reader.header(ebml.end);
+  if (!segment || segment.id !== EBML_ID.Segment) throw new Error('WebM has no Segment element');
+  const segmentStart = segment.dataStart;
+  const segmentEnd = Math.min(segment.end, file.size);
+
+  // Walk level-1 elements up to the first Cluster, remembering where things are
+  const level1 = new Map<number, number>();
+  let firstClusterOffset = -1;
+  for (let pos = segmentStart; pos < segmentEnd;) {
+    const el = await reader.header(pos);
+    if (!el) break;
+    const start = pos;
+    if (el.id === EBML_ID.Cluster) { firstClusterOffset = start; break; }
+    if (!level1.has(el.id)) level1.set(el.id, start);
+    if (el.id === EBML_ID.SeekHead && Number.isFinite(el.end)) {
+      const sh = await reader.bytes(el.dataStart, el.end - el.dataStart);
+      for (const seek of ebmlChildren(sh, 0, sh.length)) {
+        if (seek.id !== EBML_ID.Seek) continue;
+        let id = 0, position = -1;
+        for (const c of ebmlChildren(sh, seek.dataStart, seek.end)) {
+          if (c.id === EBML_ID.SeekID) id = ebmlUint(sh, c);
+          else if (c.id === EBML_ID.SeekPosition) position = ebmlUint(sh, c);
+        }
+        if (id && position >= 0 && !level1.has(id)) level1.set(id, segmentStart + position);
+      }
+    }
+    if (!Number.isFinite(el.end)) break;
+    pos = el.end;
+  }
+
+  const loadLevel1 = async (id: number) => {
+    const at = level1.get(id);
+    if (at === undefined || at >= file.size) return null;
+    const el = await reader.header(at);
+    if (!el || el.id !== id || !Number.isFinite(el.end)) return null;
+    const bytes = new Uint8Array(await file.slice(at, el.end).arrayBuffer());
+    return { bytes, el: { ...el, dataStart: el.headerSize, end: el.end - at } };
+  };
+
+  const info = await loadLevel1(EBML_ID.Info);
+  let timestampScale = 1_000_000;
+  let durationTicks = 0;
+  if (info) {
+    for (const el of ebmlChildren(info.bytes, info.el.dataStart, info.el.end)) {
+      if (el.id === EBML_ID.TimestampScale) timestampScale = ebmlUint(info.bytes, el);
+      else if (el.id === EBML_ID.Duration) durationTicks = ebmlFloat(info.bytes, el);
+    }
+  }
+  const toUs = (ticks: number) => Math.round((ticks * timestampScale) / 1000);
+
+  const tracks = await loadLevel1(EBML_ID.Tracks);
+  if (!tracks) throw new Error('WebM has no Tracks element');
+  const video = parseVideoTrack(tracks.bytes, tracks.el);
+  if (!video) throw new Error('WebM has no video track');
+  const { codec, description } = webCodecsConfig(video.codecId, video.priv);
+
+  const cuesEl = await loadLevel1(EBML_ID.Cues);
+  const cues = cuesEl ? parseCues(cuesEl.bytes, cuesEl.el, segmentStart, video.trackNumber, toUs) : [];
+
+  const durationSec = (durationTicks * timestampScale) / 1e9;
+  const defaultDuration = video.defaultDuration ? video.defaultDuration / 1000 : undefined;
+
+  const track: WebmVideoTrack = {
+    codec,
+    description,
+    codedWidth: video.width,
+    codedHeight: video.height,
+    displayWidth: video.displayWidth || undefined,
+    displayHeight: video.displayHeight || undefined,
+    rotation: video.rotation || undefined,
+    timescale: 1e9 / timestampScale,
+    duration: durationSec,
+    frameCount: defaultDuration && durationSec ? Math.round((durationSec * 1e6) / defaultDuration) : 0,
+    trackNumber: video.trackNumber,
+    codecId: video.codecId,
+    defaultDuration,
+  };
+
+  async function* read(fromClusterOffset = firstClusterOffset) {
+    if (fromClusterOffset < 0) return;
+    const frameReader = new BlobWindow(file, 4 << 20);
+    let index = 0;
+    let pos = fromClusterOffset;
+
+    while (pos < segmentEnd) {
+      const el = await frameReader.header(pos);
+      if (!el) return;
+      if (el.id !== EBML_ID.Cluster) {
+        if (!Number.isFinite(el.end)) return;
+        pos = el.end;
+        continue;
+      }
+
+      // Inside a cluster: Timestamp first, then blocks
+      const clusterEnd = Math.min(el.end, segmentEnd);
+      let clusterTime = 0;
+      let p = el.dataStart;
+      while (p < clusterEnd) {
+        const c = await frameReader.header(p);
+        if (!c || (!Number.isFinite(el.end) && LEVEL1.has(c.id))) break;
+        const cEnd = Number.isFinite(c.end) ? c.end : clusterEnd;
+
+        if (c.id === EBML_ID.Timestamp) {
+          const b = await frameReader.bytes(c.dataStart, cEnd - c.dataStart);
+          clusterTime = ebmlUint(b, { id: c.id, dataStart: 0, end: b.length, headerSize: 0 });
+        } else if (c.id === EBML_ID.SimpleBlock || c.id === EBML_ID.BlockGroup) {
+          let blockStart = c.dataStart;
+          let blockEnd = cEnd;
+          let blockDuration = -1;
+          let isKey = false;
+          if (c.id === EBML_ID.BlockGroup) {
+            const g = await frameReader.bytes(c.dataStart, cEnd - c.dataStart);
+            let hasReference = false;
+            for (const ge of ebmlChildren(g, 0, g.length)) {
+              if (ge.id === EBML_ID.Block) { blockStart = c.dataStart + ge.dataStart; blockEnd = c.dataStart + ge.end; }
+              else if (ge.id === EBML_ID.BlockDuration) blockDuration = ebmlUint(g, ge);
+              else if (ge.id === EBML_ID.ReferenceBlock) hasReference = true;
+            }
+            isKey = !hasReference;
+          }
+
+          const data = (await frameReader.bytes(blockStart, blockEnd - blockStart)).slice();
+          const block = parseBlock(data);
+          if (block && block.track === track.trackNumber) {
+            if (c.id === EBML_ID.SimpleBlock) isKey = (block.flags & 0x80) !== 0;
+            const baseUs = toUs(clusterTime + block.relTime);
+            const perFrame = blockDuration >= 0
+              ? toUs(blockDuration) / block.frames.length
+              : (defaultDuration ?? 0);
+            for (let k = 0; k < block.frames.length; k++) {
+              const [off, size] = block.frames[k];
+              const ts = Math.round(baseUs + k * perFrame);
+              yield {
+                sample: {
+                  index: index++,
+                  offset: blockStart + off,
+                  size,
+                  isKey: isKey && k === 0,
+                  dts: ts,
+                  pts: ts,
+                  duration: Math.round(perFrame),
+                },
+                data: data.subarray(off, off + size),
+              };
+            }
+          }
+        }
+
+        if (!Number.isFinite(c.end)) break;
+        p = c.end;
+      }
+      pos = p;
+      if (Number.isFinite(el.end)) pos = el.end;
+    }
+  }
+
+  return { track, cues, firstClusterOffset, read };
+}
+
+const CLUSTER_ID_BYTES = [0x1f, 0x43, 0xb6, 0x75];
+const TAIL_SCAN_BYTES = 4 << 20;
+
+// End time of the last cluster, found by scanning the file tail for a Cluster ID
+async function lastBlockEndUs(file: Blob, webm: WebmDemuxed): Promise<number> {
+  const tailStart = Math.max(webm.firstClusterOffset, file.size - TAIL_SCAN_BYTES);
+  const tail = new Uint8Array(await file.slice(tailStart, file.size).arrayBuffer());
+  for (let i = tail.length - 4; i >= 0; i--) {
+    if (tail[i] !== CLUSTER_ID_BYTES[0] || tail[i + 1] !== CLUSTER_ID_BYTES[1]
+      || tail[i + 2] !== CLUSTER_ID_BYTES[2] || tail[i + 3] !== CLUSTER_ID_BYTES[3]) continue;
+    let end = 0;
+    try {
+      for await (const { sample } of webm.read(tailStart + i)) end = Math.max(end, sample.pts + sample.duration);
+    } catch {
+      end = 0; // false match inside a block payload
+    }
+    if (end > 0) return end;
+  }
+  return 0;
+}
+
+/** Read fps, codec, frame count and duration from Info/Tracks, measuring blocks when headers are silent. */
+export async function probeWebm(file: Blob): Promise<ContainerProbe> {
+  const webm = await demuxWebm(file);
+  const { track } = webm;
+  let fps = track.defaultDuration ? 1e6 / track.defaultDuration : undefined;
+  let duration = track.duration;
+
+  // MediaRecorder output has neither DefaultDuration nor Duration: use the median block spacing
+  if (!fps) {
+    const times: number[] = [];
+    for await (const { sample } of webm.read()) {
+      times.push(sample.pts);
+      if (times.length >= 120) break;
+    }
+    const deltas = times.slice(1).map((t, i) => t - times[i]).filter(d => d > 0).sort((a, b) => a - b);
+    if (deltas.length) fps = 1e6 / deltas[deltas.length >> 1];
+  }
+  if (!duration) duration = (await lastBlockEndUs(file, webm)) / 1e6;
+
+  return {
+    fps: fps ? Math.round(fps * 1000) / 1000 : undefined,
+    codec: track.codec,
+    frameCount: track.frameCount || undefined,
+    duration: duration || undefined,
+    timescale: track.timescale,
+    width: track.codedWidth || undefined,
+    height: track.codedHeight || undefined,
+    rotation: track.rotation,
+  };
+}
@@ -0,0 +1,181 @@
+// Animated WebP decoder
+// Reads the RIFF container (VP8X, ANIM, ANMF), wraps each frame bitstream as a standalone WebP
+// for the browser to decode, then composites frames with their offsets, blending and disposal.
+
+// Browsers play durations of 10 ms or less at 100 ms, as they do for GIF; match them
+const MIN_DURATION_MS = 10;
+const DEFAULT_DURATION_MS = 100;
+
+export interface WebpFrameInfo {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  duration: number;       // ms, after browser-style clamping
+  blend: boolean;         // alpha-blend over the canvas; false replaces the frame rectangle
+  disposeToBackground: boolean;
+  chunks: { type: string; data: Uint8Array }[]; // ALPH / VP8 / VP8L
+}
+
+export interface ParsedWebp {
+  width: number;
+  height: number;
+  animated: boolean;
+  backgroundColor?: [number, number, number, number]; // RGBA from ANIM; a hint browsers ignore
+  loopCount?: number;     // 0 = forever
+  frames: WebpFrameInfo[];
+}
+
+export interface DecodedWebpFrame {
+  index: number;
+  timestamp: number;      // ms from the start of the animation
+  duration: number;       // ms
+  image: OffscreenCanvas; // composited canvas; reused between frames
+}
+
+const fourcc = (buf: Uint8Array, p: number) => String.fromCharCode(buf[p], buf[p + 1], buf[p + 2], buf[p + 3]);
+const u24 = (buf: Uint8Array, p: number) => buf[p] | (buf[p + 1] << 8) | (buf[p + 2] << 16);
+
+function readChunks(buf: Uint8Array, start: number, end: number) {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let p = start; p + 8 <= end;) {
+    const type = fourcc(buf, p);
+    const size = view.getUint32(p + 4, true);
+    chunks.push({ type, data: buf.subarray(p + 8, Math.min(p + 8 + size, end)) });
+    p += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+// Frame size of a still bitstream, for files without VP8X
+function bitstreamSize(type: string, d: Uint8Array): { width: number; height: number } {
+  if (type === 'VP8L') {
+    const bits = d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  // VP8 key frame: 3-byte frame tag, 3-byte start code, then 14-bit width and height
+  return { width: (d[6] | (d[7] << 8)) & 0x3fff, height: (d[8] | (d[9] << 8)) & 0x3fff };
+}
+
+const isImageChunk = (type: string) => type === 'ALPH' || type === 'VP8 ' || type === 'VP8L';
+
+/** Parse a WebP container without decoding pixel data. A still WebP parses as a single frame. */
+export function parseWebp(buf: Uint8Array): ParsedWebp {
+  if (buf.length < 20 || fourcc(buf, 0) !== 'RIFF' || fourcc(buf, 8) !== 'WEBP') throw new Error('Not a WebP file');
+  const riffEnd = Math.min(buf.length, 8 + new DataView(buf.buffer, buf.byteOffset).getUint32(4, true));
+  const chunks = readChunks(buf, 12, riffEnd);
+
+  let width = 0;
+  let height = 0;
+  let backgroundColor: ParsedWebp['backgroundColor'];
+  let loopCount: number | undefined;
+  const frames: WebpFrameInfo[] = [];
+
+  for (const { type, data } of chunks) {
+    if (type === 'VP8X') {
+      width = u24(data, 4) + 1;
+      height = u24(data, 7) + 1;
+    } else if (type === 'ANIM') {
+      // Stored as BGRA
+      backgroundColor = [data[2], data[1], data[0], data[3]];
+      loopCount = data[4] | (data[5] << 8);
+    } else if (type === 'ANMF') {
+      const d = u24(data, 12);
+      frames.push({
+        left: u24(data, 0) * 2,
+        top: u24(data, 3) * 2,
+        width: u24(data, 6) + 1,
+        height: u24(data, 9) + 1,
+        duration: d <= MIN_DURATION_MS ? DEFAULT_DURATION_MS : d,
+        blend: (data[15] & 0x02) === 0,
+        disposeToBackground: (data[15] & 0x01) !== 0,
+        chunks: readChunks(data, 16, data.length).filter(c => isImageChunk(c.type)),
+      });
+    }
+  }
+
+  const animated = frames.length > 0;
+  if (!animated) {
+    const still = chunks.filter(c => isImageChunk(c.type));
+    const bitstream = still.find(c => c.type !== 'ALPH');
+    if (!bitstream) throw new Error('WebP contains no image data');
+    if (!width || !height) ({ width, height } = bitstreamSize(bitstream.type, bitstream.data));
+    frames.push({
+      left: 0, top: 0, width, height, duration: 0,
+      blend: false, disposeToBackground: false,
+      chunks: still,
+    });
+  }
+
+  return { width, height, animated, backgroundColor, loopCount, frames };
+}
+
+/** Standalone WebP for one frame; frames with an ALPH chunk need the extended (VP8X) layout. */
+export function buildFrameWebp(frame: WebpFrameInfo): Uint8Array {
+  const hasAlpha = frame.chunks.some(c => c.type === 'ALPH');
+  const chunks = hasAlpha
+    ? [{ type: 'VP8X', data: vp8xHeader(frame.width, frame.height) }, ...frame.chunks]
+    : frame.chunks.filter(c => c.type !== 'ALPH');
+
+  const size = 12 + chunks.reduce((n, c) => n + 8 + c.data.length + (c.data.length & 1), 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  const ascii = (p: number, s: string) => { for (let i = 0; i < 4; i++) out[p + i] = s.charCodeAt(i); };
+  ascii(0, 'RIFF');
+  view.setUint32(4, size - 8, true);
+  ascii(8, 'WEBP');
+  let p = 12;
+  for (const c of chunks) {
+    ascii(p, c.type);
+    view.setUint32(p + 4, c.data.length, true);
+    out.set(c.data, p + 8);
+    p += 8 + c.data.length + (c.data.length & 1);
+  }
+  return out;
+}
+
+function vp8xHeader(width: number, height: number): Uint8Array {
+  const d = new Uint8Array(10);
+  d[0] = 0x10; // alpha flag
+  const w = width - 1, h = height - 1;
+  d[4] = w & 0xff; d[5] = (w >> 8) & 0xff; d[6] = (w >> 16) & 0xff;
+  d[7] = h & 0xff; d[8] = (h >> 8) & 0xff; d[9] = (h >> 16) & 0xff;
+  return d;
+}
+
+export class WebpDecoder {
+  readonly webp: ParsedWebp;
+
+  constructor(buf: Uint8Array) {
+    this.webp = parseWebp(buf);
+  }
+
+  get width() { return this.webp.width; }
+  get height() { return this.webp.height; }
+  get frameCount() { return this.webp.frames.length; }
+
+  /** Composite every frame in order onto a single OffscreenCanvas. */
+  async *frames(): AsyncGenerator<DecodedWebpFrame> {
+    const { width, height, frames } = this.webp;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context');
+    let timestamp = 0;
+
+    for (let index = 0; index < frames.length; index++) {
+      const f = frames[index];
+      const bitmap = await createImageBitmap(new Blob([buildFrameWebp(f)], { type: 'image/webp' }));
+
+      if (!f.blend) ctx.clearRect(f.left, f.top, f.width, f.height);
+      ctx.drawImage(bitmap, f.left, f.top);
+      bitmap.close();
+
+      yield { index, timestamp, duration: f.duration, image: canvas };
+      timestamp += f.duration;
+
+      // Browsers dispose to transparent rather than the ANIM background colour
+      if (f.disposeToBackground) ctx.clearRect(f.left, f.top, f.width, f.height);
+    }
+  }
+}
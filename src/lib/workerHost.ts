@@ -0,0 +1,63 @@
+// Worker side of the FrameSource contract
+// Each engine worker supplies its handlers; this owns the message loop, probing and error reporting.
+
+import type { ExtractionSettings, FileMetadata, WorkerInMessage, WorkerOutMessage } from './types';
+import { EngineError, type SelfTestResult } from './frameSource';
+import { probeContainer } from './probe';
+import { sniffTrueType, type TrueType } from './sniff';
+
+type ReadyInfo = Omit<Extract<WorkerOutMessage, { type: 'READY' }>, 'type'>;
+
+export interface WorkerEngine {
+  init?(basePath?: string): Promise<ReadyInfo | void>;
+  /** Posts FRAME / PROGRESS / PART_READY while running, then COMPLETE, or CANCELLED once cancel() was called. */
+  extract(file: File, settings: ExtractionSettings, metadata?: FileMetadata): Promise<void>;
+  selfTest(): Promise<SelfTestResult>;
+  /** Stop after the current frame; extract() then flushes partial output and posts CANCELLED. */
+  cancel(): void;
+}
+
+export function post(msg: WorkerOutMessage) {
+  (postMessage as (msg: WorkerOutMessage) => void)(msg);
+}
+
+const errorMessage = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+export function serveEngine(engine: WorkerEngine) {
+  // Post any crash back to the main thread so the UI can fall back
+  self.addEventListener('unhandledrejection', (e: PromiseRejectionEvent) => {
+    post({ type: 'ERROR', error: `Unhandled rejection: ${errorMessage(e.reason)}` });
+  });
+
+  self.onmessage = async (evt: MessageEvent<WorkerInMessage>) => {
+    const msg = evt.data;
+    try {
+      switch (msg.type) {
+        case 'INIT': {
+          const info = await engine.init?.(msg.basePath);
+          post({ type: 'READY', ...(info || {}) });
+          break;
+        }
+        case 'PROBE': {
+          const trueType = (msg.metadata?.trueType as TrueType | undefined) || await sniffTrueType(msg.file);
+          post({ type: 'META', probe: await probeContainer(msg.file, trueType) });
+          break;
+        }
+        case 'SELF_TEST':
+          post({ type: 'SELF_TEST_RESULT', ...await engine.selfTest() });
+          break;
+        case 'EXTRACT':
+          await engine.extract(msg.file, msg.settings, msg.metadata);
+          break;
+        case 'CANCEL':
+          engine.cancel();
+          break;
+      }
+    } catch (err) {
+      post({ type: 'ERROR', error: errorMessage(err), code: err instanceof EngineError ? err.code : undefined });
+    }
+  };
+
+  // Post ALIVE immediately so the UI knows the worker booted
+  post({ type: 'ALIVE' });
+}
@@ -0,0 +1,330 @@
+// Parallel extraction
+// Splits the requested range into time segments that start on keyframes, decodes them on several
+// engine workers at once and merges the frames back in order with global numbering.
+
+import type {
+  ContainerProbe,
+  ExtractedFrame,
+  ExtractionSettings,
+  FileMetadata,
+  PartReady,
+  WorkerThroughput
+} from './types';
+import { createEventChannel, type EngineId, type FrameEvent, type FrameSource, type SelfTestResult } from './frameSource';
+import { createFrameSource } from './engineRegistry';
+import { keyframeTimesMs } from './demux';
+import { outputExtension, outputSize, tagFrame } from './frameOutput';
+import { SplitZipWriter, shouldPostFrames } from './splitExport';
+import { FrameNamer, fileBasename } from './naming';
+import { frameProvenance, type FrameProvenance } from './provenance';
+import { estimateFramesAndZip } from './estimate';
+
+// Engines that can start decoding anywhere in the file
+const POOLED_ENGINES: EngineId[] = ['webcodecs', 'ffmpeg'];
+const MAX_WORKERS = 8;
+// Shorter segments spend more time seeking than decoding
+const MIN_SEGMENT_MS = 4000;
+// Segments per worker, so a worker that finishes early picks up more of the range
+const SEGMENTS_PER_WORKER = 2;
+// Share of device memory the pool may plan to use
+const MEMORY_SHARE = 0.5;
+// navigator.deviceMemory is missing outside Chromium; assume a modest machine
+const DEFAULT_DEVICE_GB = 4;
+// A segment boundary sits this far before its keyframe so the keyframe opens the next segment
+const BOUNDARY_OFFSET_MS = 1;
+// Frames a segment should hold. Workers never run more than one segment each ahead of the one being
+// emitted, so this bounds the frames waiting in memory for their turn.
+const MAX_SEGMENT_FRAMES = 240;
+
+export interface TimeSegment {
+  startMs: number;
+  endMs: number;
+}
+
+/** Rough peak memory of one engine worker at this output size. */
+function workerMemoryBytes(engine: EngineId, metadata: FileMetadata, settings: ExtractionSettings): number {
+  const { width, height } = outputSize(settings, metadata.width, metadata.height);
+  const frameBytes = Math.max(width * height, metadata.width * metadata.height) * 4;
+  // FFmpeg: the core's heap plus decoder buffers; WebCodecs: the decode queue plus encode canvases
+  return engine === 'ffmpeg' ? 256 * 1024 ** 2 + frameBytes * 24 : 64 * 1024 ** 2 + frameBytes * 12;
+}
+
+// Encoded frames one worker's segment may hold while earlier segments are still being emitted
+function bufferMemoryBytes(metadata: FileMetadata, settings: ExtractionSettings): number {
+  const estimate = estimateFramesAndZip(metadata, settings);
+  return MAX_SEGMENT_FRAMES * (estimate.sizeBytesHigh / Math.max(1, estimate.frames));
+}
+
+// Requested range in ms, clipped to the file; null when the length is unknown
+function requestedRange(metadata: FileMetadata, settings: ExtractionSettings): TimeSegment | null {
+  if (!metadata.duration) return null;
+  const durationMs = metadata.duration * 1000;
+  const startMs = Math.max((settings.startTime || 0) * 1000, settings.resume?.afterMs ?? 0);
+  const endMs = Math.min(settings.endTime ? settings.endTime * 1000 : Infinity, durationMs);
+  return endMs > startMs ? { startMs, endMs } : null;
+}
+
+/** Workers to run for this job: bounded by cores, the memory budget and the length of the range. */
+export function poolSize(engine: EngineId, metadata: FileMetadata | undefined, settings: ExtractionSettings): number {
+  // Every-nth counts frames from the start of the range, which a segment cannot know
+  if (!metadata || !POOLED_ENGINES.includes(engine) || settings.mode === 'nth') return 1;
+  const range = requestedRange(metadata, settings);
+  if (!range) return 1;
+  // Leave a core for the page itself
+  const byCores = (navigator.hardwareConcurrency || 2) - 1;
+  const deviceGb = (navigator as Navigator & { deviceMemory?: number }).deviceMemory ?? DEFAULT_DEVICE_GB;
+  const perWorker = workerMemoryBytes(engine, metadata, settings) + bufferMemoryBytes(metadata, settings);
+  const byMemory = Math.floor((deviceGb * 1024 ** 3 * MEMORY_SHARE) / perWorker);
+  const byLength = Math.floor((range.endMs - range.startMs) / (MIN_SEGMENT_MS * SEGMENTS_PER_WORKER));
+  return Math.max(1, Math.min(MAX_WORKERS, byCores, byMemory, byLength));
+}
+
+/** Segments for a range: two per worker, more when that keeps each to MAX_SEGMENT_FRAMES. */
+function segmentCount(range: TimeSegment, metadata: FileMetadata, settings: ExtractionSettings, workers: number): number {
+  const lengthMs = range.endMs - range.startMs;
+  const { assumedFps } = estimateFramesAndZip(metadata, settings);
+  const byBuffer = Math.ceil((lengthMs / 1000) * assumedFps / MAX_SEGMENT_FRAMES);
+  // Very high frame rates would need segments too short to be worth the seek
+  const byLength = Math.max(1, Math.floor(lengthMs / MIN_SEGMENT_MS));
+  return Math.max(workers * SEGMENTS_PER_WORKER, Math.min(byBuffer, byLength));
+}
+
+/**
+ * Cut [startMs, endMs] into about `count` segments. Each inner boundary is moved to the nearest
+ * keyframe, when any are known, so no segment has to decode frames that belong to its neighbour.
+ */
+export function planSegments(range: TimeSegment, keyframesMs: number[], count: number): TimeSegment[] {
+  const { startMs, endMs } = range;
+  const inner = keyframesMs.filter(t => t - BOUNDARY_OFFSET_MS > startMs + MIN_SEGMENT_MS / 2 && t < endMs - MIN_SEGMENT_MS / 2);
+  const bounds = [startMs];
+  for (let k = 1; k < count; k++) {
+    const target = startMs + ((endMs - startMs) * k) / count;
+    let at = target;
+    if (keyframesMs.length) {
+      if (!inner.length) break;
+      at = inner.reduce((best, t) => (Math.abs(t - target) < Math.abs(best - target) ? t : best)) - BOUNDARY_OFFSET_MS;
+    }
+    if (at > bounds[bounds.length - 1]) bounds.push(at);
+  }
+  bounds.push(endMs);
+  return bounds.slice(1).map((end, i) => ({ startMs: bounds[i], endMs: end }));
+}
+
+// Settings for one segment: the original range start keeps the fps grid, the resume point skips
+// everything before the segment, and numbering starts from zero for the pool to offset. Provenance
+// records the final frame index, so the pool writes it (and the print resolution, to rewrite each
+// frame only once) after renumbering.
+function segmentSettings(settings: ExtractionSettings, segments: TimeSegment[], index: number): ExtractionSettings {
+  const seg = segments[index];
+  const last = index === segments.length - 1;
+  const afterMs = index === 0 ? settings.resume?.afterMs : seg.startMs;
+  return {
+    ...settings,
+    endTime: last ? settings.endTime : seg.endMs / 1000,
+    resume: afterMs === undefined ? undefined : { afterMs, frameOffset: 0, partOffset: 0 },
+    segment: { index, count: segments.length },
+    dpi: undefined,
+    provenance: false
+  };
+}
+
+async function tagPooledFrame(frame: ExtractedFrame, dpi: number | undefined, provenance?: FrameProvenance): Promise<ExtractedFrame> {
+  if (!dpi && !provenance) return frame;
+  const { blob } = await tagFrame({ blob: frame.blob }, { dpi, provenance: provenance?.frame(frame.index, frame.timestamp) });
+  URL.revokeObjectURL(frame.url);
+  return { ...frame, blob, url: URL.createObjectURL(blob) };
+}
+
+type PoolEvent =
+  | { type: 'frame'; segment: number; worker: number; frame: ExtractedFrame }
+  | { type: 'done'; segment: number; worker: number; finished: boolean };
+
+interface SegmentState {
+  frames: ExtractedFrame[];
+  done: boolean;
+  finished: boolean;   // ran to the end of its range rather than being cut short
+  lastMs: number;
+}
+
+/** FrameSource that runs one engine on several workers and looks like a single engine to the caller. */
+export class PooledFrameSource implements FrameSource {
+  private sources: FrameSource[] = [];
+  private cancelled = false;
+
+  constructor(readonly engine: EngineId, private size: number) {}
+
+  private worker(k: number): FrameSource {
+    while (this.sources.length <= k) this.sources.push(createFrameSource(this.engine));
+    return this.sources[k];
+  }
+
+  async init(): Promise<void> {
+    await Promise.all(Array.from({ length: this.size }, (_, k) => this.worker(k).init()));
+  }
+
+  probe(file: File, metadata?: FileMetadata): Promise<ContainerProbe> {
+    return this.worker(0).probe(file, metadata);
+  }
+
+  selfTest(): Promise<SelfTestResult> {
+    return this.worker(0).selfTest();
+  }
+
+  async *extract(file: File, settings: ExtractionSettings, metadata?: FileMetadata): AsyncGenerator<FrameEvent> {
+    this.cancelled = false;
+    const range = metadata && requestedRange(metadata, settings);
+    // Keyframes are only a refinement; without them boundaries fall at even times and decoders seek back
+    const keyframes = await keyframeTimesMs(file, metadata?.trueType).catch(() => []);
+    const segments = range ? planSegments(range, keyframes, segmentCount(range, metadata, settings, this.size)) : [];
+    if (segments.length < 2) {
+      yield* this.worker(0).extract(file, settings, metadata);
+      return;
+    }
+
+    const workers = Math.min(this.size, segments.length);
+    const state: SegmentState[] = segments.map(s => ({ frames: [], done: false, finished: false, lastMs: s.startMs }));
+    const stats: WorkerThroughput[] = Array.from({ length: workers }, (_, k) => ({ worker: k + 1, segments: 0, frames: 0, fps: 0 }));
+    const started = performance.now();
+    const channel = createEventChannel<PoolEvent>();
+    let nextTask = 0;
+    let failed = false;
+    let emitting = 0;
+    let wakers: (() => void)[] = [];
+    const wake = () => {
+      wakers.forEach(w => w());
+      wakers = [];
+    };
+    // A worker may start a segment at most `workers` ahead of the one being emitted, so frames that
+    // wait for earlier segments stay within about MAX_SEGMENT_FRAMES per worker
+    const runAhead = () => nextTask >= emitting + workers && !this.cancelled && !failed;
+
+    // Each worker takes the next unclaimed segment until none are left
+    const run = async (k: number) => {
+      const source = this.worker(k);
+      while (nextTask < segments.length && !this.cancelled && !failed) {
+        if (runAhead()) {
+          await new Promise<void>(resolve => wakers.push(resolve));
+          continue;
+        }
+        const segment = nextTask++;
+        let finished = false;
+        for await (const event of source.extract(file, segmentSettings(settings, segments, segment), metadata)) {
+          if (event.type === 'frame') channel.push({ type: 'frame', segment, worker: k, frame: event.frame });
+          else if (event.type === 'complete') finished = true;
+        }
+        channel.push({ type: 'done', segment, worker: k, finished });
+      }
+    };
+    Promise.all(Array.from({ length: workers }, (_, k) => run(k))).then(
+      () => channel.end(),
+      error => {
+        failed = true;
+        this.sources.forEach(s => s.cancel());
+        channel.fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+
+    // Frames leave in order: a segment is emitted once every segment before it has finished
+    const basename = fileBasename(metadata?.name || file.name);
+    const readyParts: PartReady[] = [];
+    const archive = new SplitZipWriter(basename, settings, metadata, part => readyParts.push(part));
+    const postFrames = shouldPostFrames(settings);
+    const namer = new FrameNamer(settings, { basename, engine: this.engine, ext: outputExtension(settings), fps: metadata?.fps });
+    const size = outputSize(settings, metadata?.width ?? 0, metadata?.height ?? 0);
+    const provenance = frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: this.engine });
+    const maxFrames = settings.maxFrames || Infinity;
+    const totalMs = segments[segments.length - 1].endMs - segments[0].startMs;
+    let index = settings.resume?.frameOffset ?? 0;
+
+    const release = (frames: ExtractedFrame[]) => frames.forEach(f => URL.revokeObjectURL(f.url));
+
+    try {
+      for await (const event of channel) {
+        const seg = state[event.segment];
+        const stat = stats[event.worker];
+        if (event.type === 'frame') {
+          seg.frames.push(event.frame);
+          seg.lastMs = event.frame.timestamp;
+          stat.frames++;
+        } else {
+          seg.done = true;
+          seg.finished = event.finished;
+          seg.lastMs = segments[event.segment].endMs;
+          stat.segments++;
+        }
+        stat.fps = stat.frames / Math.max(0.001, (performance.now() - started) / 1000);
+
+        const out: ExtractedFrame[] = [];
+        while (emitting < segments.length) {
+          const current = state[emitting];
+          for (const frame of current.frames) {
+            if (index >= maxFrames) {
+              URL.revokeObjectURL(frame.url);
+              continue;
+            }
+            const filename = namer.name({ index, timestampMs: frame.timestamp, ...size });
+            out.push({ ...frame, index, filename });
+            index++;
+          }
+          current.frames = [];
+          // A segment cut short by cancel leaves a gap; nothing after it can be numbered
+          if (!current.done || !current.finished) break;
+          emitting++;
+        }
+        if (index >= maxFrames && !this.cancelled) this.cancelled = true;
+        if (this.cancelled) this.sources.forEach(s => s.cancel());
+        wake();
+
+        for (let frame of out) {
+          frame = await tagPooledFrame(frame, settings.dpi, provenance);
+          await archive.add(frame.filename, frame.blob, frame.timestamp);
+          if (postFrames) yield { type: 'frame', frame };
+          else URL.revokeObjectURL(frame.url);
+          while (readyParts.length) yield { type: 'part', part: readyParts.shift()! };
+        }
+
+        const covered = state.reduce((sum, s, i) => sum + Math.max(0, Math.min(s.lastMs, segments[i].endMs) - segments[i].startMs), 0);
+        yield {
+          type: 'progress',
+          progress: {
+            frames: index,
+            percent: Math.min(99, Math.round((covered / totalMs) * 100)),
+            status: 'processing',
+            workers: stats.map(s => ({ ...s }))
+          }
+        };
+      }
+    } catch (error) {
+      await archive.abort();
+      state.forEach(s => release(s.frames));
+      throw error;
+    } finally {
+      // Nothing is emitted from here on, so workers held back for their turn stop instead
+      failed = true;
+      wake();
+    }
+
+    // Anything still held belongs after a gap left by cancel
+    state.forEach(s => release(s.frames));
+    await archive.finish();
+    while (readyParts.length) yield { type: 'part', part: readyParts.shift()! };
+    if (emitting === segments.length || index >= maxFrames) yield { type: 'complete', totalFrames: index };
+    else yield { type: 'cancelled', totalFrames: index };
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.sources.forEach(s => s.cancel());
+  }
+
+  dispose() {
+    this.sources.forEach(s => s.dispose());
+    this.sources = [];
+  }
+}
+
+/** A pooled source when the job is long enough and the machine has room, else a single engine. */
+export function createExtractionSource(engine: EngineId, metadata: FileMetadata | undefined, settings: ExtractionSettings): FrameSource {
+  const size = poolSize(engine, metadata, settings);
+  return size > 1 ? new PooledFrameSource(engine, size) : createFrameSource(engine);
+}
@@ -0,0 +1,389 @@
+// Streaming ZIP writer
+// Appends entries to a sink as they arrive instead of building the archive in memory. Entries are
+// written with their sizes up front (each frame is small), the central directory goes at the end,
+// and ZIP64 records are added once offsets, sizes or the entry count outgrow the classic format.
+
+import { crc32 } from './crc32';
+
+/** Where archive bytes go. `close` returns the finished archive when the sink can produce one. */
+export interface ZipSink {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<Blob | undefined>;
+  abort(): Promise<void>;
+}
+
+export interface ZipEntryOptions {
+  /** Deflate the entry; defaults to true except for already-compressed formats. */
+  compress?: boolean;
+  date?: Date;
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  method: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+
+// PNG, JPEG and friends are already compressed; deflating them again only burns CPU
+const COMPRESSED_EXT = /\.(png|jpe?g|webp|avif|gif|zip|mp4|webm)$/i;
+
+const encoder = new TextEncoder();
+
+function dosDateTime(d: Date) {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw' as CompressionFormat));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    // Older engines only know 'deflate' / 'gzip'
+    return null;
+  }
+}
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private closed = false;
+
+  constructor(private sink: ZipSink) {}
+
+  /** Bytes written so far. */
+  get size() { return this.offset; }
+  get entryCount() { return this.entries.length; }
+
+  async add(name: string, data: Blob | Uint8Array, options: ZipEntryOptions = {}) {
+    if (this.closed) throw new Error('ZIP archive is already closed');
+    if (this.names.has(name)) throw new Error(`Duplicate ZIP entry: ${name}`);
+    this.names.add(name);
+
+    const raw = data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+    const crc = crc32(raw);
+    let body = raw;
+    let method = METHOD_STORE;
+    if (options.compress ?? !COMPRESSED_EXT.test(name)) {
+      const deflated = await deflateRaw(raw);
+      if (deflated && deflated.length < raw.length) {
+        body = deflated;
+        method = METHOD_DEFLATE;
+      }
+    }
+
+    const { time, date } = dosDateTime(options.date ?? new Date());
+    const entry: CentralEntry = {
+      name: encoder.encode(name),
+      crc,
+      method,
+      compressedSize: body.length,
+      size: raw.length,
+      offset: this.offset,
+      time,
+      date,
+    };
+
+    await this.emit(localHeader(entry));
+    await this.emit(body);
+    this.entries.push(entry);
+  }
+
+  /** Write the central directory and close the sink. */
+  async close(): Promise<Blob | undefined> {
+    if (this.closed) throw new Error('ZIP archive is already closed');
+    this.closed = true;
+
+    const cdStart = this.offset;
+    const headers = this.entries.map(centralHeader);
+    const cdSize = headers.reduce((n, h) => n + h.length, 0);
+    const cd = new Uint8Array(cdSize);
+    let p = 0;
+    for (const h of headers) { cd.set(h, p); p += h.length; }
+    await this.emit(cd);
+
+    const count = this.entries.length;
+    const zip64 = count >= MAX_16 || cdStart >= MAX_32 || cdSize >= MAX_32;
+    if (zip64) {
+      const recordOffset = this.offset;
+      await this.emit(zip64EndRecord(count, cdSize, cdStart));
+      await this.emit(zip64Locator(recordOffset));
+    }
+    await this.emit(endRecord(count, cdSize, cdStart));
+    return this.sink.close();
+  }
+
+  async abort() {
+    this.closed = true;
+    await this.sink.abort();
+  }
+
+  private async emit(chunk: Uint8Array) {
+    await this.sink.write(chunk);
+    this.offset += chunk.length;
+  }
+}
+
+function localHeader(e: CentralEntry): Uint8Array {
+  // Sizes only need ZIP64 in the local header; the offset lives in the central directory
+  const zip64 = e.size >= MAX_32 || e.compressedSize >= MAX_32;
+  const extraLen = zip64 ? 20 : 0;
+  const out = new Uint8Array(30 + e.name.length + extraLen);
+  const v = new DataView(out.buffer);
+  v.setUint32(0, 0x04034b50, true);
+  v.setUint16(4, zip64 ? 45 : 20, true);
+  v.setUint16(6, FLAG_UTF8, true);
+  v.setUint16(8, e.method, true);
+  v.setUint16(10, e.time, true);
+  v.setUint16(12, e.date, true);
+  v.setUint32(14, e.crc, true);
+  v.setUint32(18, zip64 ? MAX_32 : e.compressedSize, true);
+  v.setUint32(22, zip64 ? MAX_32 : e.size, true);
+  v.setUint16(26, e.name.length, true);
+  v.setUint16(28, extraLen, true);
+  out.set(e.name, 30);
+  if (zip64) {
+    const x = 30 + e.name.length;
+    v.setUint16(x, 0x0001, true);
+    v.setUint16(x + 2, 16, true);
+    v.setBigUint64(x + 4, BigInt(e.size), true);
+    v.setBigUint64(x + 12, BigInt(e.compressedSize), true);
+  }
+  return out;
+}
+
+function centralHeader(e: CentralEntry): Uint8Array {
+  // ZIP64 extra holds, in order, only the fields that overflowed
+  const big = [e.size, e.compressedSize, e.offset].map(n => n >= MAX_32);
+  const extraFields = [e.size, e.compressedSize, e.offset].filter((_, i) => big[i]);
+  const extraLen = extraFields.length ? 4 + extraFields.length * 8 : 0;
+  const out = new Uint8Array(46 + e.name.length + extraLen);
+  const v = new DataView(out.buffer);
+  v.setUint32(0, 0x02014b50, true);
+  v.setUint16(4, 45, true);                          // made by: ZIP 4.5, MS-DOS attributes
+  v.setUint16(6, extraLen ? 45 : 20, true);
+  v.setUint16(8, FLAG_UTF8, true);
+  v.setUint16(10, e.method, true);
+  v.setUint16(12, e.time, true);
+  v.setUint16(14, e.date, true);
+  v.setUint32(16, e.crc, true);
+  v.setUint32(20, big[1] ? MAX_32 : e.compressedSize, true);
+  v.setUint32(24, big[0] ? MAX_32 : e.size, true);
+  v.setUint16(28, e.name.length, true);
+  v.setUint16(30, extraLen, true);
+  v.setUint32(42, big[2] ? MAX_32 : e.offset, true);
+  out.set(e.name, 46);
+  if (extraLen) {
+    let x = 46 + e.name.length;
+    v.setUint16(x, 0x0001, true);
+    v.setUint16(x + 2, extraLen - 4, true);
+    x += 4;
+    for (const n of extraFields) { v.setBigUint64(x, BigInt(n), true); x += 8; }
+  }
+  return out;
+}
+
+function zip64EndRecord(count: number, cdSize: number, cdStart: number): Uint8Array {
+  const out = new Uint8Array(56);
+  const v = new DataView(out.buffer);
+  v.setUint32(0, 0x06064b50, true);
+  v.setBigUint64(4, 44n, true);                      // size of the remaining record
+  v.setUint16(12, 45, true);
+  v.setUint16(14, 45, true);
+  v.setBigUint64(24, BigInt(count), true);
+  v.setBigUint64(32, BigInt(count), true);
+  v.setBigUint64(40, BigInt(cdSize), true);
+  v.setBigUint64(48, BigInt(cdStart), true);
+  return out;
+}
+
+function zip64Locator(recordOffset: number): Uint8Array {
+  const out = new Uint8Array(20);
+  const v = new DataView(out.buffer);
+  v.setUint32(0, 0x07064b50, true);
+  v.setBigUint64(8, BigInt(recordOffset), true);
+  v.setUint32(16, 1, true);                          // total number of disks
+  return out;
+}
+
+function endRecord(count: number, cdSize: number, cdStart: number): Uint8Array {
+  const out = new Uint8Array(22);
+  const v = new DataView(out.buffer);
+  v.setUint32(0, 0x06054b50, true);
+  v.setUint16(8, Math.min(count, MAX_16), true);
+  v.setUint16(10, Math.min(count, MAX_16), true);
+  v.setUint32(12, Math.min(cdSize, MAX_32), true);
+  v.setUint32(16, Math.min(cdStart, MAX_32), true);
+  return out;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Sinks
+
+// Small writes are batched so the file system sees a few large writes instead of thousands of tiny ones
+const FLUSH_BYTES = 4 * 1024 * 1024;
+
+function batched(write: (chunk: Uint8Array) => Promise<void>) {
+  let buffer: Uint8Array[] = [];
+  let pending = 0;
+  const flush = async () => {
+    if (!pending) return;
+    const out = new Uint8Array(pending);
+    let p = 0;
+    for (const b of buffer) { out.set(b, p); p += b.length; }
+    buffer = [];
+    pending = 0;
+    await write(out);
+  };
+  return {
+    async write(chunk: Uint8Array) {
+      // Large chunks (whole frames) go straight through rather than being copied
+      if (chunk.length >= FLUSH_BYTES) {
+        await flush();
+        await write(chunk);
+        return;
+      }
+      buffer.push(chunk);
+      pending += chunk.length;
+      if (pending >= FLUSH_BYTES) await flush();
+    },
+    flush,
+  };
+}
+
+/** Stream into a file the user picked (e.g. from showSaveFilePicker). */
+export function writableSink(stream: FileSystemWritableFileStream): ZipSink {
+  const out = batched(chunk => stream.write(chunk));
+  return {
+    write: out.write,
+    async close() {
+      await out.flush();
+      await stream.close();
+      return undefined;
+    },
+    abort: () => stream.abort(),
+  };
+}
+
+/** Collect the archive as Blob parts; browsers page large blobs to disk, but it is the last resort. */
+export function memorySink(): ZipSink {
+  let parts: Uint8Array[] = [];
+  return {
+    async write(chunk) { parts.push(chunk); },
+    async close() {
+      const blob = new Blob(parts, { type: 'application/zip' });
+      parts = [];
+      return blob;
+    },
+    async abort() { parts = []; },
+  };
+}
+
+// Scratch archives live here until downloaded; old ones are cleared on a later visit
+const EXPORT_DIR = 'zip-exports';
+// Another open tab may still be serving a scratch archive, so only files left this long are deleted
+const SCRATCH_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Workers in Safari only offer synchronous access handles, which lib.dom does not describe
+interface SyncAccessHandle {
+  write(data: Uint8Array, options?: { at?: number }): number;
+  flush(): void;
+  close(): void;
+}
+
+async function exportDir(): Promise<FileSystemDirectoryHandle | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(EXPORT_DIR, { create: true });
+}
+
+/** Stream into a file in the origin private file system; `close` returns it as a disk-backed File. */
+export async function opfsSink(name: string): Promise<ZipSink | null> {
+  try {
+    const dir = await exportDir();
+    if (!dir) return null;
+    const handle = await dir.getFileHandle(name, { create: true });
+    const remove = () => dir.removeEntry(name).catch(() => {});
+
+    if (typeof handle.createWritable === 'function') {
+      const stream = await handle.createWritable();
+      const sink = writableSink(stream);
+      return {
+        write: sink.write,
+        async close() {
+          await sink.close();
+          return handle.getFile();
+        },
+        async abort() {
+          await stream.abort().catch(() => {});
+          await remove();
+        },
+      };
+    }
+
+    const createSync = (handle as unknown as { createSyncAccessHandle?: () => Promise<SyncAccessHandle> }).createSyncAccessHandle;
+    if (!createSync) return null;
+    const access = await createSync.call(handle);
+    let at = 0;
+    const out = batched(async chunk => { at += access.write(chunk, { at }); });
+    return {
+      write: out.write,
+      async close() {
+        await out.flush();
+        access.flush();
+        access.close();
+        return handle.getFile();
+      },
+      async abort() {
+        access.close();
+        await remove();
+      },
+    };
+  } catch (error) {
+    console.warn('OPFS unavailable, building ZIP in memory:', error);
+    return null;
+  }
+}
+
+/** OPFS when the browser has it, otherwise memory. */
+export async function createZipSink(name: string): Promise<ZipSink> {
+  return (await opfsSink(name)) ?? memorySink();
+}
+
+/** Delete stale scratch archives; their object URLs went with the page that made them. */
+export async function clearZipScratch() {
+  try {
+    const dir = await exportDir();
+    if (!dir) return;
+    const stale: string[] = [];
+    const entries = (dir as unknown as { entries(): AsyncIterable<[string, FileSystemHandle]> }).entries();
+    for await (const [name, handle] of entries) {
+      if (handle.kind !== 'file') continue;
+      const file = await (handle as FileSystemFileHandle).getFile().catch(() => null);
+      if (file && Date.now() - file.lastModified > SCRATCH_MAX_AGE_MS) stale.push(name);
+    }
+    await Promise.all(stale.map(n => dir.removeEntry(n).catch(() => {})));
+  } catch {
+    // Nothing to clear
+  }
+}
+
+/** Unique scratch file name, so parallel workers never collide. */
+export function scratchZipName(label: string) {
+  return `${label}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}.zip`;
+}
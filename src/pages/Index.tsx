@@ -13,6 +13,7 @@ import { useDownloadZip } from '@/components/DownloadZip';
 import EstimateNotice from '@/components/EstimateNotice';
 import { Info, Shield, Github } from 'lucide-react';
 import { FileMetadata, ExtractionSettings, DEFAULT_SETTINGS, ExtractedFrame, ExtractionProgress } from '@/lib/types';
+import { fileBasename } from '@/lib/naming';
 export default function Index() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [metadata, setMetadata] = useState<FileMetadata>();
@@ -30,6 +31,8 @@ export default function Index() {
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
     setMetadata(undefined);
+    // A crop is in the previous file's pixels
+    setSettings(s => ({ ...s, crop: undefined }));
     // Reset estimation when new file is selected
     setEstimatedFrames(0);
     // Reset extracted frames when new file is uploaded
@@ -52,12 +55,15 @@ export default function Index() {
     let frameCount = 0;
     if (isGifFile) {
       // For GIFs, estimate frames differently since duration might be 0
+      // Probed frame count/duration when available, otherwise assume ~20 frames over 2 seconds
+      const total = meta.frameCount ?? 20;
+      const seconds = meta.duration || 2;
       if (settings.mode === 'every') {
-        frameCount = Math.min(20, settings.maxFrames); // Max 20 frames for GIFs
+        frameCount = Math.min(total, settings.maxFrames);
       } else if (settings.mode === 'fps' && settings.fps) {
-        frameCount = Math.min(Math.floor(2 * settings.fps), settings.maxFrames); // 2 seconds worth
+        frameCount = Math.min(Math.floor(seconds * settings.fps), settings.maxFrames);
       } else if (settings.mode === 'nth' && settings.nth) {
-        frameCount = Math.min(Math.floor(20 / settings.nth), settings.maxFrames);
+        frameCount = Math.min(Math.floor(total / settings.nth), settings.maxFrames);
       } else {
         frameCount = 1; // At least 1 frame
       }
@@ -67,7 +73,7 @@ export default function Index() {
       const fps = meta.fps || 24; // Fallback to 24 FPS
 
       if (settings.mode === 'every') {
-        frameCount = Math.floor(duration * fps);
+        frameCount = meta.frameCount ?? Math.floor(duration * fps);
       } else if (settings.mode === 'fps' && settings.fps) {
         frameCount = Math.floor(duration * settings.fps);
       } else if (settings.mode === 'nth' && settings.nth) {
@@ -92,12 +98,12 @@ export default function Index() {
   };
   const handleDownloadAll = () => {
     if (extractedFrames.length === 0 || !selectedFile) return;
-    const basename = selectedFile.name.split('.')[0];
+    const basename = fileBasename(selectedFile.name);
     createZip(extractedFrames, basename, metadata);
   };
   const handleDownloadSelected = (frames: ExtractedFrame[]) => {
     if (frames.length === 0 || !selectedFile) return;
-    const basename = selectedFile.name.split('.')[0];
+    const basename = fileBasename(selectedFile.name);
     createZip(frames, basename, metadata);
   };
   return <div className="min-h-screen bg-background">
@@ -164,13 +170,13 @@ export default function Index() {
               <div className="space-y-6">
                 <div>
                   <h3 className="text-title mb-4">Preview</h3>
-                  <VideoPreview file={selectedFile} metadata={metadata} onMetadataLoad={handleMetadataLoad} />
+                  <VideoPreview file={selectedFile} metadata={metadata} onMetadataLoad={handleMetadataLoad} settings={settings} onSettingsChange={setSettings} />
                 </div>
               </div>
 
               {/* Settings */}
               <div className="space-y-6">
-                <SettingsPanel settings={settings} onSettingsChange={setSettings} metadata={metadata} estimatedFrames={estimatedFrames} estimatedSize={estimatedFrames * 1024 * 512} // Rough estimate
+                <SettingsPanel settings={settings} onSettingsChange={setSettings} metadata={metadata} file={selectedFile} estimatedFrames={estimatedFrames} estimatedSize={estimatedFrames * 1024 * 512} // Rough estimate
             />
 
                 {/* Estimate Notice */}
@@ -183,7 +189,7 @@ export default function Index() {
 
           {/* Extracted Frames Grid */}
           {extractedFrames.length > 0 && <section className="max-w-7xl mx-auto">
-              <FramesGrid frames={extractedFrames} onDownloadSelected={handleDownloadSelected} onDownloadAll={handleDownloadAll} />
+              <FramesGrid frames={extractedFrames} onDownloadSelected={handleDownloadSelected} onDownloadAll={handleDownloadAll} basename={selectedFile ? fileBasename(selectedFile.name) : 'frames'} fps={metadata?.fps} />
             </section>}
 
           {/* Features */}
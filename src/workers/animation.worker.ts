@@ -0,0 +1,137 @@
+// Portable animated-image extractor: parses and composites frames itself, so it works without ImageDecoder.
+import type { ExtractionSettings, FileMetadata, ExtractedFrame } from '@/lib/types';
+import { DEFAULT_SETTINGS } from '@/lib/types';
+import { sniffTrueType } from '@/lib/sniff';
+import { post, serveEngine } from '@/lib/workerHost';
+import { GifDecoder } from '@/lib/gifDecoder';
+import { ApngDecoder } from '@/lib/apngDecoder';
+import { WebpDecoder } from '@/lib/webpDecoder';
+import { createFrameSelector } from '@/lib/frameSelection';
+import { encodeFrame, outputExtension, renderFrame } from '@/lib/frameOutput';
+import { FrameNamer, fileBasename } from '@/lib/naming';
+import { frameProvenance } from '@/lib/provenance';
+
+interface AnimationFrame {
+  index: number;
+  timestamp: number;   // ms
+  image: CanvasImageSource;
+}
+
+interface AnimationSource {
+  width: number;
+  height: number;
+  frameCount: number;
+  frames(): AsyncGenerator<AnimationFrame>;
+}
+
+let cancelled = false;
+
+// 1×1 GIF used by the self-test
+const SELF_TEST_GIF = new Uint8Array([
+  0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x01, 0x00, 0x01, 0x00, 0x80, 0x00, 0x00, 0xff, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x2c, 0x00, 0x00, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00, 0x02, 0x02, 0x44,
+  0x01, 0x00, 0x3b
+]);
+
+function gifSource(buf: Uint8Array): AnimationSource {
+  const gif = new GifDecoder(buf);
+  const { width, height } = gif;
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  return {
+    width,
+    height,
+    frameCount: gif.frameCount,
+    async *frames() {
+      for (const f of gif.frames()) {
+        ctx.putImageData(new ImageData(f.pixels, width, height), 0, 0);
+        yield { index: f.index, timestamp: f.timestamp, image: canvas };
+      }
+    },
+  };
+}
+
+async function openSource(file: File, trueType: string): Promise<AnimationSource> {
+  const buf = new Uint8Array(await file.arrayBuffer());
+  switch (trueType) {
+    case 'image/gif':
+      return gifSource(buf);
+    case 'image/apng':
+      return new ApngDecoder(buf);
+    case 'image/webp':
+      return new WebpDecoder(buf);
+    default:
+      throw new Error(`Animation decoder cannot read ${trueType || 'this file'}`);
+  }
+}
+
+async function extractFrames(file: File, settings: ExtractionSettings, metadata?: FileMetadata) {
+  if (!('OffscreenCanvas' in self)) {
+    throw new Error('OffscreenCanvas not supported in this browser');
+  }
+
+  cancelled = false;
+  const trueType = metadata?.trueType || await sniffTrueType(file);
+  const source = await openSource(file, trueType);
+
+  const selector = createFrameSelector(settings);
+  const ext = outputExtension(settings);
+  const namer = new FrameNamer(settings, { basename: fileBasename(metadata?.name || file.name), engine: 'animation', ext, fps: metadata?.fps });
+  const provenance = frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: 'animation' });
+  let processedFrames = settings.resume?.frameOffset ?? 0;
+
+  for await (const { index, timestamp, image } of source.frames()) {
+    if (cancelled) break;
+    if (timestamp > selector.endMs) break;
+    if (!selector.accept(timestamp)) continue;
+
+    const canvas = renderFrame(image, source.width, source.height, settings);
+    const { blob, originalSize } = await encodeFrame(canvas, settings, provenance?.frame(processedFrames, timestamp));
+
+    const frame: ExtractedFrame = {
+      index: processedFrames,
+      timestamp,
+      blob,
+      url: URL.createObjectURL(blob),
+      filename: namer.name({ index: processedFrames, timestampMs: timestamp, width: canvas.width, height: canvas.height }),
+      originalSize
+    };
+    post({ type: 'FRAME', frame });
+
+    processedFrames++;
+    post({
+      type: 'PROGRESS',
+      progress: {
+        frames: processedFrames,
+        percent: Math.round(((index + 1) / source.frameCount) * 100),
+        status: 'processing'
+      }
+    });
+
+    if (processedFrames >= settings.maxFrames) break;
+  }
+
+  if (cancelled) {
+    post({ type: 'CANCELLED', totalFrames: processedFrames });
+    return;
+  }
+  if (processedFrames === (settings.resume?.frameOffset ?? 0)) throw new Error('No frames were decoded in the selected range');
+
+  post({ type: 'COMPLETE', totalFrames: processedFrames });
+}
+
+serveEngine({
+  extract: extractFrames,
+  async selfTest() {
+    if (!('OffscreenCanvas' in self)) return { ok: false, detail: 'OffscreenCanvas not supported in this browser' };
+    // Decode and draw a 1×1 GIF end to end
+    const source = await openSource(new File([SELF_TEST_GIF], 'self-test.gif'), 'image/gif');
+    for await (const { image } of source.frames()) renderFrame(image, source.width, source.height, DEFAULT_SETTINGS);
+    return { ok: true, detail: 'GIF, APNG and WebP decoding available' };
+  },
+  cancel() {
+    cancelled = true;
+  }
+});
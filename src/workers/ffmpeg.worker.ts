@@ -1,17 +1,47 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg'
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg'
 import { fetchFile, toBlobURL } from '@ffmpeg/util'
-import JSZip from 'jszip'
-import type { WorkerInMessage, WorkerOutMessage, ExtractionSettings, FileMetadata, ExtractedFrame } from '@/lib/types'
+import type { WorkerOutMessage, ExtractionSettings, FileMetadata, ExtractedFrame } from '@/lib/types'
+import { post, serveEngine } from '@/lib/workerHost'
+import { EngineError } from '@/lib/frameSource'
+import { humanBytes } from '@/lib/estimate'
+import { SplitZipWriter, shouldPostFrames } from '@/lib/splitExport'
+import { FrameNamer, fileBasename } from '@/lib/naming'
+import { outputSize } from '@/lib/frameOutput'
+import { ffmpegScaleFilters } from '@/lib/scaling'
+import { FFMPEG_FORMATS, settingsFormat } from '@/lib/outputFormats'
+import { recompressPng } from '@/lib/pngOptimizer'
+import { withMetadata } from '@/lib/imageMetadata'
+import { frameProvenance } from '@/lib/provenance'
+import { containerOrientation, ffmpegOrientFilters, frameOrientation, orientedSize } from '@/lib/orientation'
+
+type InitMode = Extract<WorkerOutMessage, { type: 'READY' }>['initMode']
 
 let ffmpeg: FFmpeg | null = null
 let ready = false
 let basePath = ''
 let cancelled = false
+let initMode: InitMode
+let initBase = ''
+// Last lines FFmpeg logged, so a failed exec can say why
+const LOG_TAIL_LINES = 8
+let logTail: string[] = []
+
+// Presentation times (seconds from the segment start) that showinfo logs for each output frame, in order
+let frameTimes: number[] = []
+const SHOWINFO_PTS = /\[Parsed_showinfo_\d+ @ [^\]]+\] n:\s*\d+ pts:\s*-?\d+ pts_time:\s*(-?[\d.]+)/
 
-;(postMessage as any)({ type: 'ALIVE' } as WorkerOutMessage)
+function onLog({ message }: { message: string }) {
+  const pts = SHOWINFO_PTS.exec(message)
+  if (pts) {
+    frameTimes.push(parseFloat(pts[1]))
+    return
+  }
+  logTail.push(message)
+  if (logTail.length > LOG_TAIL_LINES) logTail.shift()
+}
 
 async function initFFmpeg() {
-  if (ready && ffmpeg) return
+  if (ready && ffmpeg) return { initMode, base: initBase }
 
   // Strategy 1: same-origin (prefer)
   const local = async () => {
@@ -24,7 +54,7 @@ async function initFFmpeg() {
     const useBlob = !(self as any).crossOriginIsolated
     const coreURL = useBlob ? await toBlobURL(`${base}/ffmpeg-core.js`, 'text/javascript') : `${base}/ffmpeg-core.js`
     const wasmURL = useBlob ? await toBlobURL(`${base}/ffmpeg-core.wasm`, 'application/wasm') : `${base}/ffmpeg-core.wasm`
-    return { coreURL, wasmURL, mode: useBlob ? 'blob' : 'http', origin: base }
+    return { coreURL, wasmURL, mode: (useBlob ? 'blob' : 'http') as InitMode, origin: base }
   }
 
   // Strategy 2/3: CDN ESM fallbacks (ESM, not UMD!)
@@ -32,7 +62,7 @@ async function initFFmpeg() {
     const base = `${root}/@ffmpeg/core@0.12.6/dist/esm`
     const coreURL = await toBlobURL(`${base}/ffmpeg-core.js`, 'text/javascript')
     const wasmURL = await toBlobURL(`${base}/ffmpeg-core.wasm`, 'application/wasm')
-    return { coreURL, wasmURL, mode: tag, origin: base }
+    return { coreURL, wasmURL, mode: tag as InitMode, origin: base }
   }
 
   const strategies = [
@@ -47,27 +77,13 @@ async function initFFmpeg() {
       const { coreURL, wasmURL, mode, origin } = await s()
 
       ffmpeg = new FFmpeg()
-
-      // Progress (primary hook)
-      ffmpeg.on('progress', ({ progress }) => {
-        const pct = Math.max(1, Math.min(99, Math.round((progress || 0) * 100)))
-        ;(postMessage as any)({ type: 'PROGRESS', progress: { percent: pct, status: 'processing' } } as WorkerOutMessage)
-      })
-
-      // Progress fallback by parsing logs
-      ffmpeg.on('log', ({ message }) => {
-        if (!message) return
-        const m = /frame=\s*(\d+)/.exec(message)
-        if (m && !cancelled) {
-          const frames = parseInt(m[1], 10)
-          ;(postMessage as any)({ type: 'PROGRESS', progress: { frames, status: 'processing' } } as WorkerOutMessage)
-        }
-      })
+      ffmpeg.on('log', onLog)
 
       await ffmpeg.load({ coreURL, wasmURL })
       ready = true
-      ;(postMessage as any)({ type: 'FFMPEG_READY', initMode: mode, base: origin } as WorkerOutMessage)
-      return
+      initMode = mode
+      initBase = origin
+      return { initMode, base: initBase }
     } catch (e) {
       lastError = e
       ffmpeg = null
@@ -79,105 +95,310 @@ async function initFFmpeg() {
   throw new Error(`FFmpeg initialization failed: ${lastError?.message || lastError}`)
 }
 
-function buildCmd(inputName: string, settings: ExtractionSettings, outExt: 'png'|'jpg', meta?: FileMetadata): string[] {
-  const cmd: string[] = ['-hide_banner','-y']
+// One exec covers a short segment of the source so frames can be posted while the rest is still decoding
+interface Segment {
+  start: number       // seconds
+  duration: number    // seconds
+  startNumber: number // first output file number
+  maxFrames: number  // frames still wanted; Infinity for no cap
+}
 
-  const start = Number.isFinite(settings.startTime) ? Math.max(0, settings.startTime as number) : null
-  const end   = Number.isFinite(settings.endTime)   ? Math.max(0, settings.endTime as number)   : null
-  const dur   = start !== null && end !== null && end > start ? (end - start) : null
-
-  if (start && start > 0) cmd.push('-ss', String(start))
-  cmd.push('-i', inputName)
-  if (dur && dur > 0) cmd.push('-t', String(dur)) // <- never -t 0
-
-  if (settings.mode === 'every') {
-    cmd.push('-vsync','0')
-  } else {
-    const baseFps = meta?.fps ?? 30
-    const fps = settings.mode === 'fps'
-      ? Math.max(1, Math.min(240, settings.fps ?? 30))
-      : Math.max(1, Math.floor(baseFps / Math.max(1, settings.nth ?? 1)))
-    cmd.push('-vf', `fps=${fps}`, '-vsync','0')
-  }
+// Frames per segment: enough to amortise re-opening and seeking the input, few enough to stream promptly
+const SEGMENT_FRAMES = 120
+const MIN_SEGMENT_SEC = 2
+const MAX_SEGMENT_SEC = 10
+// Wall time one segment should take, and the short first segment that measures the decode speed
+const TARGET_SEGMENT_MS = 2000
+const PROBE_SEGMENT_FRAMES = 8
 
-  if (settings.scale?.mode === 'custom' && settings.scale.width && settings.scale.height) {
-    const i = cmd.indexOf('-vf')
-    if (i !== -1) cmd[i+1] = `${cmd[i+1]},scale=${settings.scale.width}:${settings.scale.height}`
-    else cmd.push('-vf', `scale=${settings.scale.width}:${settings.scale.height}`)
-  }
+function outputFps(settings: ExtractionSettings, meta?: FileMetadata): number {
+  const baseFps = meta?.fps ?? 30
+  if (settings.mode === 'every') return baseFps
+  return settings.mode === 'fps'
+    ? Math.max(1, Math.min(240, settings.fps ?? 30))
+    : Math.max(1, Math.floor(baseFps / Math.max(1, settings.nth ?? 1)))
+}
 
-  if (outExt === 'jpg' && settings.outputFormat?.quality) {
-    const q = Math.round((100 - settings.outputFormat.quality) / 3)
-    cmd.push('-q:v', String(q))
+// First output time after a checkpoint: the next frame in 'every' mode, else the next point on the
+// original fps grid so sampling continues exactly where it stopped
+function resumeStart(settings: ExtractionSettings, rangeStart: number, fps: number): number {
+  const after = (settings.resume?.afterMs ?? 0) / 1000
+  if (settings.mode === 'every') return after + 0.001
+  return rangeStart + Math.floor((after - rangeStart) * fps + 1 + 1e-6) / fps
+}
+
+// Segment length in whole output frames so the fps filter lines up across segments
+function segmentFrames(fps: number): number {
+  const sec = Math.max(MIN_SEGMENT_SEC, Math.min(MAX_SEGMENT_SEC, SEGMENT_FRAMES / fps))
+  return Math.max(1, Math.round(sec * fps))
+}
+
+// A running exec cannot be stopped without losing the core, so Cancel waits for the segment in
+// flight. Slow decodes (large frames, heavy codecs) get shorter segments to keep that wait bounded.
+function nextSegmentFrames(fullFrames: number, msPerFrame: number): number {
+  if (!(msPerFrame > 0)) return fullFrames
+  return Math.max(1, Math.min(fullFrames, Math.floor(TARGET_SEGMENT_MS / msPerFrame)))
+}
+
+// Encoder options per output format; the image2 muxer picks the encoder from the file extension
+function encoderArgs(settings: ExtractionSettings): string[] {
+  const quality = settings.outputFormat?.quality
+  switch (settings.outputFormat?.type) {
+    case 'jpeg':
+      // mjpeg's qscale runs 2 (best) to 31
+      return quality ? ['-q:v', String(Math.round((100 - quality) / 3))] : []
+    case 'webp':
+      return settings.outputFormat.lossless
+        ? ['-lossless', '1']
+        : ['-lossless', '0', '-quality', String(quality || 90)]
+    case 'tiff':
+      // Print wants plain 8-bit RGB; the encoder's default is PackBits
+      return ['-compression_algo', 'raw', '-pix_fmt', 'rgb24']
+    case 'bmp':
+      return ['-pix_fmt', 'bgr24']
+    default:
+      return []
   }
+}
+
+function buildCmd(inputName: string, settings: ExtractionSettings, outExt: string, seg: Segment, meta?: FileMetadata): string[] {
+  const cmd: string[] = ['-hide_banner','-y']
+
+  if (seg.start > 0) cmd.push('-ss', seg.start.toFixed(6))
+  // Orientation is applied below exactly as the canvas engines do, so FFmpeg must not rotate on its own
+  cmd.push('-noautorotate', '-i', inputName)
+  cmd.push('-t', seg.duration.toFixed(6)) // <- never -t 0
 
-  if (settings.maxFrames) cmd.push('-frames:v', String(settings.maxFrames))
+  // Same orientation and crop / scale / pad geometry as the canvas engines, with the chosen resampling
+  // filter. showinfo goes last and logs each output frame's real pts, which variable frame rate needs.
+  const oriented = orientedSize(settings, meta?.width ?? 0, meta?.height ?? 0)
+  const filters = [
+    ...(settings.mode === 'every' ? [] : [`fps=${outputFps(settings, meta)}`]),
+    ...ffmpegOrientFilters(frameOrientation(settings, containerOrientation(meta))),
+    ...ffmpegScaleFilters(settings.scale, oriented.width, oriented.height, settings.crop),
+    'showinfo'
+  ]
+  cmd.push('-vf', filters.join(','), '-vsync', '0')
+
+  cmd.push(...encoderArgs(settings))
+
+  if (Number.isFinite(seg.maxFrames)) cmd.push('-frames:v', String(seg.maxFrames))
+  cmd.push('-start_number', String(seg.startNumber))
   cmd.push(`frame_%06d.${outExt}`)
   return cmd
 }
 
+// ffmpeg-core's wasm heap tops out at 2 GB. A mounted input is read lazily through File.slice, but a
+// copied one (the fallback when WORKERFS is missing) has to fit in memory next to the decoder.
+const HEAP_MAX_BYTES = 2 * 1024 ** 3
+const MEMFS_MAX_BYTES = 1024 ** 3
+const INPUT_DIR = '/input'
+
+const sizeLimitError = (file: File, detail: string) => new EngineError(
+  `${file.name} (${humanBytes(file.size)}) does not fit in FFmpeg's ${humanBytes(HEAP_MAX_BYTES)} browser memory limit: ${detail}. ` +
+  'Try a shorter time range, a smaller output size, or the WebCodecs engine.',
+  'size-limit'
+)
+
+// Errors the wasm runtime throws when the heap or an ArrayBuffer cannot grow any further
+const isOutOfMemory = (e: unknown) =>
+  /out of memory|OOM|Cannot enlarge memory|Array buffer allocation failed|memory access out of bounds/i.test(String((e as Error)?.message ?? e))
+
+// Expose the user's File to FFmpeg without copying it into the heap; falls back to a MEMFS copy
+async function mountInput(ff: FFmpeg, file: File, ext: string): Promise<{ path: string; release(): Promise<void> }> {
+  const name = `input.${ext}`
+  try {
+    // A cancelled run can leave the previous mount behind
+    await ff.unmount(INPUT_DIR).catch(() => {})
+    await ff.createDir(INPUT_DIR).catch(() => {})
+    if (await ff.mount(FFFSType.WORKERFS, { blobs: [{ name, data: file }] }, INPUT_DIR)) {
+      return {
+        path: `${INPUT_DIR}/${name}`,
+        release: async () => {
+          await ff.unmount(INPUT_DIR).catch(() => {})
+          await ff.deleteDir(INPUT_DIR).catch(() => {})
+        }
+      }
+    }
+  } catch (e) {
+    console.warn('[ffmpeg] WORKERFS mount failed, copying input into MEMFS:', e)
+  }
+
+  if (file.size > MEMFS_MAX_BYTES) throw sizeLimitError(file, 'the input has to be copied into memory in this browser')
+  try {
+    await ff.writeFile(name, await fetchFile(file))
+  } catch (e) {
+    if (isOutOfMemory(e)) throw sizeLimitError(file, 'the input could not be copied into memory')
+    throw e
+  }
+  return { path: name, release: async () => { await ff.deleteFile(name).catch(() => {}) } }
+}
+
+// After an out-of-memory abort the core is unusable; drop it so the next job loads a fresh one
+function discardCore() {
+  ffmpeg?.terminate()
+  ffmpeg = null
+  ready = false
+}
+
 async function extractFrames(file: File, settings: ExtractionSettings, metadata?: FileMetadata) {
   if (!ffmpeg || !ready) throw new Error('FFmpeg not ready')
 
   // Short-circuit on WebP with helpful error
   const tt = (metadata?.trueType || file.type || '').toLowerCase();
   if (tt === 'image/webp') {
-    throw new Error('Animated WebP should be processed with ImageDecoder (fast). FFmpeg wasm often fails on ANIM/ANMF.');
+    throw new Error('Animated WebP should be processed with ImageDecoder or the Animation Decoder. FFmpeg wasm often fails on ANIM/ANMF.');
+  }
+
+  // Checked before mounting, so a refused job leaves no input behind
+  const format = settingsFormat(settings)
+  if (!FFMPEG_FORMATS.includes(format.type)) {
+    throw new Error(`FFmpeg cannot write ${format.label} frames in this build. Choose another format or engine.`)
   }
 
   cancelled = false
   const ext = (file.name.split('.').pop() || 'mp4').toLowerCase()
-  const inputName = `input.${ext}`
-
-  await ffmpeg.writeFile(inputName, await fetchFile(file))
+  const outExt = format.ext
+  const mime = format.mime
+  const fps = outputFps(settings, metadata)
+  const fullSegment = segmentFrames(fps)
+  const requestedStart = Number.isFinite(settings.startTime) ? Math.max(0, settings.startTime as number) : 0
+  const rangeStart = settings.resume ? resumeStart(settings, requestedStart, fps) : requestedStart
+  const duration = metadata?.duration || 0
+  const requestedEnd = Number.isFinite(settings.endTime) && (settings.endTime as number) > requestedStart ? settings.endTime as number : Infinity
+  const rangeEnd = duration ? Math.min(requestedEnd, duration) : requestedEnd
+  const maxFrames = settings.maxFrames || Infinity
 
-  const outExt: 'png'|'jpg' = settings.outputFormat?.type === 'jpeg' ? 'jpg' : 'png'
-  const cmd = buildCmd(inputName, settings, outExt, metadata)
+  const base = fileBasename(metadata?.name || file.name)
+  const namer = new FrameNamer(settings, { basename: base, engine: 'ffmpeg', ext: outExt, fps: metadata?.fps })
+  const provenance = frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: 'ffmpeg' })
+  const size = outputSize(settings, metadata?.width ?? 0, metadata?.height ?? 0)
+  // Each part is closed and posted as soon as it fills, so split export frees memory as it goes
+  const parts = new SplitZipWriter(base, settings, metadata, post)
+  const postFrames = shouldPostFrames(settings)
+  const firstIndex = settings.resume?.frameOffset ?? 0
+  let emitted = firstIndex
 
+  // Mounted last, straight before the block that releases it
+  const input = await mountInput(ffmpeg, file, ext)
   try {
-    await ffmpeg.exec(cmd)
-  } catch (e:any) {
-    throw new Error(`exec failed: ${e?.message || e}\ncmd: ffmpeg ${cmd.join(' ')}`)
-  }
+    // Segment starts are counted in output frames so they stay on the fps grid however long each one is
+    let offset = 0
+    let segFrames = Math.min(fullSegment, PROBE_SEGMENT_FRAMES)
+    while (rangeStart + offset / fps < rangeEnd && emitted < maxFrames && !cancelled) {
+      const start = rangeStart + offset / fps
+      const seg: Segment = {
+        start,
+        duration: Math.min(segFrames / fps, rangeEnd - start),
+        startNumber: emitted + 1,
+        maxFrames: maxFrames - emitted
+      }
+      const cmd = buildCmd(input.path, settings, outExt, seg, metadata)
+      const began = performance.now()
+      logTail = []
+      frameTimes = []
+      let code: number
+      try {
+        code = await ffmpeg.exec(cmd)
+      } catch (e: unknown) {
+        if (isOutOfMemory(e)) {
+          discardCore()
+          throw sizeLimitError(file, 'decoding ran out of memory')
+        }
+        throw new Error(`exec failed: ${e instanceof Error ? e.message : String(e)}\ncmd: ffmpeg ${cmd.join(' ')}`)
+      }
+      // exec resolves with FFmpeg's exit code rather than throwing; a failed segment would otherwise
+      // just come back empty
+      if (code !== 0) {
+        const log = logTail.join('\n')
+        if (isOutOfMemory(log)) {
+          discardCore()
+          throw sizeLimitError(file, 'decoding ran out of memory')
+        }
+        throw new Error(`FFmpeg exited with code ${code}:\n${log}\ncmd: ffmpeg ${cmd.join(' ')}`)
+      }
+      const execMs = performance.now() - began
+
+      // Post what this segment produced and drop it from MEMFS straight away. Seeking the input restarts
+      // pts at the segment start; a frame showinfo missed falls back to constant frame rate. A cancel
+      // takes effect once the segment is collected.
+      const entries = await ffmpeg.listDir('/')
+      const names = entries.map(e => e.name).filter(n => n.startsWith('frame_') && n.endsWith(`.${outExt}`)).sort()
+      for (let k = 0; k < names.length; k++) {
+        let data = await ffmpeg.readFile(names[k]) as Uint8Array
+        await ffmpeg.deleteFile(names[k])
+        // FFmpeg writes plain PNG; compressed output is quantised here like the canvas engines do
+        let originalSize: number | undefined
+        if (settings.outputFormat.type === 'png-compressed') {
+          originalSize = data.length
+          data = await recompressPng(data, settings.outputFormat)
+        }
+        const time = start + (frameTimes[k] ?? k / fps)
+        const timestamp = Math.round(time * 1000)
+        data = withMetadata(data, { dpi: settings.dpi, provenance: provenance?.frame(emitted, timestamp) })
+        const filename = namer.name({ index: emitted, timestampMs: timestamp, ...size })
+        await parts.add(filename, data, timestamp)
+        if (postFrames) {
+          const blob = new Blob([data], { type: mime })
+          const frame: ExtractedFrame = {
+            index: emitted,
+            timestamp,
+            blob,
+            url: URL.createObjectURL(blob),
+            filename,
+            originalSize
+          }
+          post({ type: 'FRAME', frame })
+        }
+        emitted++
+
+        const percent = Number.isFinite(rangeEnd) ? ((time - requestedStart) / (rangeEnd - requestedStart)) * 100 : 0
+        post({
+          type: 'PROGRESS',
+          progress: { frames: emitted, percent: Math.max(1, Math.min(99, Math.round(percent))), status: 'processing' }
+        })
+      }
 
-  // Collect outputs
-  const entries = await ffmpeg.listDir('/')
-  const names = entries.map(e => e.name).filter(n => /^frame_\d{6}\.(png|jpg)$/.test(n)).sort()
-  if (!names.length) throw new Error('No frames were extracted. Try FPS mode or a shorter time range.')
-
-  // Package to ZIP (or stream back one-by-one)
-  const zip = new JSZip()
-  for (let i=0;i<names.length;i++) {
-    const n = names[i]
-    const data = await ffmpeg.readFile(n)
-    const blob = new Blob([data as Uint8Array], { type: outExt === 'jpg' ? 'image/jpeg' : 'image/png' })
-    zip.file(n, blob)
-    await ffmpeg.deleteFile(n)
+      // Without a known duration the first empty segment marks the end of the stream
+      if (!names.length && !Number.isFinite(rangeEnd)) break
+      offset += segFrames
+      segFrames = nextSegmentFrames(fullSegment, execMs / segFrames)
+    }
+  } catch (e) {
+    await parts.abort()
+    throw e
+  } finally {
+    if (ffmpeg) await input.release()
   }
 
-  const zipBlob = await zip.generateAsync({ type: 'blob' })
-  const base = file.name.replace(/\.[^.]+$/, '')
-  ;(postMessage as any)({ type:'PART_READY', partIndex:1, totalParts:1, startFrame:0, endFrame:names.length-1, filename:`${base}_frames.zip`, zip: zipBlob } as WorkerOutMessage)
-  ;(postMessage as any)({ type:'COMPLETE', totalFrames:names.length } as WorkerOutMessage)
+  // A pooled segment may legitimately hold no selected frames
+  if (emitted === firstIndex && !cancelled && !settings.segment) {
+    await parts.abort()
+    throw new Error('No frames were extracted. Try FPS mode or a shorter time range.')
+  }
 
-  await ffmpeg.deleteFile(inputName)
+  await parts.finish()
+  if (cancelled) {
+    post({ type: 'CANCELLED', totalFrames: emitted })
+    return
+  }
+  post({ type: 'COMPLETE', totalFrames: emitted })
 }
 
-onmessage = async (evt: MessageEvent<WorkerInMessage>) => {
-  try {
-    const msg = evt.data
-    if (msg.type === 'INIT') {
-      basePath = (msg.basePath || '').replace(/\/$/, '')
-      await initFFmpeg()
-      return
-    }
-    if (msg.type === 'EXTRACT') {
-      await initFFmpeg()
-      await extractFrames(msg.file, msg.settings, msg.metadata)
-      return
-    }
-    if (msg.type === 'CANCEL') { cancelled = true; (self as any).close() }
-  } catch (err:any) {
-    ;(postMessage as any)({ type:'ERROR', error: err?.message || String(err) } as WorkerOutMessage)
+serveEngine({
+  async init(path) {
+    basePath = (path || '').replace(/\/$/, '')
+    return initFFmpeg()
+  },
+  async extract(file, settings, metadata) {
+    await initFFmpeg()
+    await extractFrames(file, settings, metadata)
+  },
+  async selfTest() {
+    await initFFmpeg()
+    return { ok: true, detail: `FFmpeg core loaded (${initMode})` }
+  },
+  cancel() {
+    cancelled = true
   }
-}
\ No newline at end of file
+})
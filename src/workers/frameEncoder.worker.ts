@@ -0,0 +1,33 @@
+// Pixel-level frame encoding off the main thread, for the main-thread ImageDecoder engine: palette
+// quantisation for compressed PNG and the TIFF / BMP writers. The worker engines encode in their own worker.
+import { compressPng, type PngCompressOptions } from '@/lib/pngOptimizer';
+import { encodeBmp, encodeTiff } from '@/lib/rasterWriter';
+
+export type PixelFormat = 'png-compressed' | 'tiff' | 'bmp';
+
+export interface EncodeJob {
+  id: number;
+  image: ImageData;
+  format: PixelFormat;
+  options: PngCompressOptions;
+}
+
+export type EncodeJobResult = { id: number; bytes: Uint8Array } | { id: number; error: string };
+
+async function encode({ image, format, options }: EncodeJob): Promise<Uint8Array> {
+  switch (format) {
+    case 'png-compressed': return compressPng(image, options);
+    case 'tiff': return encodeTiff(image);
+    case 'bmp': return encodeBmp(image);
+  }
+}
+
+self.onmessage = async (evt: MessageEvent<EncodeJob>) => {
+  const { id } = evt.data;
+  try {
+    const bytes = await encode(evt.data);
+    (postMessage as (msg: EncodeJobResult, transfer: Transferable[]) => void)({ id, bytes }, [bytes.buffer]);
+  } catch (err) {
+    (postMessage as (msg: EncodeJobResult) => void)({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -1,148 +1,158 @@
 // ImageDecoder-based extractor for GIF/APNG; streams PNGs frame-by-frame.
-type InMsg =
-  | { type: 'EXTRACT_IMGDEC'; file: File; settings: any; metadata?: any }
-  | { type: 'CANCEL' };
-
-type OutMsg =
-  | { type: 'ID_READY' }
-  | { type: 'PROGRESS'; frames: number; percent: number }
-  | { type: 'FRAME'; frame: { index: number; timestamp: number; filename: string; blob?: Blob; ab?: ArrayBuffer; mime: string } }
-  | { type: 'COMPLETE'; totalFrames: number }
-  | { type: 'ERROR'; error: string };
-
-// Post any crash back to main thread so UI can fallback
-self.addEventListener('error', (e) => {
-  (postMessage as any)({ type: 'ERROR', error: `ImageDecoder worker crashed: ${e.message || 'Unknown error'}` });
-});
-self.addEventListener('unhandledrejection', (e: any) => {
-  (postMessage as any)({ type: 'ERROR', error: `ImageDecoder unhandled rejection: ${e?.reason?.message || String(e?.reason || e)}` });
-});
-
-(postMessage as any)({ type: 'ID_READY' } as OutMsg);
-
-// Route unhandled errors back to UI (legacy handlers)
-self.onerror = (e: any) => (postMessage as any)({ type: 'ERROR', error: e?.message || String(e) });
-self.onunhandledrejection = (e: any) => (postMessage as any)({ type: 'ERROR', error: e?.reason?.message || String(e?.reason || e) });
+import type { ExtractionSettings, FileMetadata } from '@/lib/types';
+import { createFrameSelector } from '@/lib/frameSelection';
+import { animationFrameDelays } from '@/lib/probe';
+import { post, serveEngine } from '@/lib/workerHost';
+import { FrameNamer, fileBasename } from '@/lib/naming';
+import { encodeFrame, outputExtension, renderFrame } from '@/lib/frameOutput';
+import { frameProvenance } from '@/lib/provenance';
 
-const has = (k: any) => typeof k !== 'undefined' && k !== null;
+let cancelled = false;
 
-onmessage = async (evt: MessageEvent<InMsg>) => {
-  const msg = evt.data;
-  try {
-    if (msg.type === 'CANCEL') { (self as any).close(); return; }
-    if (msg.type !== 'EXTRACT_IMGDEC') return;
+const has = (k: any) => typeof k !== 'undefined' && k !== null;
 
-    if (!('ImageDecoder' in self) || !('OffscreenCanvas' in self)) {
-      (postMessage as any)({ type: 'ERROR', error: 'ImageDecoder/OffscreenCanvas not supported' } as OutMsg);
-      return;
-    }
+async function extractWithImageDecoder(file: File, settings: ExtractionSettings, metadata?: FileMetadata) {
+  if (!('ImageDecoder' in self) || !('OffscreenCanvas' in self)) {
+    throw new Error('ImageDecoder/OffscreenCanvas not supported');
+  }
 
-    const { file, settings, metadata } = msg;
-    const hintedType = (settings && settings._forceType) || file.type || 'image/gif';
-    if (!/^image\/(gif|apng|png|webp)$/.test(hintedType)) {
-      (postMessage as any)({ type: 'ERROR', error: `Unsupported type for ImageDecoder: ${hintedType}` } as OutMsg);
-      return;
-    }
+  cancelled = false;
+  const hintedType = metadata?.trueType || file.type || 'image/gif';
+  if (!/^image\/(gif|apng|png|webp)$/.test(hintedType)) {
+    throw new Error(`Unsupported type for ImageDecoder: ${hintedType}`);
+  }
 
-    const buf = await file.arrayBuffer();
+  const buf = await file.arrayBuffer();
+  const containerDelays = animationFrameDelays(new Uint8Array(buf), hintedType);
+  // @ts-ignore
+  const decoder = new ImageDecoder({ data: buf, type: hintedType });
+
+  // ✅ Wait for tracks to be ready; otherwise frameCount can be 0/NaN and decodes may stall
+  // @ts-ignore
+  await decoder.tracks?.ready?.catch?.(() => {});
+
+  // @ts-ignore
+  const track = decoder.tracks?.selectedTrack;
+  let frameCount = has(track?.frameCount) ? track.frameCount : NaN;
+
+  // Fallback probe if frameCount unavailable
+  if (!Number.isFinite(frameCount)) {
+    let i = 0;
+    try {
+      for (;; i++) { await decoder.decode({ frameIndex: i, completeFramesOnly: true }); }
+    } catch { frameCount = i; }
+    // Recreate decoder to start from the beginning
     // @ts-ignore
-    const decoder = new ImageDecoder({ data: buf, type: hintedType });
-
-    // ✅ Wait for tracks to be ready; otherwise frameCount can be 0/NaN and decodes may stall
+    decoder.close?.();
+    // @ts-ignore
+    const d2 = new ImageDecoder({ data: buf, type: hintedType });
+    // @ts-ignore
+    await d2.tracks?.ready?.catch?.(() => {});
     // @ts-ignore
-    await decoder.tracks?.ready?.catch?.(() => {});
+    (decoder as any) = d2;
+  }
+
+  if (!frameCount || frameCount < 1) throw new Error('No frames detected');
 
+  // Dimensions
+  const w =
+    // @ts-ignore
+    track?.frameSize?.width || track?.codedWidth || track?.displayWidth || metadata?.width;
+  const h =
     // @ts-ignore
-    const track = decoder.tracks?.selectedTrack;
-    let frameCount = has(track?.frameCount) ? track.frameCount : NaN;
-
-    // Fallback probe if frameCount unavailable
-    if (!Number.isFinite(frameCount)) {
-      let i = 0;
-      try {
-        for (;; i++) { await decoder.decode({ frameIndex: i, completeFramesOnly: true }); }
-      } catch { frameCount = i; }
-      // Recreate decoder to start from the beginning
-      // @ts-ignore
-      decoder.close?.();
-      // @ts-ignore
-      const d2 = new ImageDecoder({ data: buf, type: hintedType });
-      // @ts-ignore
-      await d2.tracks?.ready?.catch?.(() => {});
-      // @ts-ignore
-      (decoder as any) = d2;
+    track?.frameSize?.height || track?.codedHeight || track?.displayHeight || metadata?.height;
+
+  if (!w || !h) throw new Error('Could not determine frame size');
+
+  const assumedFps = metadata?.fps || 10;
+  const namer = new FrameNamer(settings, {
+    basename: fileBasename(metadata?.name || file.name),
+    engine: 'image-decoder',
+    ext: outputExtension(settings),
+    fps: metadata?.fps
+  });
+  const provenance = frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: 'image-decoder' });
+  const selector = createFrameSelector(settings);
+  let elapsedMs = 0;
+  let emitted = settings.resume?.frameOffset ?? 0;
+
+  // Watchdog: if no frame emitted for N seconds, abort so UI can fall back
+  let lastTick = Date.now();
+  const TIMEOUT_MS = 8000;
+  const watchdog = setInterval(() => {
+    if (Date.now() - lastTick > TIMEOUT_MS) {
+      clearInterval(watchdog);
+      post({ type: 'ERROR', error: 'ImageDecoder stalled (watchdog)' });
     }
-
-    if (!frameCount || frameCount < 1) {
-      (postMessage as any)({ type: 'ERROR', error: 'No frames detected' } as OutMsg);
-      return;
+  }, 1000);
+
+  for (let i = 0; i < frameCount && !cancelled; i++) {
+    const res = await (decoder as any).decode({ frameIndex: i, completeFramesOnly: true });
+    const img = res.image; // VideoFrame
+
+    // Real per-frame delay: ImageDecoder reports µs; fall back to the container, then to assumedFps
+    const ms = elapsedMs;
+    elapsedMs += img.duration != null ? img.duration / 1000 : containerDelays?.[i] ?? 1000 / assumedFps;
+    if (ms > selector.endMs) {
+      img.close?.();
+      break;
     }
-
-    // Dimensions
-    const w =
-      // @ts-ignore
-      track?.frameSize?.width || track?.codedWidth || track?.displayWidth || metadata?.width;
-    const h =
-      // @ts-ignore
-      track?.frameSize?.height || track?.codedHeight || track?.displayHeight || metadata?.height;
-
-    if (!w || !h) {
-      (postMessage as any)({ type: 'ERROR', error: 'Could not determine frame size' } as OutMsg);
-      return;
+    if (!selector.accept(ms)) {
+      img.close?.();
+      lastTick = Date.now();
+      continue;
     }
 
-    const canvas = new OffscreenCanvas(w, h);
-    const ctx = canvas.getContext('2d')!;
-    const outMime = settings?.outputFormat?.type === 'jpeg' ? 'image/jpeg' : 'image/png';
-    const baseName = (metadata?.name || file.name).replace(/\.[^.]+$/, '');
-    const assumedFps = metadata?.fps || 10;
-
-    // Watchdog: if no frame emitted for N seconds, abort so UI can fall back
-    let lastTick = Date.now();
-    const TIMEOUT_MS = 8000;
-    const watchdog = setInterval(() => {
-      if (Date.now() - lastTick > TIMEOUT_MS) {
-        clearInterval(watchdog);
-        (postMessage as any)({ type: 'ERROR', error: 'ImageDecoder stalled (watchdog)' } as OutMsg);
-      }
-    }, 1000);
-
-    for (let i = 0; i < frameCount; i++) {
-      const res = await (decoder as any).decode({ frameIndex: i, completeFramesOnly: true });
-      const img = res.image; // ImageBitmap
-      ctx.clearRect(0, 0, w, h);
-      ctx.drawImage(img, 0, 0);
+    // Frames arrive fully composited; draw straight at the output size
+    let canvas: OffscreenCanvas;
+    try {
+      canvas = renderFrame(img, w, h, settings);
+    } finally {
       try { img.close?.(); } catch {}
+    }
 
-      // ❌ DO NOT use transfer list with Blob (not transferable) — it throws silently in worker
-      const blob: Blob = await canvas.convertToBlob({ type: outMime });
-
-      // Option A (simple & safe): send Blob (cloneable, not transferable)
-      (postMessage as any)({
-        type: 'FRAME',
-        frame: {
-          index: i,
-          timestamp: Math.round((i / (assumedFps || 10)) * 1000),
-          filename: `${baseName}_f${String(i).padStart(6, '0')}.${outMime === 'image/jpeg' ? 'jpg' : 'png'}`,
-          blob,
-          mime: outMime
-        }
-      } as OutMsg); // ← no transfer list here
-
-      lastTick = Date.now();
-      if ((i + 1) % 2 === 0 || i === frameCount - 1) {
-        (postMessage as any)({ type: 'PROGRESS', frames: i + 1, percent: Math.round(((i + 1) / frameCount) * 100) } as OutMsg);
+    // ❌ DO NOT use transfer list with Blob (not transferable) — it throws silently in worker
+    const { blob, originalSize } = await encodeFrame(canvas, settings, provenance?.frame(emitted, Math.round(ms)));
+
+    // Option A (simple & safe): send Blob (cloneable, not transferable)
+    post({
+      type: 'FRAME',
+      frame: {
+        filename: namer.name({ index: emitted, timestampMs: Math.round(ms), width: canvas.width, height: canvas.height }),
+        index: emitted++,
+        timestamp: Math.round(ms),
+        blob,
+        url: URL.createObjectURL(blob),
+        originalSize
       }
-
-      // Give the event loop a chance on big jobs
-      // @ts-ignore
-      await new Promise(r => setTimeout(r, 0));
+    }); // ← no transfer list here
+
+    lastTick = Date.now();
+    if ((i + 1) % 2 === 0 || i === frameCount - 1) {
+      post({
+        type: 'PROGRESS',
+        progress: { frames: emitted, percent: Math.round(((i + 1) / frameCount) * 100), status: 'processing' }
+      });
     }
 
-    clearInterval(watchdog);
-    try { (decoder as any).close?.(); } catch {}
-    (postMessage as any)({ type: 'COMPLETE', totalFrames: frameCount } as OutMsg);
-  } catch (e: any) {
-    (postMessage as any)({ type: 'ERROR', error: e?.message || String(e) } as OutMsg);
+    // Give the event loop a chance on big jobs
+    // @ts-ignore
+    await new Promise(r => setTimeout(r, 0));
+  }
+
+  clearInterval(watchdog);
+  try { (decoder as any).close?.(); } catch {}
+  post(cancelled ? { type: 'CANCELLED', totalFrames: emitted } : { type: 'COMPLETE', totalFrames: emitted });
+}
+
+serveEngine({
+  extract: extractWithImageDecoder,
+  async selfTest() {
+    if (!('ImageDecoder' in self)) return { ok: false, detail: 'ImageDecoder not available in this browser' };
+    const gif = await ImageDecoder.isTypeSupported('image/gif');
+    return { ok: gif, detail: gif ? 'GIF decoding available' : 'ImageDecoder cannot read GIF' };
+  },
+  cancel() {
+    cancelled = true;
   }
-};
\ No newline at end of file
+});
\ No newline at end of file
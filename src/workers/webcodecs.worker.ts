@@ -1,322 +1,166 @@
-import JSZip from 'jszip';
-import type { WorkerInMessage, WorkerOutMessage, ExtractionSettings, FileMetadata, ExtractedFrame } from '@/lib/types';
+import type { ExtractionSettings, FileMetadata, ExtractedFrame } from '@/lib/types';
+import { openVideoDemuxer } from '@/lib/demux';
+import { post, serveEngine } from '@/lib/workerHost';
+import { createFrameSelector } from '@/lib/frameSelection';
+import { encodeFrame, outputExtension, renderFrame } from '@/lib/frameOutput';
+import { SplitZipWriter, shouldPostFrames } from '@/lib/splitExport';
+import { FrameNamer, fileBasename } from '@/lib/naming';
+import { containerOrientation } from '@/lib/orientation';
+import { frameProvenance } from '@/lib/provenance';
 
 let cancelled = false;
 
-// Post ALIVE immediately so the UI knows the worker booted
-(postMessage as any)({ type: 'ALIVE' } as WorkerOutMessage);
-
-// Simple MP4 box parser to extract video track and samples
-class MP4Parser {
-  private buffer: ArrayBuffer;
-  private view: DataView;
-  private offset: number = 0;
-
-  constructor(buffer: ArrayBuffer) {
-    this.buffer = buffer;
-    this.view = new DataView(buffer);
-  }
-
-  readBox(): { type: string; size: number; data: ArrayBuffer } | null {
-    if (this.offset >= this.buffer.byteLength - 8) return null;
-
-    const size = this.view.getUint32(this.offset);
-    const typeBytes = new Uint8Array(this.buffer, this.offset + 4, 4);
-    const type = String.fromCharCode(...typeBytes);
-    
-    const actualSize = size === 1 ? Number(this.view.getBigUint64(this.offset + 8)) : size;
-    const headerSize = size === 1 ? 16 : 8;
-    
-    const data = this.buffer.slice(this.offset + headerSize, this.offset + actualSize);
-    this.offset += actualSize;
-    
-    return { type, size: actualSize, data };
-  }
-
-  reset() {
-    this.offset = 0;
-  }
-}
-
 async function extractFramesFromVideo(file: File, settings: ExtractionSettings, metadata?: FileMetadata) {
   if (!('VideoDecoder' in self)) {
     throw new Error('VideoDecoder not supported in this browser');
   }
 
   cancelled = false;
-  
-  // Check if we can decode this video type
-  const videoConfig = {
-    codec: metadata?.codec || 'avc1.42E01E', // Default to H.264 baseline
-    width: metadata?.width || 1920,
-    height: metadata?.height || 1080,
+
+  // Demux the container to get the real codec configuration and sample table
+  const demuxer = await openVideoDemuxer(file, metadata?.trueType);
+  const { track } = demuxer;
+  const videoConfig: VideoDecoderConfig = {
+    codec: track.codec,
+    codedWidth: track.codedWidth,
+    codedHeight: track.codedHeight,
+    description: track.description,
   };
 
-  try {
-    const support = await (VideoDecoder as any).isConfigSupported(videoConfig);
-    if (!support.supported) {
-      throw new Error(`Video codec ${videoConfig.codec} not supported`);
-    }
-  } catch (error) {
-    console.warn('Could not check codec support, proceeding anyway:', error);
+  const support = await VideoDecoder.isConfigSupported(videoConfig);
+  if (!support.supported) {
+    throw new Error(`Video codec ${track.codec} not supported by this browser`);
   }
 
-  const arrayBuffer = await file.arrayBuffer();
-  const parser = new MP4Parser(arrayBuffer);
-
-  const frames: ExtractedFrame[] = [];
-  const zip = new JSZip();
-  let frameIndex = 0;
-  let processedFrames = 0;
+  let processedFrames = settings.resume?.frameOffset ?? 0;
+  let done = false;
 
   // Calculate frame selection parameters
-  const targetFrameRate = settings.mode === 'fps' ? settings.fps : metadata?.fps;
-  const skipFrames = settings.mode === 'nth' ? (settings.nth || 1) - 1 : 0;
-  const startTime = (settings.startTime || 0) * 1000; // Convert to ms
-  const endTime = settings.endTime ? settings.endTime * 1000 : undefined;
-
-  return new Promise<void>((resolve, reject) => {
-    const decoder = new (VideoDecoder as any)({
-      output: async (videoFrame: any) => {
-        if (cancelled) {
-          videoFrame.close();
-          return;
-        }
-
-        try {
-          // Apply time-based filtering
-          const timestamp = videoFrame.timestamp / 1000; // Convert to ms
-          if (timestamp < startTime || (endTime && timestamp > endTime)) {
-            videoFrame.close();
-            return;
-          }
-
-          // Apply frame skipping
-          if (skipFrames > 0 && frameIndex % (skipFrames + 1) !== 0) {
-            frameIndex++;
-            videoFrame.close();
-            return;
-          }
-
-          // Apply max frames limit
-          if (processedFrames >= settings.maxFrames) {
-            videoFrame.close();
-            return;
-          }
-
-          // Create canvas and draw the video frame
-          let finalWidth = videoFrame.displayWidth || videoFrame.codedWidth;
-          let finalHeight = videoFrame.displayHeight || videoFrame.codedHeight;
-
-          if (settings.scale?.mode === 'custom' && settings.scale.width && settings.scale.height) {
-            finalWidth = settings.scale.width;
-            finalHeight = settings.scale.height;
-          }
-
-          const canvas = new OffscreenCanvas(finalWidth, finalHeight);
-          const ctx = canvas.getContext('2d');
-          if (!ctx) {
-            videoFrame.close();
-            throw new Error('Could not get canvas context');
-          }
-
-          ctx.drawImage(videoFrame, 0, 0, finalWidth, finalHeight);
-
-          // Convert to blob
-          const outputFormat = settings.outputFormat?.type === 'jpeg' ? 'image/jpeg' : 'image/png';
-          const quality = settings.outputFormat?.type === 'jpeg' ? (settings.outputFormat.quality || 90) / 100 : undefined;
-          
-          const blob = await canvas.convertToBlob({ 
-            type: outputFormat,
-            quality 
-          });
-
-          const filename = `frame_${String(processedFrames + 1).padStart(settings.naming.padLength, '0')}.${outputFormat === 'image/jpeg' ? 'jpg' : 'png'}`;
-
-          const frame: ExtractedFrame = {
-            index: processedFrames,
-            timestamp,
-            blob,
-            url: URL.createObjectURL(blob),
-            filename
-          };
-
-          frames.push(frame);
-          zip.file(filename, blob);
-
-          // Post frame
-          (postMessage as any)({
-            type: 'FRAME',
-            frame
-          } as WorkerOutMessage);
-
-          processedFrames++;
-
-          // Post progress
-          const estimatedTotal = Math.min(
-            settings.maxFrames,
-            metadata?.duration ? Math.floor(metadata.duration * (targetFrameRate || 30)) : 1000
-          );
-          const progress = Math.round((processedFrames / estimatedTotal) * 100);
-          
-          (postMessage as any)({
-            type: 'PROGRESS',
-            progress: {
-              frames: processedFrames,
-              percent: Math.min(progress, 100),
-              status: 'processing'
-            }
-          } as WorkerOutMessage);
-
-          videoFrame.close();
-
-        } catch (error) {
-          console.error('Error processing video frame:', error);
-          videoFrame.close();
-        }
-
-        frameIndex++;
-      },
-
-      error: (error: any) => {
-        console.error('VideoDecoder error:', error);
-        reject(new Error(`VideoDecoder error: ${error.message}`));
-      }
-    });
-
-    // Configure the decoder
-    decoder.configure(videoConfig);
-
-    // Simple chunk extraction - in a real implementation, you'd want a proper MP4 demuxer
-    // For now, we'll try to extract some basic chunks
+  const selector = createFrameSelector(settings);
+  const startUs = selector.startMs * 1000;
+  const endUs = selector.endMs * 1000;
+  const rangeEndUs = Math.min(endUs, (metadata?.duration || track.duration) * 1e6);
+  const ext = outputExtension(settings);
+
+  // Frames are streamed into the current ZIP part as they are encoded, so nothing piles up here
+  const basename = fileBasename(metadata?.name || file.name);
+  const namer = new FrameNamer(settings, { basename, engine: 'webcodecs', ext, fps: metadata?.fps });
+  const provenance = frameProvenance(settings, { source: metadata?.name || file.name, sha256: metadata?.sha256, fps: metadata?.fps, engine: 'webcodecs' });
+  const parts = new SplitZipWriter(basename, settings, metadata, post);
+  const postFrames = shouldPostFrames(settings);
+  // Decoded frames come out as coded; the container's display rotation is ours to apply
+  const container = containerOrientation(metadata);
+
+  const handleFrame = async (videoFrame: VideoFrame) => {
     try {
-      let box;
-      const chunks: ArrayBuffer[] = [];
-      
-      // This is a simplified approach - for production, use a proper MP4 demuxer library
-      while ((box = parser.readBox()) !== null) {
-        if (box.type === 'mdat') {
-          // Media data box - contains the actual video data
-          // In a real implementation, you'd parse the moov box to get sample locations
-          // For now, we'll just try to decode the whole mdat as chunks
-          const chunkSize = 1024 * 64; // 64KB chunks
-          for (let i = 0; i < box.data.byteLength; i += chunkSize) {
-            if (cancelled) break;
-            
-            const chunk = box.data.slice(i, Math.min(i + chunkSize, box.data.byteLength));
-            if (chunk.byteLength > 0) {
-              chunks.push(chunk);
-            }
-          }
-          break;
-        }
+      const ts = videoFrame.timestamp;
+      if (done || cancelled || !selector.accept(ts / 1000)) return;
+
+      // Draw the video frame at the output size and encode it
+      const canvas = renderFrame(
+        videoFrame,
+        videoFrame.displayWidth || videoFrame.codedWidth,
+        videoFrame.displayHeight || videoFrame.codedHeight,
+        settings,
+        container
+      );
+      const { blob, originalSize } = await encodeFrame(canvas, settings, provenance?.frame(processedFrames, ts / 1000));
+      const filename = namer.name({ index: processedFrames, timestampMs: ts / 1000, width: canvas.width, height: canvas.height });
+
+      await parts.add(filename, blob, ts / 1000);
+      if (postFrames) {
+        const frame: ExtractedFrame = {
+          index: processedFrames,
+          timestamp: ts / 1000,
+          blob,
+          url: URL.createObjectURL(blob),
+          filename,
+          originalSize
+        };
+        post({ type: 'FRAME', frame });
       }
 
-      // Decode chunks
-      for (const [index, chunk] of chunks.entries()) {
-        if (cancelled) break;
-
-        try {
-          const encodedChunk = new (EncodedVideoChunk as any)({
-            type: index === 0 ? 'key' : 'delta',
-            timestamp: index * (1000000 / (targetFrameRate || 30)), // microseconds
-            duration: 1000000 / (targetFrameRate || 30),
-            data: chunk
-          });
-
-          decoder.decode(encodedChunk);
-        } catch (error) {
-          console.warn(`Error decoding chunk ${index}:`, error);
-          // Continue with next chunk
+      processedFrames++;
+      if (processedFrames >= settings.maxFrames) done = true;
+
+      const span = Number.isFinite(rangeEndUs) && rangeEndUs > startUs ? rangeEndUs - startUs : 0;
+      const percent = span ? Math.round(((ts - startUs) / span) * 100) : 0;
+      post({
+        type: 'PROGRESS',
+        progress: {
+          frames: processedFrames,
+          percent: Math.max(0, Math.min(percent, 100)),
+          status: 'processing'
         }
-      }
-
-      // Flush the decoder
-      decoder.flush().then(async () => {
-        // Handle output
-        if (!cancelled && frames.length > 0) {
-          // Handle split export
-          if (settings.split?.enabled && settings.split.framesPerPart > 0) {
-            const framesPerPart = settings.split.framesPerPart;
-            const totalParts = Math.ceil(frames.length / framesPerPart);
-
-            for (let partIndex = 0; partIndex < totalParts; partIndex++) {
-              const startIdx = partIndex * framesPerPart;
-              const endIdx = Math.min(startIdx + framesPerPart, frames.length);
-              const partFrames = frames.slice(startIdx, endIdx);
+      });
+    } finally {
+      videoFrame.close();
+    }
+  };
 
-              const partZip = new JSZip();
-              for (const frame of partFrames) {
-                partZip.file(frame.filename, frame.blob);
-              }
+  // Decoder outputs are queued and handled in order so encoding never interleaves
+  const pending: VideoFrame[] = [];
+  let decodeError: Error | null = null;
+  const decoder = new VideoDecoder({
+    output: (frame) => { pending.push(frame); },
+    error: (error) => { decodeError = new Error(`VideoDecoder error: ${error.message}`); }
+  });
+  const drain = async () => {
+    while (pending.length) await handleFrame(pending.shift()!);
+  };
 
-              const zipBlob = await partZip.generateAsync({ type: 'blob' });
-              const basename = file.name.replace(/\.[^/.]+$/, '');
-              const partFilename = `${basename}_part_${partIndex + 1}_of_${totalParts}.zip`;
+  decoder.configure(videoConfig);
 
-              (postMessage as any)({
-                type: 'PART_READY',
-                partIndex: partIndex + 1,
-                totalParts,
-                startFrame: startIdx,
-                endFrame: endIdx - 1,
-                filename: partFilename,
-                zip: zipBlob
-              } as WorkerOutMessage);
-            }
-          } else {
-            const zipBlob = await zip.generateAsync({ type: 'blob' });
-            const basename = file.name.replace(/\.[^/.]+$/, '');
-            const filename = `${basename}_frames.zip`;
+  try {
+    // Start at the keyframe before startTime and stop feeding once past endTime
+    for await (const { sample, data } of demuxer.read({ startUs, endUs })) {
+      if (cancelled || done) break;
+      if (decodeError) throw decodeError;
+
+      decoder.decode(new EncodedVideoChunk({
+        type: sample.isKey ? 'key' : 'delta',
+        timestamp: sample.pts,
+        duration: sample.duration,
+        data
+      }));
+
+      // Backpressure: keep the decoder queue short so frames don't pile up in memory
+      await drain();
+      while (decoder.decodeQueueSize > 8 && !decodeError) {
+        await new Promise(r => setTimeout(r, 1));
+        await drain();
+      }
+    }
 
-            (postMessage as any)({
-              type: 'PART_READY',
-              partIndex: 1,
-              totalParts: 1,
-              startFrame: 0,
-              endFrame: frames.length - 1,
-              filename,
-              zip: zipBlob
-            } as WorkerOutMessage);
-          }
+    if (decodeError) throw decodeError;
+    if (!cancelled && !done) await decoder.flush();
+    await drain();
+  } finally {
+    pending.splice(0).forEach(f => f.close());
+    if (decoder.state !== 'closed') decoder.close();
+  }
 
-          (postMessage as any)({
-            type: 'COMPLETE',
-            totalFrames: frames.length
-          } as WorkerOutMessage);
-        }
+  // A pooled segment may legitimately hold no selected frames
+  if (processedFrames === (settings.resume?.frameOffset ?? 0) && !cancelled && !settings.segment) throw new Error('No frames were decoded in the selected range');
 
-        decoder.close();
-        resolve();
-      }).catch((error) => {
-        decoder.close();
-        reject(error);
-      });
+  // On cancel the frames so far still go out as a final, shorter part
+  await parts.finish();
+  if (cancelled) {
+    post({ type: 'CANCELLED', totalFrames: processedFrames });
+    return;
+  }
 
-    } catch (error) {
-      decoder.close();
-      reject(error);
-    }
-  });
+  post({ type: 'COMPLETE', totalFrames: processedFrames });
 }
 
-self.onmessage = async (evt: MessageEvent<WorkerInMessage>) => {
-  try {
-    const msg = evt.data;
-
-    if (msg.type === 'EXTRACT') {
-      await extractFramesFromVideo(msg.file, msg.settings, msg.metadata);
-      return;
-    }
-
-    if (msg.type === 'CANCEL') {
-      cancelled = true;
-      (self as any).close();
-    }
-  } catch (err: any) {
-    (postMessage as any)({
-      type: 'ERROR',
-      error: err?.message || String(err)
-    } as WorkerOutMessage);
+serveEngine({
+  extract: extractFramesFromVideo,
+  async selfTest() {
+    if (!('VideoDecoder' in self)) return { ok: false, detail: 'VideoDecoder not supported in this browser' };
+    const { supported } = await VideoDecoder.isConfigSupported({ codec: 'avc1.42E01E', codedWidth: 64, codedHeight: 64 });
+    return { ok: true, detail: supported ? 'H.264 decoding available' : 'VideoDecoder available, H.264 unsupported' };
+  },
+  cancel() {
+    cancelled = true;
   }
-};
\ No newline at end of file
+});